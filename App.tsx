@@ -1,47 +1,198 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { marked, Renderer } from 'marked';
-import { initDB, getChatsForClass, addChat, updateChat, deleteChat } from './utils/db';
-import type { ChatMessage, QuizQuestion, SelectOption, StoredChat } from './types';
+// Copying a selection that includes typeset maths puts its LaTeX source on the clipboard.
+import 'katex/contrib/copy-tex';
+import { initDB, getChatsForClass, addChat, updateChat, deleteChat, addAttachments, getAttachment, addHintSession, getHintSession, recordHintProgress, addMockTest, getMockTest, addQuizAttempt, getQuizAttempt, recordQuizProgress, appendMessage, updateMessage, getMessages, searchChats, importChats, createId, forkChat, type ImportMode } from './utils/db';
+import { exportChats, downloadBlob, parseBackup, type ExportFormat, type ExportScope } from './utils/backup';
+import { readChatEvents, statusForFinishReason } from './utils/chatStream';
+import { buildSnippet, tokenize } from './utils/search';
+import { classLabel, toClassId } from './utils/classes';
+import { getActivePath, getLatestLeaf, getSiblings } from './utils/messageTree';
+import { formatTranscript, planHistory } from './utils/contextWindow';
+import { createMathExtension } from './utils/markdownMath';
+import { escapeHtml, isSafeUrl, rawHtmlExtension, sanitizeHtml } from './utils/sanitize';
+import { fenceLanguage, highlightCode } from './utils/highlight';
+import { renderVisualBlock } from './utils/visualBlocks';
+import { hidePlotValues, showPlotValues } from './utils/plot';
+import { highlightDiagramNode } from './utils/diagram';
+import { RUN_TIMEOUT_MS, runCode, runnableLanguage, type RunOutcome } from './utils/codeRunner';
+import { VERDICT_LABELS, formatMarks, gradeToMarkdown } from './utils/grading';
+import { ASSERTION_REASON_OPTIONS, QUIZ_QUESTION_TYPES, QUIZ_TYPE_LABELS, formatAnswer, formatCorrectAnswer, isAnswerCorrect, isAnswered, questionToMarkdown, scoreQuizAttempt, wrongQuestions } from './utils/quiz';
+import { ADAPTIVE_BATCH_SIZE, ADAPTIVE_LEVELS, ADAPTIVE_MAX_QUESTIONS, ADAPTIVE_MIN_QUESTIONS, ADAPTIVE_START_LEVELS, adaptiveResponses, confidenceOf, estimateBySubtopic, estimateLevel, isLevelSettled, levelLabel, levelReportToMarkdown, nextBatchLevel, subtopicsToTarget, type AdaptiveResponse } from './utils/adaptiveQuiz';
+import { EXAM_PATTERNS, PALETTE_STATUS_LABELS, describeScheme, formatClock, formatTimeSpent, mockTestToMarkdown, paletteStatus, patternsForClass, schemeFor, scoreMockTest, testDurationSeconds, type PaletteStatus, type QuestionOutcome } from './utils/mockTest';
+import { ATTEMPT_VERDICT_LABELS, HINT_LEVELS, HINT_LEVEL_LABELS, hintSessionToMarkdown, nextHintLevel } from './utils/hints';
+import { ATTACHMENT_ACCEPT, MAX_ATTACHMENTS_PER_MESSAGE, MAX_CONTEXT_ATTACHMENTS, MAX_REQUEST_ATTACHMENT_BYTES, attachmentKind, attachmentMimeType, checkAttachment, formatBytes } from './utils/attachments';
+import type { AttachmentPayload, AttemptVerdict, ChatMessage, Citation, ContextSummary, GradeResult, GroundingChunk, HintAttempt, HintLevel, HintSession, RevealedHint, MessageAttachment, MessageStatus, MockTest, MockTestResponse, MockTestSection, ExamPatternId, QuizAnswer, QuizAttempt, QuizQuestion, QuizQuestionType, SearchResult, SelectOption, StoredChat, StoredMessage, TokenUsage, ToolCall, ToolName } from './types';
+
+
+const blobToBase64 = (blob: Blob) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
 
+// Builds the API history for earlier turns. Files are not repeated here: they go with the new
+// question (see collectAttachments), so each turn only notes what was attached to it.
+const buildHistoryForApi = (messages: ChatMessage[]) => messages.map(m => {
+    const parts = [{ text: m.text }];
+    if (m.attachments?.length) parts.unshift({ text: `[Attached: ${m.attachments.map(a => a.name).join(', ')}]` });
+    return { role: m.role, parts };
+});
 
-// Helper function to convert file to base64
-const fileToGenerativePart = async (file: File) => {
-    const base64EncodedDataPromise = new Promise<string>((resolve) => {
-        const reader = new FileReader();
-        reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
-        reader.readAsDataURL(file);
+// Files to send with a question: its own, then those attached earlier on the branch, newest
+// first, up to MAX_CONTEXT_ATTACHMENTS and for as long as they fit in the request. Earlier files stay in context this way, as
+// the server keeps nothing between questions.
+const collectAttachments = async (userMessage: ChatMessage, previousMessages: ChatMessage[]) => {
+    const current = userMessage.attachments ?? [];
+    let totalBytes = current.reduce((total, a) => total + a.size, 0);
+    const seen = new Set(current.map(a => a.id));
+    const earlier: MessageAttachment[] = [];
+    [...previousMessages].reverse().forEach(message => {
+        [...(message.attachments ?? [])].reverse().forEach(attachment => {
+            if (seen.has(attachment.id) || earlier.length === MAX_CONTEXT_ATTACHMENTS || totalBytes + attachment.size > MAX_REQUEST_ATTACHMENT_BYTES) return;
+            seen.add(attachment.id);
+            totalBytes += attachment.size;
+            earlier.push(attachment);
+        });
     });
-    return {
-        inlineData: { data: await base64EncodedDataPromise, mimeType: file.type },
+
+    const toPayloads = async (attachments: MessageAttachment[]) => {
+        const stored = await Promise.all(attachments.map(a => getAttachment(a.id)));
+        return Promise.all(stored.filter(a => a !== undefined).map(async (a): Promise<AttachmentPayload> => ({
+            name: a.name,
+            mimeType: a.mimeType,
+            data: await blobToBase64(a.blob),
+        })));
     };
+    // Back in the order they were attached.
+    return { attachments: await toPayloads(current), contextAttachments: await toPayloads(earlier.reverse()) };
 };
 
-// === Enhanced Markdown Rendering for Code Blocks ===
+// Folds messages into a chat's rolling summary, extending previousSummary when there is one.
+const condenseMessages = async (messages: ChatMessage[], previousSummary: string | undefined, signal: AbortSignal): Promise<string> => {
+    const response = await fetch('/api/summarize', {
+        method: 'POST',
+        signal,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ conversation: formatTranscript(messages), previousSummary }),
+    });
+    if (!response.ok) throw new Error('Failed to get summary.');
+    const { summary } = await response.json();
+    if (!summary) throw new Error('The summary was empty.');
+    return summary;
+};
+
+// Minimum time between re-renders of a streaming answer.
+const STREAM_RENDER_INTERVAL_MS = 80;
+
+// Pause after the last keystroke before the sidebar search runs.
+const SEARCH_DEBOUNCE_MS = 200;
+
+// === Enhanced Markdown Rendering for Code Blocks and Maths ===
 const renderer = new Renderer();
-const originalCodeRenderer = renderer.code;
 const copyIconPath = "M16 4h2a2 2 0 012 2v14a2 2 0 01-2 2H6a2 2 0 01-2-2V6a2 2 0 012-2h2";
 const checkIconPath = "M20 6L9 17l-5-5";
 const pinIconPath = "M14.4 6L14 4H5v17h2v-7h5.6l.4 2h7V6h-5.6z";
+const playIconPath = "M8 5v14l11-7z";
 
-renderer.code = function({ text: code, lang: infostring, escaped }) {
-    const originalHtml = originalCodeRenderer.call(this, { text: code, lang: infostring, escaped });
-    const safeCode = code.replace(/"/g, '&quot;').replace(/'/g, '&#39;');
-
+// The button copies its data-code attribute; see the click handler in App.
+const copyButtonHtml = (source: string, label: string, ariaLabel: string) => {
+    const safeSource = escapeHtml(source);
     const copySVG = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="${copyIconPath}" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/></svg>`;
 
-    const buttonHtml = `
+    return `
       <button 
         class="copy-code-btn" 
-        data-code="${safeCode}"
-        aria-label="Copy code"
+        data-code="${safeSource}"
+        aria-label="${ariaLabel}"
       >
         ${copySVG}
-        <span>Copy</span>
+        <span>${label}</span>
       </button>
     `;
-    return `<div class="code-block-wrapper">${originalHtml}${buttonHtml}</div>`;
+};
+
+// JavaScript and Python blocks also get a Run button; see runCodeBlock.
+const runButtonHtml = (source: string, language: string) => {
+    const playSVG = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="${playIconPath}" fill="currentColor"/></svg>`;
+    return `<button class="run-code-btn" data-code="${escapeHtml(source)}" data-lang="${language}" aria-label="Run code">${playSVG}<span>Run</span></button>`;
+};
+
+renderer.code = function({ text: code, lang: infostring }) {
+    const language = fenceLanguage(infostring);
+    // Plot and diagram blocks are drawn; if one can't be, its source is shown with the reason.
+    const visual = renderVisualBlock(language, code);
+    if (visual && 'html' in visual) return visual.html;
+    const visualError = visual ? `<div class="visual-error">${escapeHtml(visual.error)}</div>` : '';
+    const runnable = runnableLanguage(language);
+    const languageClass = language ? ` language-${escapeHtml(language)}` : '';
+    const codeHtml = `<pre><code class="hljs${languageClass}">${highlightCode(code.replace(/\n$/, ''), language)}\n</code></pre>`;
+    const runButton = runnable ? runButtonHtml(code, runnable) : '';
+    return `<div class="code-block-wrapper">${codeHtml}<div class="code-block-actions">${runButton}${copyButtonHtml(code, 'Copy', 'Copy code')}</div></div>${visualError}`;
 };
 marked.use({ renderer });
+marked.use(rawHtmlExtension);
+marked.use(createMathExtension({
+    wrapDisplay: (html, tex) => `<div class="code-block-wrapper math-block">${html}<div class="code-block-actions">${copyButtonHtml(tex, 'Copy LaTeX', 'Copy LaTeX source')}</div></div>`,
+}));
+
+// Model output is untrusted, so markdown only ever reaches the DOM through these.
+const renderMarkdown = (text: string) => sanitizeHtml(marked.parse(text) as string);
+const renderInlineMarkdown = (text: string) => sanitizeHtml(marked.parseInline(text) as string);
+
+const RUN_OUTCOME_LABELS: Record<RunOutcome, string> = {
+    'ok': 'Finished',
+    'error': 'Finished with an error',
+    'timeout': `Stopped after ${RUN_TIMEOUT_MS / 1000} seconds`,
+    'output-limit': 'Stopped: too much output',
+};
+
+// Runs the block behind a Run button and shows its output underneath. The output is set as
+// text, never HTML. It lives only in the DOM, so it is gone when the message re-renders.
+const runCodeBlock = async (button: HTMLButtonElement) => {
+    const language = runnableLanguage(button.dataset.lang);
+    const wrapper = button.closest('.code-block-wrapper');
+    const label = button.querySelector('span');
+    if (!language || !wrapper || !label || !button.dataset.code) return;
+
+    wrapper.querySelector('.code-output')?.remove();
+    const output = document.createElement('div');
+    output.className = 'code-output';
+    const lines = document.createElement('pre');
+    const status = document.createElement('div');
+    status.className = 'code-output-status';
+    status.setAttribute('role', 'status');
+    status.textContent = 'Running…';
+    output.append(lines, status);
+    wrapper.append(output);
+
+    button.disabled = true;
+    label.textContent = 'Running…';
+    const outcome = await runCode(language, button.dataset.code, event => {
+        if (event.type === 'loading') status.textContent = 'Loading Python…';
+        if (event.type === 'started') status.textContent = 'Running…';
+        if (event.type === 'output') {
+            const line = document.createElement('span');
+            line.className = `code-output-${event.stream}`;
+            line.textContent = `${event.text}\n`;
+            lines.append(line);
+        }
+    });
+    if (!lines.hasChildNodes()) lines.remove();
+    status.textContent = outcome === 'ok' && !lines.isConnected ? 'Finished with no output' : RUN_OUTCOME_LABELS[outcome];
+    button.disabled = false;
+    label.textContent = 'Run';
+};
+
+const sourceLabel = (source: GroundingChunk) => {
+    if (source.web.title) return source.web.title;
+    try {
+        return new URL(source.web.uri).hostname;
+    } catch {
+        return source.web.uri;
+    }
+};
 
 
 // === Reusable UI Components (Moved outside App for performance) ===
@@ -91,56 +242,403 @@ const SkeletonLoader = () => (
 );
 
 
-const Message = React.memo(({ msg, msgIndex, isLastMessage, isLoading }: { msg: ChatMessage; msgIndex: number; isLastMessage: boolean; isLoading: boolean; }) => {
+// Inserts [n] markers after each cited span of a search-grounded answer. Spans are located by their
+// text rather than by offset, because the model reports offsets in UTF-8 bytes.
+const applyCitations = (text: string, citations: Citation[]): string => {
+    const insertions: { at: number; marker: string }[] = [];
+    let searchFrom = 0;
+    for (const citation of citations) {
+        const start = text.indexOf(citation.text, searchFrom);
+        if (start < 0) continue;
+        const at = start + citation.text.length;
+        insertions.push({ at, marker: citation.sourceIndices.map(i => `[${i + 1}]`).join('') });
+        searchFrom = at;
+    }
+    // Insert from the end so earlier positions stay valid.
+    return insertions.reverse().reduce((result, { at, marker }) => result.slice(0, at) + marker + result.slice(at), text);
+};
+
+const fileIconPath = "M14 2H6a2 2 0 00-2 2v16a2 2 0 002 2h12a2 2 0 002-2V8zM14 2v6h6M8 13h8M8 17h5";
+
+// Shows a file attached to a message. Images are loaded from IndexedDB and shown inline; other
+// files are chips that open the file in a new tab.
+const MessageAttachmentView = ({ attachment }: { attachment: MessageAttachment }) => {
+    const isImage = attachmentKind(attachment.mimeType) === 'image';
+    const [src, setSrc] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isImage) return;
+        let objectUrl: string | null = null;
+        let cancelled = false;
+        getAttachment(attachment.id).then(stored => {
+            if (cancelled || !stored) return;
+            objectUrl = URL.createObjectURL(stored.blob);
+            setSrc(objectUrl);
+        }).catch(err => console.error('Failed to load attachment:', err));
+        return () => {
+            cancelled = true;
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+        };
+    }, [attachment.id, isImage]);
+
+    const handleOpen = async () => {
+        const stored = await getAttachment(attachment.id);
+        if (!stored) return;
+        // A tab opened on a blob URL runs with our origin, so only the types the app accepts are
+        // shown there, under the checked type rather than the blob's own. Anything else is downloaded.
+        if (!attachmentKind(stored.mimeType)) {
+            downloadBlob(new Blob([stored.blob], { type: 'application/octet-stream' }), stored.name);
+            return;
+        }
+        const url = URL.createObjectURL(new Blob([stored.blob], { type: stored.mimeType }));
+        window.open(url, '_blank', 'noopener');
+        // Long enough for the new tab to load it.
+        setTimeout(() => URL.revokeObjectURL(url), 60000);
+    };
+
+    if (isImage) return src ? <img src={src} alt={attachment.name} className="message-image" /> : null;
+    return (
+        <button type="button" className="attachment-chip" onClick={handleOpen} title={`Open ${attachment.name}`}>
+            <Icon path={fileIconPath} size={16} />
+            <span className="attachment-name">{attachment.name}</span>
+            <span className="attachment-size">{formatBytes(attachment.size)}</span>
+        </button>
+    );
+};
+
+const messageStatusNotices: Record<MessageStatus, string> = {
+    truncated: 'This answer was cut off before it finished.',
+    blocked: 'This answer was stopped by the safety filter.',
+    error: 'Something went wrong while generating this answer, so it may be incomplete.',
+    stopped: 'You stopped this answer before it finished.',
+};
+
+const toolLabels: Record<ToolName, string> = {
+    calculate: 'Calculator',
+    convert_units: 'Unit converter',
+    lookup_element: 'Periodic table',
+    lookup_constant: 'Physical constants',
+    get_formula_sheet: 'Formula sheet',
+};
+
+const toolIconPath = "M6 2h12a2 2 0 012 2v16a2 2 0 01-2 2H6a2 2 0 01-2-2V4a2 2 0 012-2zM8 6h8v4H8zM8 14h.01M12 14h.01M16 14h.01M8 18h.01M12 18h.01M16 18h.01";
+const editIconPath = "M11 4H4a2 2 0 00-2 2v14a2 2 0 002 2h14a2 2 0 002-2v-7M18.5 2.5a2.121 2.121 0 013 3L12 15l-4 1 1-4 9.5-9.5z";
+const regenerateIconPath = "M1 4v6h6M23 20v-6h-6M20.49 9A9 9 0 005.64 5.64L1 10m22 4l-4.64 4.36A9 9 0 013.51 15";
+const branchIconPath = "M6 3v12M18 9a3 3 0 100-6 3 3 0 000 6zM6 21a3 3 0 100-6 3 3 0 000 6zM18 9a9 9 0 01-9 9";
+
+// The reply to "Check my work": the student's steps as marked, with the first error picked out.
+const GradeCard = ({ grade }: { grade: GradeResult }) => (
+    <div className="grade-card">
+        <div className="grade-header">
+            <span className="grade-score">{grade.score} / {grade.maxMarks}</span>
+            <span className="grade-score-label">{grade.maxMarks === 1 ? 'mark' : 'marks'}</span>
+        </div>
+        {grade.feedback && <p className="grade-feedback">{grade.feedback}</p>}
+        {grade.steps.length > 0 && (
+            <ol className="grade-steps">
+                {grade.steps.map((step, i) => (
+                    <li key={i} className={`grade-step verdict-${step.verdict} ${i === grade.firstErrorStep ? 'first-error' : ''}`}>
+                        <div className="grade-step-work" dangerouslySetInnerHTML={{ __html: renderInlineMarkdown(step.work) }} />
+                        <div className="grade-step-verdict">
+                            <span>{VERDICT_LABELS[step.verdict]}{i === grade.firstErrorStep && ' · first error'}</span>
+                            <span>{formatMarks(step.marks)}</span>
+                        </div>
+                        {step.comment && <div className="grade-step-comment" dangerouslySetInnerHTML={{ __html: renderInlineMarkdown(step.comment) }} />}
+                    </li>
+                ))}
+            </ol>
+        )}
+        {grade.hints.length > 0 && (
+            <div className="grade-hints">
+                <strong>Hints</strong>
+                <ul>{grade.hints.map((hint, i) => <li key={i} dangerouslySetInnerHTML={{ __html: renderInlineMarkdown(hint) }} />)}</ul>
+            </div>
+        )}
+    </div>
+);
+
+// A problem worked through with "Solve with me". The session lives in IndexedDB, and each hint
+// or checked attempt is recorded there before it is shown.
+const GuidedSolveCard = ({ sessionId, classId, onChange }: {
+    sessionId: string;
+    classId: string;
+    onChange: (session: HintSession) => void;
+}) => {
+    const [session, setSession] = useState<HintSession | null>(null);
+    const [attempt, setAttempt] = useState('');
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        getHintSession(sessionId).then(stored => {
+            if (!cancelled && stored) setSession(stored);
+        }).catch(err => console.error('Failed to load hint session:', err));
+        return () => { cancelled = true; };
+    }, [sessionId]);
+
+    if (!session) return null;
+    const level = nextHintLevel(session.hints.length);
+
+    // Reveals the next hint, or has an attempt checked when one is given.
+    const handleRequest = async (attemptText?: string) => {
+        setIsBusy(true);
+        setError(null);
+        try {
+            const response = await fetch('/api/hint', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    classId,
+                    problem: session.problem,
+                    plan: session.plan,
+                    revealed: session.hints.map(({ level, text }) => ({ level, text })),
+                    attempt: attemptText,
+                    token: session.progressToken,
+                }),
+            });
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}));
+                throw new Error(errorData.error || 'Failed to get a hint.');
+            }
+            const data = await response.json() as { hint?: { level: HintLevel; text: string }; attempt?: { verdict: AttemptVerdict; feedback: string }; token: string };
+            const now = Date.now();
+            const updated = await recordHintProgress(session.id, {
+                hint: data.hint && { ...data.hint, revealedAt: now },
+                attempt: data.attempt && attemptText ? { text: attemptText, ...data.attempt, submittedAt: now } : undefined,
+                progressToken: data.token,
+            });
+            setSession(updated);
+            if (attemptText) setAttempt('');
+            onChange(updated);
+        } catch (e) {
+            console.error('Hint request failed:', e);
+            setError((e as Error).message);
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    // Hints and attempts in the order they happened; an attempt comes before the hint it earned.
+    const timeline = [
+        ...session.attempts.map(attempt => ({ at: attempt.submittedAt, order: 0, attempt })),
+        ...session.hints.map(hint => ({ at: hint.revealedAt, order: 1, hint })),
+    ].sort((a, b) => a.at - b.at || a.order - b.order) as ({ at: number; attempt: HintAttempt } | { at: number; hint: RevealedHint })[];
+
+    return (
+        <div className="solve-card">
+            <div className="solve-problem" dangerouslySetInnerHTML={{ __html: renderMarkdown(session.problem) }} />
+            <div className="solve-plan">
+                <strong>Plan</strong>
+                <p>{session.plan.goal}</p>
+                <ol>{session.plan.steps.map((step, i) => <li key={i} dangerouslySetInnerHTML={{ __html: renderInlineMarkdown(step) }} />)}</ol>
+            </div>
+            {timeline.map((item, i) => 'hint' in item ? (
+                <div key={i} className={`solve-hint level-${item.hint.level}`}>
+                    <span className="solve-label">{HINT_LEVEL_LABELS[item.hint.level]}</span>
+                    <div dangerouslySetInnerHTML={{ __html: renderMarkdown(item.hint.text) }} />
+                </div>
+            ) : (
+                <div key={i} className={`solve-attempt verdict-${item.attempt.verdict}`}>
+                    <span className="solve-label">Your attempt · {ATTEMPT_VERDICT_LABELS[item.attempt.verdict]}</span>
+                    <div className="solve-attempt-text">{item.attempt.text}</div>
+                    <div dangerouslySetInnerHTML={{ __html: renderMarkdown(item.attempt.feedback) }} />
+                </div>
+            ))}
+            {session.solved ? (
+                <div className="solve-solved">Solved with {session.hints.length} of {HINT_LEVELS.length} hints.</div>
+            ) : (
+                <form className="solve-controls" onSubmit={(e) => { e.preventDefault(); if (attempt.trim()) handleRequest(attempt.trim()); }}>
+                    <textarea
+                        className="message-edit-input"
+                        value={attempt}
+                        onChange={(e) => setAttempt(e.target.value)}
+                        placeholder="Write your working or answer so far..."
+                        rows={3}
+                        disabled={isBusy}
+                        aria-label="Your attempt"
+                    />
+                    <div className="solve-buttons">
+                        <span className="solve-usage">Hints used: {session.hints.length} of {HINT_LEVELS.length}</span>
+                        {level && (
+                            <button type="button" className="modal-btn cancel" onClick={() => handleRequest()} disabled={isBusy}>
+                                Show {HINT_LEVEL_LABELS[level].toLowerCase()}
+                            </button>
+                        )}
+                        <button type="submit" className="modal-btn submit" disabled={isBusy || !attempt.trim()}>Check Attempt</button>
+                    </div>
+                    {error && <div className="attachment-error" role="alert">{error}</div>}
+                </form>
+            )}
+        </div>
+    );
+};
+
+const Message = React.memo(({ msg, msgIndex, isLastMessage, isLoading, versions, onSwitchVersion, onEdit, onRegenerate, onFork, classId, onHintSessionChange, onReviewMockTest, onReviewQuiz }: {
+    msg: ChatMessage;
+    msgIndex: number;
+    isLastMessage: boolean;
+    isLoading: boolean;
+    // Position among the alternative versions of this turn, when there is more than one.
+    versions?: { index: number; count: number };
+    onSwitchVersion?: (delta: number) => void;
+    onEdit?: (text: string) => void;
+    onRegenerate?: () => void;
+    onFork?: () => void;
+    // Needed by the "Solve with me" card, which asks for hints itself.
+    classId?: string;
+    onHintSessionChange?: (session: HintSession) => void;
+    onReviewMockTest?: () => void;
+    onReviewQuiz?: () => void;
+}) => {
     const [copied, setCopied] = useState(false);
+    const [isEditing, setIsEditing] = useState(false);
+    const [draft, setDraft] = useState(msg.text);
     const handleCopy = () => {
         navigator.clipboard.writeText(msg.text);
         setCopied(true);
         setTimeout(() => setCopied(false), 2000);
     };
 
-    const showSkeleton = isLoading && isLastMessage && msg.role === 'model' && !msg.text.trim() && (!msg.sources || msg.sources.length === 0);
-    const hasContent = (msg.text && msg.text.trim().length > 0) || (msg.sources && msg.sources.length > 0);
+    const showSkeleton = isLoading && isLastMessage && msg.role === 'model' && !msg.text.trim() && (!msg.sources || msg.sources.length === 0) && !msg.toolCalls?.length;
+    const hasContent = (msg.text && msg.text.trim().length > 0) || (msg.sources && msg.sources.length > 0) || !!msg.toolCalls?.length || !!msg.status;
 
     const htmlContent = useMemo(() => {
-        let processedText = msg.text;
+        let processedText = msg.citations ? applyCitations(msg.text, msg.citations) : msg.text;
         if (msg.sources && msg.sources.length > 0 && /\[\d+\]/.test(processedText)) {
             processedText = processedText.replace(/\[(\d+)\]/g, (match, numberStr) => {
                 const index = parseInt(numberStr, 10) - 1;
                 if (msg.sources && index >= 0 && index < msg.sources.length) {
-                    return `<sup><a href="#source-${msgIndex}-${index}" class="source-link" title="${msg.sources[index].web.title}">${numberStr}</a></sup>`;
+                    // A markdown link rather than raw HTML, which the renderer would show as text.
+                    const title = (msg.sources[index].web.title || '').replace(/\s+/g, ' ').replace(/["\\]/g, '\\$&');
+                    return `<sup>[${numberStr}](#source-${msgIndex}-${index} "${title}")</sup>`;
                 }
                 return match;
             });
         }
-        return marked.parse(processedText) as string;
-    }, [msg.text, msg.sources, msgIndex]);
+        return renderMarkdown(processedText);
+    }, [msg.text, msg.sources, msg.citations, msgIndex]);
+
+    const handleSubmitEdit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft.trim()) return;
+        setIsEditing(false);
+        onEdit?.(draft);
+    };
+
+    const isStreaming = isLoading && isLastMessage;
 
     return (
-        <div className={`chat-message role-${msg.role}`}>
+        <div id={`chat-message-${msgIndex}`} className={`chat-message role-${msg.role}`}>
             {msg.role === 'model' && <div className="message-avatar"><BHSLogo size={32} /></div>}
             <div className="message-content-wrapper">
                 <div className="message-content">
-                    {msg.image && <img src={msg.image} alt="User upload" className="message-image" />}
-                     {showSkeleton
+                    {msg.attachments?.length ? (
+                        <div className="message-attachments">
+                            {msg.attachments.map(attachment => <MessageAttachmentView key={attachment.id} attachment={attachment} />)}
+                        </div>
+                    ) : null}
+                    {isEditing ? (
+                        <form className="message-edit-form" onSubmit={handleSubmitEdit}>
+                            <textarea
+                                className="message-edit-input"
+                                value={draft}
+                                onChange={(e) => setDraft(e.target.value)}
+                                onKeyDown={(e) => { if (e.key === 'Escape') setIsEditing(false); }}
+                                rows={3}
+                                aria-label="Edit your question"
+                                autoFocus
+                            />
+                            <div className="message-edit-buttons">
+                                <button type="button" className="modal-btn cancel" onClick={() => setIsEditing(false)}>Cancel</button>
+                                <button type="submit" className="modal-btn submit" disabled={!draft.trim() || isLoading}>Send</button>
+                            </div>
+                        </form>
+                    ) : showSkeleton
                         ? <SkeletonLoader />
                         : hasContent && (
                             <div className="animated-content">
-                                {msg.text && msg.text.trim().length > 0 &&
-                                    <div dangerouslySetInnerHTML={{ __html: htmlContent }}></div>
+                                {msg.grade
+                                    ? <GradeCard grade={msg.grade} />
+                                    : msg.hintSessionId && classId && onHintSessionChange
+                                    ? <GuidedSolveCard sessionId={msg.hintSessionId} classId={classId} onChange={onHintSessionChange} />
+                                    : msg.text && msg.text.trim().length > 0 && <div dangerouslySetInnerHTML={{ __html: htmlContent }}></div>
                                 }
+                                {msg.mockTestId && onReviewMockTest && (
+                                    <button className="modal-btn submit mock-test-review-btn" onClick={onReviewMockTest}>Review Test</button>
+                                )}
+                                {msg.quizAttemptId && onReviewQuiz && (
+                                    <button className="modal-btn submit mock-test-review-btn" onClick={onReviewQuiz}>Review Quiz</button>
+                                )}
+                                {msg.toolCalls && msg.toolCalls.length > 0 && (
+                                    <details className="message-tools">
+                                        <summary>
+                                            <Icon path={toolIconPath} size={14} />
+                                            <span>Worked out with {msg.toolCalls.length === 1 ? '1 tool call' : `${msg.toolCalls.length} tool calls`}</span>
+                                        </summary>
+                                        <ol>{msg.toolCalls.map((call, i) => (
+                                            <li key={i} className={call.failed ? 'tool-failed' : undefined}>
+                                                <span className="tool-name">{toolLabels[call.name]}</span>
+                                                <code>{call.input}</code>
+                                                <span className="tool-output">{call.failed ? `Failed: ${call.output}` : `= ${call.output}`}</span>
+                                            </li>
+                                        ))}</ol>
+                                    </details>
+                                )}
+                                {msg.status && (
+                                    <div className={`message-status-notice status-${msg.status}`} role="note">
+                                        <Icon path="M12 9v4m0 4h.01M10.29 3.86L1.82 18a2 2 0 001.71 3h16.94a2 2 0 001.71-3L13.71 3.86a2 2 0 00-3.42 0z" size={16} />
+                                        <span>{messageStatusNotices[msg.status]}</span>
+                                    </div>
+                                )}
                                 {msg.sources && msg.sources.length > 0 && (
                                     <div className="message-sources">
                                         <hr />
                                         <p><strong>Sources from the web:</strong></p>
-                                        <ol>{msg.sources.map((source, i) => (<li key={i} id={`source-${msgIndex}-${i}`}><a href={source.web.uri} target="_blank" rel="noopener noreferrer">{source.web.title || new URL(source.web.uri).hostname}</a></li>))}</ol>
+                                        <ol>{msg.sources.map((source, i) => (
+                                            <li key={i} id={`source-${msgIndex}-${i}`}>
+                                                {isSafeUrl(source.web.uri)
+                                                    ? <a href={source.web.uri} target="_blank" rel="noopener noreferrer nofollow">{sourceLabel(source)}</a>
+                                                    : sourceLabel(source)}
+                                            </li>
+                                        ))}</ol>
                                     </div>
                                 )}
                             </div>
                         )
                     }
+                    {!isEditing && !isStreaming && (
+                        <div className="message-actions">
+                            {versions && versions.count > 1 && (
+                                <div className="version-switcher">
+                                    <button onClick={() => onSwitchVersion?.(-1)} disabled={isLoading || versions.index === 0} aria-label="Previous version">
+                                        <Icon path="M15 18l-6-6 6-6" size={14} />
+                                    </button>
+                                    <span>{versions.index + 1} / {versions.count}</span>
+                                    <button onClick={() => onSwitchVersion?.(1)} disabled={isLoading || versions.index === versions.count - 1} aria-label="Next version">
+                                        <Icon path="M9 18l6-6-6-6" size={14} />
+                                    </button>
+                                </div>
+                            )}
+                            {onEdit && (
+                                <button className="message-action-btn" onClick={() => { setDraft(msg.text); setIsEditing(true); }} disabled={isLoading} aria-label="Edit question">
+                                    <Icon path={editIconPath} size={16} />
+                                </button>
+                            )}
+                            {onRegenerate && (
+                                <button className="message-action-btn" onClick={onRegenerate} disabled={isLoading} aria-label="Regenerate answer">
+                                    <Icon path={regenerateIconPath} size={16} />
+                                </button>
+                            )}
+                            {onFork && (
+                                <button className="message-action-btn" onClick={onFork} disabled={isLoading} aria-label="Continue this branch in a new chat">
+                                    <Icon path={branchIconPath} size={16} />
+                                </button>
+                            )}
+                        </div>
+                    )}
                 </div>
-                {msg.role === 'model' && hasContent && !(isLoading && isLastMessage) && (
+                {msg.role === 'model' && hasContent && !isStreaming && (
                      <button onClick={handleCopy} className="copy-btn" aria-label="Copy entire message">
                          {copied ? <Icon path={checkIconPath} size={16} /> : <Icon path={copyIconPath} size={16} />}
                      </button>
@@ -151,6 +649,48 @@ const Message = React.memo(({ msg, msgIndex, isLastMessage, isLoading }: { msg:
 });
 Message.displayName = 'Message'; 
 
+// Marks where the tutor's view of the chat switches from a summary to the full messages.
+const CondensedContextNotice = ({ summary, messageCount }: { summary: ContextSummary; messageCount: number }) => (
+    <details className="condensed-context-notice">
+        <summary>
+            <Icon path="M4 14h6v6M20 10h-6V4M14 10l7-7M3 21l7-7" size={16} />
+            <span>The tutor now sees the {messageCount} messages above as a summary</span>
+        </summary>
+        <p>{summary.text}</p>
+    </details>
+);
+
+const SearchResultsList = ({ results, query, isSearching, onOpen }: {
+    results: SearchResult[];
+    query: string;
+    isSearching: boolean;
+    onOpen: (result: SearchResult) => void;
+}) => {
+    const queryTerms = useMemo(() => tokenize(query), [query]);
+
+    if (!isSearching && results.length === 0) {
+        return <p className="search-empty">No chats match "{query}".</p>;
+    }
+
+    return (
+        <>
+            {results.map(result => (
+                <button key={result.messageId || `title-${result.chat.id}`} className="search-result" onClick={() => onOpen(result)}>
+                    <span className="search-result-meta">
+                        <span className="search-result-title">{result.chat.title || result.chat.preview || 'Untitled chat'}</span>
+                        <span className="search-result-class">{classLabel(result.chat.classNum)}</span>
+                    </span>
+                    <span className="search-result-snippet">
+                        {buildSnippet(result.text, queryTerms).map((segment, i) => (
+                            segment.isMatch ? <mark key={i}>{segment.text}</mark> : <React.Fragment key={i}>{segment.text}</React.Fragment>
+                        ))}
+                    </span>
+                </button>
+            ))}
+        </>
+    );
+};
+
 const InitialClassSelector = ({ onSelectClass }: { onSelectClass: (grade: number) => void }) => (
     <div className="initial-class-selector">
         <BHSLogo size={80} />
@@ -324,7 +864,7 @@ const CustomSelect = ({ options, value, onChange, label, id }: {
 
 
 const QuizModal = ({ 
-    onStart, onCancel, topic, setTopic, numQuestions, setNumQuestions, difficulty, setDifficulty 
+    onStart, onCancel, topic, setTopic, numQuestions, setNumQuestions, difficulty, setDifficulty, types, setTypes, adaptive, setAdaptive 
 }: { 
     onStart: (e: React.FormEvent) => void, 
     onCancel: () => void, 
@@ -333,8 +873,16 @@ const QuizModal = ({
     numQuestions: number, 
     setNumQuestions: React.Dispatch<React.SetStateAction<number>>,
     difficulty: string,
-    setDifficulty: React.Dispatch<React.SetStateAction<string>>
+    setDifficulty: React.Dispatch<React.SetStateAction<string>>,
+    types: QuizQuestionType[],
+    setTypes: React.Dispatch<React.SetStateAction<QuizQuestionType[]>>,
+    adaptive: boolean,
+    setAdaptive: (adaptive: boolean) => void
 }) => {
+    // At least one type stays selected, so the last one cannot be switched off.
+    const toggleType = (type: QuizQuestionType) => setTypes(prev => prev.includes(type)
+        ? (prev.length > 1 ? prev.filter(t => t !== type) : prev)
+        : QUIZ_QUESTION_TYPES.filter(t => t === type || prev.includes(t)));
     
     const quizNumOptions: SelectOption[] = [
         { value: 5, label: '5 Questions' },
@@ -349,6 +897,11 @@ const QuizModal = ({
         { value: 'Hard', label: 'Hard' },
     ];
 
+    const quizModeOptions: SelectOption[] = [
+        { value: 'fixed', label: 'Fixed', description: 'A set number of questions at one difficulty' },
+        { value: 'adaptive', label: 'Adaptive', description: 'Difficulty follows your answers until your level is clear' },
+    ];
+
     return (
         <div className="modal-overlay">
             <div className="modal-container">
@@ -376,25 +929,404 @@ const QuizModal = ({
                             </div>
                         </div>
                         
+                        <CustomSelect
+                            id="quiz-mode"
+                            label="Mode"
+                            options={quizModeOptions}
+                            value={adaptive ? 'adaptive' : 'fixed'}
+                            onChange={(value) => setAdaptive(value === 'adaptive')}
+                        />
+
                         <CustomSelect
                             id="difficulty-level"
-                            label="Difficulty"
+                            label={adaptive ? 'Starting Difficulty' : 'Difficulty'}
                             options={quizDifficultyOptions}
                             value={difficulty}
                             onChange={(value) => setDifficulty(value as string)}
                         />
 
+                        {adaptive ? (
+                            <p className="quiz-type-note">
+                                Questions come {ADAPTIVE_BATCH_SIZE} at a time. The quiz stops once your level is clear, after {ADAPTIVE_MIN_QUESTIONS} to {ADAPTIVE_MAX_QUESTIONS} questions.
+                            </p>
+                        ) : (
+                            <CustomSelect
+                                id="num-questions"
+                                label="Number of Questions"
+                                options={quizNumOptions}
+                                value={numQuestions}
+                                onChange={(value) => setNumQuestions(value as number)}
+                            />
+                        )}
+
+                        <div className="modal-form-group">
+                            <label id="quiz-types-label">Question Types</label>
+                            <div className="quiz-type-chips" role="group" aria-labelledby="quiz-types-label">
+                                {QUIZ_QUESTION_TYPES.map(type => (
+                                    <button
+                                        key={type}
+                                        type="button"
+                                        className={`quiz-type-chip ${types.includes(type) ? 'active' : ''}`}
+                                        aria-pressed={types.includes(type)}
+                                        onClick={() => toggleType(type)}
+                                    >
+                                        {QUIZ_TYPE_LABELS[type]}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div className="modal-buttons">
+                            <button type="button" className="modal-btn cancel" onClick={onCancel}>Cancel</button>
+                            <button type="submit" className="modal-btn submit" disabled={!topic.trim()}>Start Quiz</button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const SolveWithMeModal = ({ onStart, onCancel }: {
+    onStart: (problem: string) => void;
+    onCancel: () => void;
+}) => {
+    const [problem, setProblem] = useState('');
+
+    return (
+        <div className="modal-overlay">
+            <div className="modal-container">
+                <div className="modal-content quiz-setup-modal">
+                    <div className="modal-header">
+                        <BHSLogo className="modal-header-icon" />
+                        <h3>Solve <span className="gemini-gradient-text">With Me</span></h3>
+                    </div>
+                    <p className="modal-subtitle">Get a plan for the problem, then ask for hints one at a time: a nudge, the method, partial working and finally the full solution.</p>
+                    <form onSubmit={(e) => { e.preventDefault(); if (problem.trim()) onStart(problem.trim()); }}>
+                        <div className="modal-form-group">
+                            <label htmlFor="solve-problem">Problem</label>
+                            <div className="modal-input-wrapper">
+                                <textarea
+                                    id="solve-problem"
+                                    className="modal-input modal-textarea"
+                                    value={problem}
+                                    onChange={(e) => setProblem(e.target.value)}
+                                    placeholder="e.g., Find the roots of 2x² - 7x + 3 = 0."
+                                    rows={3}
+                                    autoFocus
+                                />
+                            </div>
+                        </div>
+                        <div className="modal-buttons">
+                            <button type="button" className="modal-btn cancel" onClick={onCancel}>Cancel</button>
+                            <button type="submit" className="modal-btn submit" disabled={!problem.trim()}>Start</button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+type MockTestSetup = { pattern: ExamPatternId; topic: string; questionsPerSection: number; difficulty: string };
+
+const MockTestModal = ({ classNum, onStart, onCancel }: {
+    classNum: number;
+    onStart: (setup: MockTestSetup) => void;
+    onCancel: () => void;
+}) => {
+    const patternIds = patternsForClass(classNum);
+    const [patternId, setPatternId] = useState<ExamPatternId>(patternIds[0]);
+    const [topic, setTopic] = useState('');
+    const [questionsPerSection, setQuestionsPerSection] = useState(5);
+    const [difficulty, setDifficulty] = useState('Medium');
+
+    const pattern = EXAM_PATTERNS[patternId];
+    // Board tests have no subjects of their own, so they need the student's topic.
+    const needsTopic = pattern.sections.some(section => !section.subject);
+    const questionCount = pattern.sections.length * questionsPerSection;
+    const minutes = testDurationSeconds(pattern, questionCount) / 60;
+    const markedTypes = (Object.keys(pattern.marking) as QuizQuestionType[]);
+
+    return (
+        <div className="modal-overlay">
+            <div className="modal-container">
+                <div className="modal-content quiz-setup-modal">
+                    <div className="modal-header">
+                        <BHSLogo className="modal-header-icon" />
+                        <h3>Mock <span className="gemini-gradient-text">Test</span></h3>
+                    </div>
+                    <p className="modal-subtitle">A timed test in exam format. Nothing is marked until you submit.</p>
+                    <form onSubmit={(e) => {
+                        e.preventDefault();
+                        if (!needsTopic || topic.trim()) onStart({ pattern: patternId, topic: topic.trim(), questionsPerSection, difficulty });
+                    }}>
+                        {patternIds.length > 1 && (
+                            <CustomSelect
+                                id="mock-test-pattern"
+                                label="Exam"
+                                options={patternIds.map(id => ({ value: id, label: EXAM_PATTERNS[id].label }))}
+                                value={patternId}
+                                onChange={(value) => setPatternId(value as ExamPatternId)}
+                            />
+                        )}
+                        <div className="modal-form-group">
+                            <label htmlFor="mock-test-topic">{needsTopic ? 'Subject and chapters' : 'Focus (optional)'}</label>
+                            <div className="modal-input-wrapper">
+                                <Icon path="M9.5 3A6.5 6.5 0 0116 9.5c0 1.61-.59 3.09-1.56 4.23l.27.27h.79l5 5-1.5 1.5-5-5v-.79l-.27-.27A6.516 6.516 0 019.5 16a6.5 6.5 0 110-13m0 2C7 5 5 7 5 9.5S7 14 9.5 14 14 12 14 9.5 12 5 9.5 5z" size={20} />
+                                <input
+                                    id="mock-test-topic"
+                                    type="text"
+                                    className="modal-input"
+                                    value={topic}
+                                    onChange={(e) => setTopic(e.target.value)}
+                                    placeholder={needsTopic ? 'e.g., Science: Light and Electricity' : 'e.g., Mechanics, Organic Chemistry'}
+                                    autoFocus
+                                />
+                            </div>
+                        </div>
+                        <CustomSelect
+                            id="mock-test-difficulty"
+                            label="Difficulty"
+                            options={[{ value: 'Easy', label: 'Easy' }, { value: 'Medium', label: 'Medium' }, { value: 'Hard', label: 'Hard' }]}
+                            value={difficulty}
+                            onChange={(value) => setDifficulty(value as string)}
+                        />
+                        <CustomSelect
+                            id="mock-test-length"
+                            label="Questions per Section"
+                            options={[5, 10, 15, 20].map(n => ({ value: n, label: `${n} Questions` }))}
+                            value={questionsPerSection}
+                            onChange={(value) => setQuestionsPerSection(value as number)}
+                        />
+                        <div className="mock-test-summary">
+                            <div><strong>Sections:</strong> {pattern.sections.map(section => section.name).join(', ')}</div>
+                            <div><strong>Length:</strong> {questionCount} questions in {minutes} minutes</div>
+                            <div><strong>Marking:</strong> {markedTypes.map(type => `${QUIZ_TYPE_LABELS[type]} ${describeScheme(pattern.marking[type]!)}`).join('; ')}</div>
+                        </div>
+                        <div className="modal-buttons">
+                            <button type="button" className="modal-btn cancel" onClick={onCancel}>Cancel</button>
+                            <button type="submit" className="modal-btn submit" disabled={needsTopic && !topic.trim()}>Start Test</button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+type CheckWorkRequest = { problem: string; maxMarks?: number; file: File; mimeType: string };
+
+const CheckWorkModal = ({ onSubmit, onCancel }: {
+    onSubmit: (request: CheckWorkRequest) => void;
+    onCancel: () => void;
+}) => {
+    const [problem, setProblem] = useState('');
+    const [maxMarks, setMaxMarks] = useState<number | 'auto'>('auto');
+    const [photo, setPhoto] = useState<{ file: File; mimeType: string; preview: string } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const photoInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => () => { if (photo) URL.revokeObjectURL(photo.preview); }, [photo]);
+
+    const marksOptions: SelectOption[] = [
+        { value: 'auto', label: 'Let the tutor decide', description: 'Marked as a board exam would' },
+        ...[1, 2, 3, 4, 5, 6, 8, 10].map(marks => ({ value: marks, label: formatMarks(marks) })),
+    ];
+
+    const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        const mimeType = attachmentMimeType(file);
+        const reason = checkAttachment({ name: file.name, mimeType, size: file.size })
+            ?? (mimeType && attachmentKind(mimeType) !== 'image' ? 'Choose a photo of your working.' : undefined);
+        if (reason || !mimeType) {
+            setError(reason ?? null);
+            return;
+        }
+        setError(null);
+        setPhoto({ file, mimeType, preview: URL.createObjectURL(file) });
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!problem.trim() || !photo) return;
+        onSubmit({ problem: problem.trim(), maxMarks: maxMarks === 'auto' ? undefined : maxMarks, file: photo.file, mimeType: photo.mimeType });
+    };
+
+    return (
+        <div className="modal-overlay">
+            <div className="modal-container">
+                <div className="modal-content quiz-setup-modal">
+                    <div className="modal-header">
+                        <BHSLogo className="modal-header-icon" />
+                        <h3>Check <span className="gemini-gradient-text">My Work</span></h3>
+                    </div>
+                    <p className="modal-subtitle">Upload a photo of your working. Each step is marked, and you get hints rather than the answer.</p>
+                    <form onSubmit={handleSubmit}>
+                        <div className="modal-form-group">
+                            <label htmlFor="check-problem">Problem</label>
+                            <div className="modal-input-wrapper">
+                                <textarea
+                                    id="check-problem"
+                                    className="modal-input modal-textarea"
+                                    value={problem}
+                                    onChange={(e) => setProblem(e.target.value)}
+                                    placeholder="e.g., A stone is dropped from a height of 20 m. Find its speed when it hits the ground."
+                                    rows={3}
+                                    autoFocus
+                                />
+                            </div>
+                        </div>
+
                         <CustomSelect
-                            id="num-questions"
-                            label="Number of Questions"
-                            options={quizNumOptions}
-                            value={numQuestions}
-                            onChange={(value) => setNumQuestions(value as number)}
+                            id="check-marks"
+                            label="Marks"
+                            options={marksOptions}
+                            value={maxMarks}
+                            onChange={(value) => setMaxMarks(value as number | 'auto')}
                         />
 
+                        <div className="modal-form-group">
+                            <label htmlFor="check-photo">Your working</label>
+                            <input id="check-photo" type="file" ref={photoInputRef} onChange={handlePhotoChange} accept="image/png,image/jpeg,image/webp,image/heic,image/heif" capture="environment" style={{ display: 'none' }} />
+                            <div className="check-photo-row">
+                                {photo && (
+                                    <div className="attachment-chip">
+                                        <img src={photo.preview} alt="" className="attachment-thumbnail" />
+                                        <span className="attachment-name">{photo.file.name}</span>
+                                        <span className="attachment-size">{formatBytes(photo.file.size)}</span>
+                                    </div>
+                                )}
+                                <button type="button" className="modal-btn cancel" onClick={() => photoInputRef.current?.click()}>{photo ? 'Change Photo' : 'Choose Photo'}</button>
+                            </div>
+                            {error && <div className="attachment-error" role="alert">{error}</div>}
+                        </div>
+
                         <div className="modal-buttons">
                             <button type="button" className="modal-btn cancel" onClick={onCancel}>Cancel</button>
-                            <button type="submit" className="modal-btn submit" disabled={!topic.trim()}>Start Quiz</button>
+                            <button type="submit" className="modal-btn submit" disabled={!problem.trim() || !photo}>Check My Work</button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const BackupModal = ({ classNum, activeChatId, onImported, onClose }: {
+    classNum: number;
+    activeChatId: string | null;
+    onImported: () => void;
+    onClose: () => void;
+}) => {
+    const [scope, setScope] = useState<'chat' | 'class' | 'all'>(activeChatId ? 'chat' : 'class');
+    const [format, setFormat] = useState<ExportFormat>('json');
+    const [importMode, setImportMode] = useState<ImportMode>('merge');
+    const [status, setStatus] = useState<{ text: string; isError: boolean } | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const scopeOptions: SelectOption[] = [
+        ...(activeChatId ? [{ value: 'chat', label: 'This chat' }] : []),
+        { value: 'class', label: `All ${classLabel(classNum)} chats` },
+        { value: 'all', label: 'All chats' },
+    ];
+
+    const formatOptions: SelectOption[] = [
+        { value: 'json', label: 'JSON backup', description: 'Includes attached files; can be imported again' },
+        { value: 'markdown', label: 'Markdown', description: 'Plain text for notes' },
+        { value: 'html', label: 'Printable HTML', description: 'Rendered answers with sources' },
+    ];
+
+    const importModeOptions: SelectOption[] = [
+        { value: 'merge', label: 'Merge', description: 'Keep existing chats; clashing chats are added as copies' },
+        { value: 'replace', label: 'Replace', description: 'Overwrite existing chats that have the same id' },
+    ];
+
+    const handleExport = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsBusy(true);
+        setStatus(null);
+        try {
+            const exportScope: ExportScope = scope === 'chat' && activeChatId
+                ? { kind: 'chat', chatId: activeChatId }
+                : scope === 'class' ? { kind: 'class', classNum } : { kind: 'all' };
+            const { blob, filename } = await exportChats(exportScope, format);
+            downloadBlob(blob, filename);
+        } catch (error) {
+            console.error('Export failed:', error);
+            setStatus({ text: 'Export failed. Please try again.', isError: true });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setIsBusy(true);
+        setStatus(null);
+        try {
+            const imported = parseBackup(await file.text());
+            const { added, replaced, copied } = await importChats(imported, importMode);
+            const parts = [`${added} added`, replaced > 0 && `${replaced} replaced`, copied > 0 && `${copied} copied`].filter(Boolean);
+            setStatus({ text: `Imported ${imported.length} chat${imported.length === 1 ? '' : 's'}: ${parts.join(', ')}.`, isError: false });
+            onImported();
+        } catch (error) {
+            console.error('Import failed:', error);
+            setStatus({ text: error instanceof Error ? error.message : 'Import failed.', isError: true });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    return (
+        <div className="modal-overlay">
+            <div className="modal-container">
+                <div className="modal-content quiz-setup-modal">
+                    <div className="modal-header">
+                        <BHSLogo className="modal-header-icon" />
+                        <h3>Export <span className="gemini-gradient-text">&amp; Import</span></h3>
+                    </div>
+                    <p className="modal-subtitle">Save your chats to a file, or restore them from a JSON backup.</p>
+                    <form onSubmit={handleExport}>
+                        <CustomSelect
+                            id="export-scope"
+                            label="Chats to export"
+                            options={scopeOptions}
+                            value={scope}
+                            onChange={(value) => setScope(value as 'chat' | 'class' | 'all')}
+                        />
+
+                        <CustomSelect
+                            id="export-format"
+                            label="Format"
+                            options={formatOptions}
+                            value={format}
+                            onChange={(value) => setFormat(value as ExportFormat)}
+                        />
+
+                        <hr className="modal-divider" />
+
+                        <CustomSelect
+                            id="import-mode"
+                            label="When importing a chat that already exists"
+                            options={importModeOptions}
+                            value={importMode}
+                            onChange={(value) => setImportMode(value as ImportMode)}
+                        />
+
+                        {status && <p className={`backup-status ${status.isError ? 'error' : ''}`} role="status">{status.text}</p>}
+
+                        <input type="file" ref={importInputRef} onChange={handleImportFile} accept="application/json,.json" style={{ display: 'none' }} />
+
+                        <div className="modal-buttons">
+                            <button type="button" className="modal-btn cancel" onClick={onClose}>Close</button>
+                            <button type="button" className="modal-btn cancel" onClick={() => importInputRef.current?.click()} disabled={isBusy}>Import Backup</button>
+                            <button type="submit" className="modal-btn submit" disabled={isBusy}>Export</button>
                         </div>
                     </form>
                 </div>
@@ -403,44 +1335,168 @@ const QuizModal = ({
     );
 };
 
+// The choices a question is answered from by clicking, with the indices that are correct.
+// Numerical and match questions are answered another way and have none.
+const quizChoices = (question: QuizQuestion): { choices: string[]; correct: number[] } | null => {
+    switch (question.type) {
+        case 'single': return { choices: question.options, correct: [question.correctAnswerIndex] };
+        case 'multiple': return { choices: question.options, correct: question.correctAnswerIndices };
+        case 'assertion-reason': return { choices: ASSERTION_REASON_OPTIONS, correct: [question.correctAnswerIndex] };
+        case 'true-false': return { choices: ['True', 'False'], correct: [question.correctAnswer ? 0 : 1] };
+        default: return null;
+    }
+};
+
+// The answer area of one question. With reveal set it shows the marking and can no longer be changed.
+// A partly matched match question is passed on with -1 for the unmatched items.
+const QuizAnswerInput = ({ question, answer, onChange, reveal = false }: {
+    question: QuizQuestion;
+    answer: QuizAnswer | null;
+    onChange: (answer: QuizAnswer | null) => void;
+    reveal?: boolean;
+}) => {
+    // What was typed for a numerical answer, which need not be a number yet (e.g. "-" or "2.").
+    const [text, setText] = useState(() => typeof answer === 'number' ? String(answer) : '');
+    const choiceSet = quizChoices(question);
+
+    if (choiceSet) {
+        const chosen = answer === null ? [] : Array.isArray(answer) ? answer : [typeof answer === 'boolean' ? (answer ? 0 : 1) : answer];
+        const handleClick = (index: number) => {
+            if (question.type === 'multiple') {
+                const next = chosen.includes(index) ? chosen.filter(i => i !== index) : [...chosen, index].sort((a, b) => a - b);
+                onChange(next.length > 0 ? next : null);
+            } else {
+                onChange(question.type === 'true-false' ? index === 0 : index);
+            }
+        };
+        return (
+            <div className={`quiz-options ${question.type === 'assertion-reason' ? 'single-column' : ''}`}>
+                {choiceSet.choices.map((option, index) => {
+                    let buttonClass = 'quiz-option-btn';
+                    if (reveal) {
+                        if (choiceSet.correct.includes(index)) {
+                            buttonClass += ' correct';
+                        } else if (chosen.includes(index)) {
+                            buttonClass += ' incorrect';
+                        }
+                    } else if (chosen.includes(index)) {
+                        buttonClass += ' selected';
+                    }
+                    return (
+                        <button key={index} type="button" className={buttonClass} onClick={() => handleClick(index)} disabled={reveal} aria-pressed={chosen.includes(index)}>
+                            {/* Options can contain maths, so they get inline markdown rendering too. */}
+                            <span dangerouslySetInnerHTML={{ __html: renderInlineMarkdown(option) }} />
+                        </button>
+                    );
+                })}
+            </div>
+        );
+    }
+
+    if (question.type === 'numerical') {
+        return (
+            <div className="quiz-numeric-answer">
+                <input
+                    type="number"
+                    step="any"
+                    className="modal-input"
+                    value={reveal ? (answer === null ? '' : String(answer)) : text}
+                    onChange={(e) => {
+                        setText(e.target.value);
+                        const value = e.target.value.trim() === '' ? NaN : Number(e.target.value);
+                        onChange(Number.isFinite(value) ? value : null);
+                    }}
+                    placeholder={reveal ? 'Not answered' : 'Your answer'}
+                    aria-label="Your answer"
+                    disabled={reveal}
+                />
+                {question.unit && <span className="quiz-unit">{question.unit}</span>}
+            </div>
+        );
+    }
+
+    if (question.type === 'match') {
+        const matches = Array.isArray(answer) ? answer : question.left.map(() => -1);
+        return (
+            <div className="quiz-match-rows">
+                {question.left.map((item, i) => {
+                    const letter = String.fromCharCode(65 + i);
+                    const isRight = matches[i] === question.correctMatches[i];
+                    return (
+                        <div key={i} className={`quiz-match-row ${reveal ? (isRight ? 'correct' : 'incorrect') : ''}`}>
+                            <span className="quiz-match-left" dangerouslySetInnerHTML={{ __html: renderInlineMarkdown(`${letter}. ${item}`) }} />
+                            <select
+                                className="quiz-match-select"
+                                value={matches[i]}
+                                onChange={(e) => onChange(matches.map((current, j) => j === i ? Number(e.target.value) : current))}
+                                disabled={reveal}
+                                aria-label={`Match for ${letter}`}
+                            >
+                                <option value={-1}>Choose…</option>
+                                {question.right.map((_, j) => <option key={j} value={j}>{j + 1}</option>)}
+                            </select>
+                            {reveal && !isRight && <span className="quiz-match-fix">Correct: {question.correctMatches[i] + 1}</span>}
+                        </div>
+                    );
+                })}
+            </div>
+        );
+    }
+
+    return null;
+};
+
 const QuizView = ({ question, onAnswerSelect, selectedAnswer, onNextQuestion, isLastQuestion }: { 
     question: QuizQuestion; 
-    onAnswerSelect: (index: number) => void; 
-    selectedAnswer: number | null;
+    onAnswerSelect: (answer: QuizAnswer) => void; 
+    selectedAnswer: QuizAnswer | null;
     onNextQuestion: () => void;
     isLastQuestion: boolean;
 }) => {
     const hasAnswered = selectedAnswer !== null;
+    // Multiple-correct, numerical and match answers take more than one action, so they are
+    // drafted and submitted with "Check Answer". The view is keyed by question, which resets the draft.
+    const [draft, setDraft] = useState<QuizAnswer | null>(null);
+    const answersOnClick = quizChoices(question) !== null && question.type !== 'multiple';
+
+    const handleChange = (answer: QuizAnswer | null) => {
+        if (answersOnClick && answer !== null) onAnswerSelect(answer);
+        else setDraft(answer);
+    };
+    const handleCheck = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!hasAnswered && isAnswered(question, draft)) onAnswerSelect(draft);
+    };
+
     return (
         <div className="quiz-view">
             <div className="chat-message role-model" style={{ maxWidth: '100%' }}>
                 <div className="message-avatar"><BHSLogo /></div>
                 <div className="message-content-wrapper">
                     <div className="message-content">
-                        <div dangerouslySetInnerHTML={{ __html: marked.parse(question.question) as string }} />
+                        {question.type === 'multiple' && <div className="quiz-type-note">One or more options are correct.</div>}
+                        <div dangerouslySetInnerHTML={{ __html: renderMarkdown(questionToMarkdown(question)) }} />
                     </div>
                 </div>
             </div>
-            <div className="quiz-options">
-                {question.options.map((option, index) => {
-                    let buttonClass = 'quiz-option-btn';
-                    if (hasAnswered) {
-                        if (index === question.correctAnswerIndex) {
-                            buttonClass += ' correct';
-                        } else if (index === selectedAnswer) {
-                            buttonClass += ' incorrect';
-                        }
-                    }
-                    return (
-                        <button key={index} className={buttonClass} onClick={() => onAnswerSelect(index)} disabled={hasAnswered}>
-                            {option}
+            <form onSubmit={handleCheck}>
+                <QuizAnswerInput question={question} answer={hasAnswered ? selectedAnswer : draft} onChange={handleChange} reveal={hasAnswered} />
+                {!hasAnswered && !answersOnClick && (
+                    <div className="quiz-navigation">
+                        <button type="submit" className="quiz-next-btn" disabled={!isAnswered(question, draft)}>
+                            <span>Check Answer</span>
                         </button>
-                    );
-                })}
-            </div>
+                    </div>
+                )}
+            </form>
             {hasAnswered && (
                 <div className="quiz-feedback-section">
-                    <div className="quiz-explanation" dangerouslySetInnerHTML={{ __html: marked.parse(`**Explanation:** ${question.explanation}`) as string }} />
+                    {question.type === 'numerical' && (
+                        <p className={`quiz-verdict ${isAnswerCorrect(question, selectedAnswer) ? 'correct-text' : 'incorrect-text'}`}>
+                            {isAnswerCorrect(question, selectedAnswer) ? 'Correct!' : <>Correct answer: <span dangerouslySetInnerHTML={{ __html: renderInlineMarkdown(formatCorrectAnswer(question)) }} /></>}
+                        </p>
+                    )}
+                    <div className="quiz-explanation" dangerouslySetInnerHTML={{ __html: renderMarkdown(`**Explanation:** ${question.explanation}`) }} />
                     <div className="quiz-navigation">
                         <button onClick={onNextQuestion} className="quiz-next-btn">
                             <span>{isLastQuestion ? 'See Results' : 'Next Question'}</span>
@@ -453,22 +1509,58 @@ const QuizView = ({ question, onAnswerSelect, selectedAnswer, onNextQuestion, is
     );
 };
 
-const QuizProgressBar = ({ current, total }: { current: number; total: number }) => (
+// level is set during an adaptive quiz, whose length is not known in advance.
+const QuizProgressBar = ({ current, total, level }: { current: number; total: number; level?: number }) => (
     <div className="quiz-progress-bar">
-        <div className="progress-text">Question {current} of {total}</div>
+        <div className="progress-text">
+            {level === undefined ? `Question ${current} of ${total}` : `Question ${current} of at most ${total} · ${ADAPTIVE_LEVELS[level]}`}
+        </div>
         <div className="progress-track">
             <div className="progress-fill" style={{ width: `${(current / total) * 100}%` }}></div>
         </div>
     </div>
 );
 
-const QuizResults = ({ score, total, onTryAgain, onFinish, questions, userAnswers }: { 
+// The estimated level of an adaptive quiz, overall and for each subtopic, weakest first.
+const LevelReport = ({ responses }: { responses: AdaptiveResponse[] }) => {
+    const overall = useMemo(() => estimateLevel(responses), [responses]);
+    const subtopics = useMemo(() => estimateBySubtopic(responses, overall), [responses, overall]);
+
+    return (
+        <div className="level-report">
+            <h3>Estimated Level: {levelLabel(overall)}</h3>
+            <p className="quiz-type-note">
+                The hardest level you would usually answer correctly, worked out from {responses.length} answers ({confidenceOf(overall)} confidence).
+            </p>
+            <table className="mock-section-table">
+                <thead>
+                    <tr><th>Subtopic</th><th>Correct</th><th>Estimated level</th><th>Confidence</th></tr>
+                </thead>
+                <tbody>
+                    {subtopics.map(estimate => (
+                        <tr key={estimate.subtopic}>
+                            <td>{estimate.subtopic}</td>
+                            <td>{estimate.correct} / {estimate.asked}</td>
+                            <td>{levelLabel(estimate)}</td>
+                            <td>{confidenceOf(estimate)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+const QuizResults = ({ score, total, onTryAgain, onFinish, onRetakeWrong, questions, userAnswers, levelResponses }: { 
     score: number; 
     total: number; 
     onTryAgain: () => void; 
     onFinish: () => void;
+    onRetakeWrong?: () => void;
     questions: QuizQuestion[];
-    userAnswers: (number | null)[];
+    userAnswers: (QuizAnswer | null)[];
+    // Set for adaptive quizzes, whose report leads with the estimated levels.
+    levelResponses?: AdaptiveResponse[];
 }) => {
     const percentage = total > 0 ? (score / total) * 100 : 0;
     const incorrectCount = total - score;
@@ -485,9 +1577,9 @@ const QuizResults = ({ score, total, onTryAgain, onFinish, questions, userAnswer
 
     const incorrectAnswers = questions.map((q, i) => ({
         question: q,
-        userAnswerIndex: userAnswers[i],
+        userAnswer: userAnswers[i],
         index: i
-    })).filter(item => item.userAnswerIndex !== item.question.correctAnswerIndex);
+    })).filter(item => !isAnswerCorrect(item.question, item.userAnswer));
 
     return (
         <div className="quiz-results-view">
@@ -535,18 +1627,21 @@ const QuizResults = ({ score, total, onTryAgain, onFinish, questions, userAnswer
                 </div>
             </div>
             <p className="score-summary">{performanceMessage}</p>
+            {levelResponses && levelResponses.length > 0 && <LevelReport responses={levelResponses} />}
 
             {incorrectAnswers.length > 0 && (
                 <div className="performance-report">
                     <h3>Review Your Answers</h3>
                     {incorrectAnswers.map(item => (
                         <div key={item.index} className="report-item">
-                            <div className="report-question" dangerouslySetInnerHTML={{ __html: marked.parse(item.question.question) as string }} />
+                            <div className="report-question" dangerouslySetInnerHTML={{ __html: renderMarkdown(questionToMarkdown(item.question)) }} />
                             <p className="report-answer your-answer">
-                                <strong>Your Answer:</strong> {item.userAnswerIndex !== null ? item.question.options[item.userAnswerIndex] : 'Not answered'}
+                                <strong>Your Answer:</strong> {item.userAnswer !== null
+                                    ? <span dangerouslySetInnerHTML={{ __html: renderInlineMarkdown(formatAnswer(item.question, item.userAnswer)) }} />
+                                    : 'Not answered'}
                             </p>
                             <p className="report-answer correct-answer">
-                                <strong>Correct Answer:</strong> {item.question.options[item.question.correctAnswerIndex]}
+                                <strong>Correct Answer:</strong> <span dangerouslySetInnerHTML={{ __html: renderInlineMarkdown(formatCorrectAnswer(item.question)) }} />
                             </p>
                         </div>
                     ))}
@@ -555,12 +1650,380 @@ const QuizResults = ({ score, total, onTryAgain, onFinish, questions, userAnswer
 
             <div className="results-actions">
                 <button className="results-btn finish" onClick={onFinish}>Back to Chat</button>
+                {onRetakeWrong && incorrectCount > 0 && (
+                    <button className="results-btn finish" onClick={onRetakeWrong}>Retake Wrong Answers</button>
+                )}
                 <button className="results-btn try-again" onClick={onTryAgain}>Try Another Quiz</button>
             </div>
         </div>
     );
 };
 
+// A mock test before it is submitted; the submitted test adds the responses and timing.
+type MockTestPaper = Omit<MockTest, 'id' | 'responses' | 'startedAt' | 'submittedAt' | 'timedOut'>;
+
+type TestPosition = { section: number; question: number };
+
+// Warn with the timer once this little time is left.
+const LOW_TIME_SECONDS = 5 * 60;
+
+// A timed mock test. Answers can be changed freely and nothing is marked until the test is
+// submitted, by the student or by the countdown running out. Time is counted against whichever
+// question is on screen.
+const MockTestView = ({ paper, onSubmit, onExit }: {
+    paper: MockTestPaper;
+    onSubmit: (result: { responses: MockTestResponse[][]; startedAt: number; timedOut: boolean }) => void;
+    onExit: () => void;
+}) => {
+    const [startedAt] = useState(() => Date.now());
+    const [now, setNow] = useState(startedAt);
+    const [responses, setResponses] = useState<MockTestResponse[][]>(() => paper.sections.map((section, s) =>
+        section.questions.map((_, q) => ({ answer: null, visited: s === 0 && q === 0, markedForReview: false, timeSpentMs: 0 }))));
+    const [position, setPosition] = useState<TestPosition>({ section: 0, question: 0 });
+    // Bumped by "Clear Response" so the answer input drops any text it was holding.
+    const [clearCount, setClearCount] = useState(0);
+    const shownAtRef = useRef(startedAt);
+    const submittedRef = useRef(false);
+
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, []);
+
+    const remaining = paper.durationSeconds - (now - startedAt) / 1000;
+    const section = paper.sections[position.section];
+    const question = section.questions[position.question];
+    const response = responses[position.section][position.question];
+
+    // Time on the question on screen since it was shown or last counted.
+    const takeElapsed = () => {
+        const elapsed = Date.now() - shownAtRef.current;
+        shownAtRef.current = Date.now();
+        return elapsed;
+    };
+
+    // Adds elapsed to the question on screen, with any other change to its response, and marks
+    // the question being moved to as visited.
+    const withCurrentTime = (list: MockTestResponse[][], elapsed: number, change: Partial<MockTestResponse> = {}, visit?: TestPosition) =>
+        list.map((sectionResponses, s) => sectionResponses.map((item, q) => {
+            if (s === position.section && q === position.question) return { ...item, ...change, timeSpentMs: item.timeSpentMs + elapsed };
+            if (visit && s === visit.section && q === visit.question) return { ...item, visited: true };
+            return item;
+        }));
+
+    const submit = (timedOut: boolean) => {
+        if (submittedRef.current) return;
+        submittedRef.current = true;
+        onSubmit({ responses: withCurrentTime(responses, takeElapsed()), startedAt, timedOut });
+    };
+
+    useEffect(() => {
+        if (remaining <= 0) submit(true);
+    });
+
+    const goTo = (target: TestPosition, change: Partial<MockTestResponse> = {}) => {
+        const elapsed = takeElapsed();
+        setResponses(prev => withCurrentTime(prev, elapsed, change, target));
+        setPosition(target);
+    };
+
+    const next = (): TestPosition => {
+        if (position.question < section.questions.length - 1) return { section: position.section, question: position.question + 1 };
+        if (position.section < paper.sections.length - 1) return { section: position.section + 1, question: 0 };
+        return position;
+    };
+    const previous = (): TestPosition | null => {
+        if (position.question > 0) return { section: position.section, question: position.question - 1 };
+        if (position.section > 0) return { section: position.section - 1, question: paper.sections[position.section - 1].questions.length - 1 };
+        return null;
+    };
+
+    const setAnswer = (answer: QuizAnswer | null) => {
+        setResponses(prev => prev.map((sectionResponses, s) => s !== position.section ? sectionResponses
+            : sectionResponses.map((item, q) => q === position.question ? { ...item, answer } : item)));
+    };
+
+    const handleSubmitClick = () => {
+        const unanswered = paper.sections.reduce((count, sec, s) =>
+            count + sec.questions.filter((q, i) => !isAnswered(q, responses[s][i].answer)).length, 0);
+        const warning = unanswered > 0 ? ` ${unanswered} ${unanswered === 1 ? 'question is' : 'questions are'} unanswered.` : '';
+        if (window.confirm(`Submit the test? You cannot change your answers afterwards.${warning}`)) submit(false);
+    };
+
+    const handleExit = () => {
+        if (window.confirm('Leave the test without submitting? Your answers will not be saved.')) onExit();
+    };
+
+    const statuses = section.questions.map((q, i) => paletteStatus(q, responses[position.section][i]));
+    const scheme = schemeFor(paper.marking, question.type);
+    const isLast = position.section === paper.sections.length - 1 && position.question === section.questions.length - 1;
+    const prev = previous();
+
+    return (
+        <div className="mock-test">
+            <div className="quiz-header">
+                <h3>{paper.title}</h3>
+                <div className={`mock-test-timer ${remaining <= LOW_TIME_SECONDS ? 'low' : ''}`} role="timer" aria-label="Time left">
+                    {formatClock(remaining)}
+                </div>
+                <button className="modal-btn submit" onClick={handleSubmitClick}>Submit Test</button>
+                <button onClick={handleExit} className="quiz-close-btn" aria-label="Leave Test">
+                    <Icon path="M18 6L6 18M6 6l12 12" />
+                </button>
+            </div>
+            <div className="mock-test-sections" role="tablist">
+                {paper.sections.map((sec, s) => (
+                    <button
+                        key={s}
+                        role="tab"
+                        aria-selected={s === position.section}
+                        className={`mock-test-section-tab ${s === position.section ? 'active' : ''}`}
+                        onClick={() => goTo({ section: s, question: 0 })}
+                    >
+                        {sec.name}
+                    </button>
+                ))}
+            </div>
+            <div className="mock-test-body">
+                <div className="mock-test-question">
+                    <div className="mock-test-question-meta">
+                        <span>Question {position.question + 1} of {section.questions.length} · {QUIZ_TYPE_LABELS[question.type]}</span>
+                        <span>Marks: {describeScheme(scheme)}</span>
+                    </div>
+                    {question.type === 'multiple' && <div className="quiz-type-note">One or more options are correct.</div>}
+                    <div className="mock-test-question-text" dangerouslySetInnerHTML={{ __html: renderMarkdown(questionToMarkdown(question)) }} />
+                    <QuizAnswerInput
+                        key={`${position.section}-${position.question}-${clearCount}`}
+                        question={question}
+                        answer={response.answer}
+                        onChange={setAnswer}
+                    />
+                    <div className="mock-test-actions">
+                        <button className="modal-btn cancel" onClick={() => prev && goTo(prev)} disabled={!prev}>Previous</button>
+                        <button className="modal-btn cancel" onClick={() => { setAnswer(null); setClearCount(c => c + 1); }} disabled={response.answer === null}>Clear Response</button>
+                        <button className="modal-btn cancel" onClick={() => goTo(next(), { markedForReview: true })}>Mark for Review{isLast ? '' : ' & Next'}</button>
+                        <button className="modal-btn submit" onClick={() => goTo(next(), { markedForReview: false })}>Save{isLast ? '' : ' & Next'}</button>
+                    </div>
+                </div>
+                <aside className="mock-test-palette" aria-label="Question palette">
+                    <div className="palette-grid">
+                        {section.questions.map((_, i) => (
+                            <button
+                                key={i}
+                                className={`palette-btn palette-${statuses[i]} ${i === position.question ? 'current' : ''}`}
+                                onClick={() => goTo({ section: position.section, question: i })}
+                                aria-label={`Question ${i + 1}: ${PALETTE_STATUS_LABELS[statuses[i]]}`}
+                            >
+                                {i + 1}
+                            </button>
+                        ))}
+                    </div>
+                    <ul className="palette-legend">
+                        {(Object.keys(PALETTE_STATUS_LABELS) as PaletteStatus[]).map(status => (
+                            <li key={status}>
+                                <span className={`palette-swatch palette-${status}`}>{statuses.filter(s => s === status).length}</span>
+                                {PALETTE_STATUS_LABELS[status]}
+                            </li>
+                        ))}
+                    </ul>
+                </aside>
+            </div>
+        </div>
+    );
+};
+
+const OUTCOME_LABELS: Record<QuestionOutcome, string> = {
+    correct: 'Correct',
+    partial: 'Partly correct',
+    incorrect: 'Incorrect',
+    unanswered: 'Not answered',
+};
+
+const formatSignedMarks = (marks: number) => (marks > 0 ? `+${marks}` : String(marks));
+
+// The marked result of a submitted mock test, shown straight after submitting and whenever the
+// student reopens it from the chat.
+const MockTestReportView = ({ test, onClose }: { test: MockTest; onClose: () => void }) => {
+    const report = useMemo(() => scoreMockTest(test), [test]);
+    const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+    return (
+        <div className="mock-test-report">
+            <div className="quiz-header">
+                <h3>{test.title}{test.topic ? `: ${test.topic}` : ''}</h3>
+                <button onClick={onClose} className="quiz-close-btn" aria-label="Close Report">
+                    <Icon path="M18 6L6 18M6 6l12 12" />
+                </button>
+            </div>
+            <div className="quiz-content">
+                {test.timedOut && <p className="mock-test-note">Time ran out, so the test was submitted automatically.</p>}
+                <div className="score-summary-grid">
+                    <div className="summary-stat">
+                        <span className="stat-value">{report.score} / {report.maxScore}</span>
+                        <span className="stat-label">Score</span>
+                    </div>
+                    <div className="summary-stat">
+                        <span className="stat-value correct-text">{report.correct}{report.partial > 0 && ` + ${report.partial}`}</span>
+                        <span className="stat-label">{report.partial > 0 ? 'Correct + Partial' : 'Correct'}</span>
+                    </div>
+                    <div className="summary-stat">
+                        <span className="stat-value incorrect-text">{report.incorrect}</span>
+                        <span className="stat-label">Incorrect</span>
+                    </div>
+                    <div className="summary-stat">
+                        <span className="stat-value">{formatTimeSpent(test.submittedAt - test.startedAt)}</span>
+                        <span className="stat-label">Time Taken</span>
+                    </div>
+                </div>
+
+                <div className="mock-rate-bars">
+                    {[{ label: 'Attempt rate', value: report.attemptRate, detail: `${report.attempted} of ${report.total} attempted` },
+                      { label: 'Accuracy', value: report.accuracy, detail: `${report.correct} of ${report.attempted} attempted fully correct` }].map(bar => (
+                        <div key={bar.label} className="mock-rate-bar">
+                            <div className="mock-rate-label"><strong>{bar.label}</strong> <span>{percent(bar.value)} · {bar.detail}</span></div>
+                            <div className="progress-track"><div className="progress-fill" style={{ width: percent(bar.value) }}></div></div>
+                        </div>
+                    ))}
+                </div>
+
+                <table className="mock-section-table">
+                    <thead>
+                        <tr><th>Section</th><th>Score</th><th>Correct</th><th>Incorrect</th><th>Unanswered</th><th>Accuracy</th><th>Time</th></tr>
+                    </thead>
+                    <tbody>
+                        {report.sections.map(section => {
+                            const attempted = section.correct + section.partial + section.incorrect;
+                            return (
+                                <tr key={section.name}>
+                                    <td>{section.name}</td>
+                                    <td>{section.score} / {section.maxScore}</td>
+                                    <td>{section.correct}{section.partial > 0 && ` (+${section.partial} partial)`}</td>
+                                    <td>{section.incorrect}</td>
+                                    <td>{section.unanswered}</td>
+                                    <td>{attempted > 0 ? percent(section.correct / attempted) : '–'}</td>
+                                    <td>{formatTimeSpent(section.timeSpentMs)}</td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+
+                <div className="performance-report">
+                    <h3>Review Your Answers</h3>
+                    {test.sections.map((section, s) => (
+                        <details key={s} className="mock-review-section" open={s === 0}>
+                            <summary>{section.name}</summary>
+                            {section.questions.map((question, q) => {
+                                const { outcome, marks } = report.questions[s][q];
+                                return (
+                                    <div key={q} className={`report-item mock-review-item outcome-${outcome}`}>
+                                        <div className="mock-review-meta">
+                                            <span>Q{q + 1} · {OUTCOME_LABELS[outcome]}</span>
+                                            <span>{formatSignedMarks(marks)} · {formatTimeSpent(test.responses[s]?.[q]?.timeSpentMs ?? 0)}</span>
+                                        </div>
+                                        <div className="report-question" dangerouslySetInnerHTML={{ __html: renderMarkdown(questionToMarkdown(question)) }} />
+                                        <QuizAnswerInput question={question} answer={test.responses[s]?.[q]?.answer ?? null} onChange={() => {}} reveal />
+                                        <p className="report-answer correct-answer">
+                                            <strong>Correct Answer:</strong> <span dangerouslySetInnerHTML={{ __html: renderInlineMarkdown(formatCorrectAnswer(question)) }} />
+                                        </p>
+                                        <div className="quiz-explanation" dangerouslySetInnerHTML={{ __html: renderMarkdown(`**Explanation:** ${question.explanation}`) }} />
+                                    </div>
+                                );
+                            })}
+                        </details>
+                    ))}
+                </div>
+
+                <div className="results-actions">
+                    <button className="results-btn finish" onClick={onClose}>Back to Chat</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// A saved quiz attempt, reopened from the chat. Every question is shown with the answer given,
+// the time it took and the explanation, and the quiz can be taken again from here.
+const QuizAttemptReview = ({ attempt, onClose, onRetake }: {
+    attempt: QuizAttempt;
+    onClose: () => void;
+    onRetake: (wrongOnly: boolean) => void;
+}) => {
+    const score = scoreQuizAttempt(attempt);
+    const answered = attempt.answers.filter(answer => answer !== null).length;
+    const levelResponses = useMemo(() => attempt.levels ? adaptiveResponses(attempt) : [], [attempt]);
+    const wrongCount = attempt.questions.length - score;
+    const totalTime = attempt.timeSpentMs.reduce((sum, ms) => sum + (ms ?? 0), 0);
+
+    return (
+        <div className="mock-test-report">
+            <div className="quiz-header">
+                <h3>{attempt.topic}</h3>
+                <button onClick={onClose} className="quiz-close-btn" aria-label="Close Review">
+                    <Icon path="M18 6L6 18M6 6l12 12" />
+                </button>
+            </div>
+            <div className="quiz-content">
+                <div className="mock-test-summary">
+                    <span>{attempt.difficulty} · {new Date(attempt.startedAt).toLocaleString()}</span>
+                    {attempt.retakeOf && <span>{attempt.retakeOf.wrongOnly ? 'Retake of the questions answered wrongly' : 'Retake of an earlier quiz'}</span>}
+                </div>
+                {attempt.finishedAt === undefined && <p className="mock-test-note">This quiz was closed before the last question.</p>}
+                <div className="score-summary-grid">
+                    <div className="summary-stat">
+                        <span className="stat-value">{score} / {attempt.questions.length}</span>
+                        <span className="stat-label">Score</span>
+                    </div>
+                    <div className="summary-stat">
+                        <span className="stat-value">{answered}</span>
+                        <span className="stat-label">Answered</span>
+                    </div>
+                    <div className="summary-stat">
+                        <span className="stat-value incorrect-text">{answered - score}</span>
+                        <span className="stat-label">Incorrect</span>
+                    </div>
+                    <div className="summary-stat">
+                        <span className="stat-value">{formatTimeSpent(totalTime)}</span>
+                        <span className="stat-label">Time Taken</span>
+                    </div>
+                </div>
+
+                {levelResponses.length > 0 && <LevelReport responses={levelResponses} />}
+
+                <div className="performance-report">
+                    <h3>Review Your Answers</h3>
+                    {attempt.questions.map((question, i) => {
+                        const answer = attempt.answers[i];
+                        const outcome: QuestionOutcome = answer === null ? 'unanswered' : isAnswerCorrect(question, answer) ? 'correct' : 'incorrect';
+                        return (
+                            <div key={i} className={`report-item mock-review-item outcome-${outcome}`}>
+                                <div className="mock-review-meta">
+                                    <span>Q{i + 1} · {OUTCOME_LABELS[outcome]}{attempt.levels && ` · ${ADAPTIVE_LEVELS[attempt.levels[i]]}`}</span>
+                                    {answer !== null && <span>{formatTimeSpent(attempt.timeSpentMs[i] ?? 0)}</span>}
+                                </div>
+                                <div className="report-question" dangerouslySetInnerHTML={{ __html: renderMarkdown(questionToMarkdown(question)) }} />
+                                <QuizAnswerInput question={question} answer={answer} onChange={() => {}} reveal />
+                                <p className="report-answer correct-answer">
+                                    <strong>Correct Answer:</strong> <span dangerouslySetInnerHTML={{ __html: renderInlineMarkdown(formatCorrectAnswer(question)) }} />
+                                </p>
+                                <div className="quiz-explanation" dangerouslySetInnerHTML={{ __html: renderMarkdown(`**Explanation:** ${question.explanation}`) }} />
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <div className="results-actions">
+                    <button className="results-btn finish" onClick={onClose}>Back to Chat</button>
+                    {wrongCount > 0 && wrongCount < attempt.questions.length && (
+                        <button className="results-btn finish" onClick={() => onRetake(true)}>Retake Wrong Answers</button>
+                    )}
+                    <button className="results-btn try-again" onClick={() => onRetake(false)}>Retake Quiz</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
 const DesktopOnlyView = () => (
     <div className="desktop-only-container">
         <BHSLogo size={80} />
@@ -583,15 +2046,28 @@ const App = () => {
     const [dbReady, setDbReady] = useState(false);
     const [chatsForClass, setChatsForClass] = useState<StoredChat[]>([]);
     const [activeChatId, setActiveChatId] = useState<string | null>(null);
+    // Messages are loaded lazily, per chat, the first time a chat is opened.
+    const [messagesByChat, setMessagesByChat] = useState<Record<string, StoredMessage[]>>({});
 
     const [input, setInput] = useState('');
-    const [image, setImage] = useState<{ file: File, preview: string } | null>(null);
+    // Files picked for the next question. Images get a preview URL for their chip.
+    const [pendingFiles, setPendingFiles] = useState<{ file: File; mimeType: string; preview?: string }[]>([]);
+    const [attachmentError, setAttachmentError] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [generatingTitleChatId, setGeneratingTitleChatId] = useState<string | null>(null);
     const [isSidebarOpen, setSidebarOpen] = useState(false);
     const [isGoogleSearchEnabled, setGoogleSearchEnabled] = useState(true);
     const [isRecording, setIsRecording] = useState(false);
     const [showScrollTop, setShowScrollTop] = useState(false);
+    const [showBackupModal, setShowBackupModal] = useState(false);
+    const [showCheckWorkModal, setShowCheckWorkModal] = useState(false);
+    const [showSolveModal, setShowSolveModal] = useState(false);
+
+    // Search State
+    const [searchQuery, setSearchQuery] = useState('');
+    const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+    const [isSearching, setIsSearching] = useState(false);
+    const [pendingJump, setPendingJump] = useState<{ chatId: string; messageId: string } | null>(null);
     
     // Quiz State
     const [showQuizModal, setShowQuizModal] = useState(false);
@@ -599,13 +2075,31 @@ const App = () => {
     const [quizTopicForDisplay, setQuizTopicForDisplay] = useState('');
     const [quizNumQuestions, setQuizNumQuestions] = useState(5);
     const [quizDifficulty, setQuizDifficulty] = useState('Medium');
+    const [quizTypes, setQuizTypes] = useState<QuizQuestionType[]>(['single']);
+    const [quizAdaptive, setQuizAdaptive] = useState(false);
     const [quizQuestions, setQuizQuestions] = useState<QuizQuestion[]>([]);
     const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-    const [userAnswers, setUserAnswers] = useState<(number | null)[]>([]);
-    const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
+    const [userAnswers, setUserAnswers] = useState<(QuizAnswer | null)[]>([]);
+    const [selectedAnswer, setSelectedAnswer] = useState<QuizAnswer | null>(null);
     const [isQuizModeActive, setIsQuizModeActive] = useState(false);
     const [quizStage, setQuizStage] = useState<'question' | 'results'>('question');
     const [quizScore, setQuizScore] = useState(0);
+    // The saved attempt the open quiz records its answers to; null when saving it failed.
+    const [quizAttemptId, setQuizAttemptId] = useState<string | null>(null);
+    // The difficulty the open quiz was saved with, for retaking it from the results screen.
+    const [quizAttemptDifficulty, setQuizAttemptDifficulty] = useState('');
+    const quizQuestionShownAt = useRef(0);
+    // Level of each question of the adaptive quiz under way; null for a fixed quiz.
+    const [quizLevels, setQuizLevels] = useState<number[] | null>(null);
+    const [isQuizBatchLoading, setIsQuizBatchLoading] = useState(false);
+    // Changes whenever a quiz is opened or closed, so a batch that arrives late is dropped.
+    const quizRunRef = useRef(0);
+    const [reviewedQuizAttempt, setReviewedQuizAttempt] = useState<QuizAttempt | null>(null);
+
+    // Mock Test State
+    const [showMockTestModal, setShowMockTestModal] = useState(false);
+    const [mockTestPaper, setMockTestPaper] = useState<MockTestPaper | null>(null);
+    const [reviewedMockTest, setReviewedMockTest] = useState<MockTest | null>(null);
 
     const chatEndRef = useRef<HTMLDivElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
@@ -614,7 +2108,9 @@ const App = () => {
     const abortControllerRef = useRef<AbortController | null>(null);
 
     const currentChat = useMemo(() => chatsForClass.find(c => c.id === activeChatId), [chatsForClass, activeChatId]);
-    const currentMessages = currentChat?.messages || [];
+    // Every message of the active chat, all branches included, and the branch on screen.
+    const chatTree = useMemo(() => (activeChatId && messagesByChat[activeChatId]) || [], [messagesByChat, activeChatId]);
+    const currentMessages = useMemo(() => getActivePath(chatTree, currentChat?.activeLeafId), [chatTree, currentChat?.activeLeafId]);
 
     // Sort chats for display: pinned first, then by creation date
     const sortedChatsForClass = useMemo(() => {
@@ -640,39 +2136,10 @@ const App = () => {
     
     const randomizedSuggestions = useMemo(() => {
         if (!selectedClass) return [];
-        const allSuggestions = promptSuggestions[selectedClass] || [];
-        // Shuffle and pick 3
-        return [...allSuggestions].sort(() => 0.5 - Math.random()).slice(0, 3);
-    }, [selectedClass, activeChatId]); // Reroll when class or chat changes
-
-    const getSystemInstruction = (classNum: number | null): string => {
-        if (!classNum) return '';
-        let studentType = `Class ${classNum}`;
-        let syllabusType = `NCERT syllabus for Class ${classNum}`;
-    
-        if (classNum === 13) {
-            studentType = 'JEE aspirant';
-            syllabusType = 'JEE (Mains and Advanced) syllabus';
-        } else if (classNum === 14) {
-            studentType = 'NEET aspirant';
-            syllabusType = 'NEET syllabus';
-        }
-    
-        return `You are Chalkbyte, an exceptionally smart and interactive AI tutor for a ${studentType}. Your mission is to make learning engaging and effective, focusing strictly on the ${syllabusType}.
-
-**Core Directives:**
-1.  **Strictly Academic:** Your knowledge is confined to academic subjects. Politely and firmly decline ANY request outside this scope. This includes casual chat, jokes, personal opinions, creative writing, or any non-educational topic. If a user persists, gently remind them of your purpose. Example refusal: "As Chalkbyte, my purpose is to help with academic subjects. I can't assist with that, but I'd be happy to explain a concept from your syllabus!"
-2.  **Interactive Tutoring Style:** Don't just give answers.
-    *   **Ask Clarifying Questions:** If a student's query is vague, ask for more detail. (e.g., "When you say 'cells', are you interested in plant cells, animal cells, or the differences between them?").
-    *   **Check for Understanding:** After explaining a complex topic, ask a simple follow-up question to ensure the student has grasped it. (e.g., "So, based on what we discussed, what would happen if we removed the mitochondria?").
-    *   **Use Analogies:** Simplify complex ideas with relatable analogies.
-    *   **Encourage Deeper Thinking:** Prompt students to think further. (e.g., "That's a great question! How do you think that principle applies in real life?").
-3.  **Persona & Tone:**
-    *   **Enthusiastic & Encouraging:** Your tone should be positive and motivating. Use phrases like "Great question!", "Let's break that down!", "You're on the right track!".
-    *   **Clarity is Key:** Explain concepts clearly and concisely, as if you're a patient teacher. Use formatting like lists and bold text to improve readability.
-    *   **Appropriate Emoji Use:** Use emojis sparingly and only when they enhance the educational context (e.g., a brain emoji 🧠 for a complex idea, a lightbulb 💡 for an 'aha' moment). Avoid casual emojis.
-4.  **Safety First:** Prioritize accuracy, safety, and relevance in every response. Never provide harmful or inappropriate content.`;
-    };
+        const allSuggestions = promptSuggestions[selectedClass] || [];
+        // Shuffle and pick 3
+        return [...allSuggestions].sort(() => 0.5 - Math.random()).slice(0, 3);
+    }, [selectedClass, activeChatId]); // Reroll when class or chat changes
 
     // === Effects ===
     useEffect(() => {
@@ -728,6 +2195,35 @@ const App = () => {
         };
         loadChats();
     }, [selectedClass, dbReady]);
+
+    useEffect(() => {
+        if (!dbReady || !activeChatId || messagesByChat[activeChatId]) return;
+        const chatId = activeChatId;
+        getMessages(chatId)
+            .then(messages => setMessagesByChat(prev => (prev[chatId] ? prev : { ...prev, [chatId]: messages })))
+            .catch(err => console.error('Failed to load messages:', err));
+    }, [activeChatId, dbReady, messagesByChat]);
+
+    // Debounced search across every class's chats
+    useEffect(() => {
+        if (!dbReady || !searchQuery.trim()) {
+            setSearchResults([]);
+            setIsSearching(false);
+            return;
+        }
+        setIsSearching(true);
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            searchChats(searchQuery)
+                .then(results => { if (!cancelled) setSearchResults(results); })
+                .catch(err => console.error('Search failed:', err))
+                .finally(() => { if (!cancelled) setIsSearching(false); });
+        }, SEARCH_DEBOUNCE_MS);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [searchQuery, dbReady]);
     
     // Side-effects for UI
     useEffect(() => {
@@ -764,6 +2260,24 @@ const App = () => {
         return () => chatArea.removeEventListener('scroll', handleScroll);
     }, [selectedClass, activeChatId]);
 
+    // Scroll to a message opened from search once its chat's messages are on screen
+    useEffect(() => {
+        if (!pendingJump || pendingJump.chatId !== activeChatId) return;
+        const index = currentMessages.findIndex(m => m.id === pendingJump.messageId);
+        if (index < 0) {
+            // The match may sit on a branch that isn't shown; switch to it. Otherwise messages are still loading.
+            const leaf = getLatestLeaf(chatTree, pendingJump.messageId);
+            if (leaf) showBranch(leaf.id);
+            return;
+        }
+
+        const element = document.getElementById(`chat-message-${index}`);
+        element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        element?.classList.add('search-highlight');
+        setTimeout(() => element?.classList.remove('search-highlight'), 2000);
+        setPendingJump(null);
+    }, [pendingJump, activeChatId, currentMessages, chatTree]);
+
     // Effect for handling clicks on dynamically generated copy buttons
     useEffect(() => {
         const chatArea = chatAreaRef.current;
@@ -771,21 +2285,29 @@ const App = () => {
 
         const handleClick = (event: MouseEvent) => {
             const target = event.target as HTMLElement;
+            const runBtn = target.closest<HTMLButtonElement>('.run-code-btn');
+            if (runBtn) {
+                runCodeBlock(runBtn);
+                return;
+            }
+
             const copyBtn = target.closest<HTMLButtonElement>('.copy-code-btn');
             
             if (copyBtn && copyBtn.dataset.code) {
                 navigator.clipboard.writeText(copyBtn.dataset.code);
                 
                 const checkSVG = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="${checkIconPath}" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/></svg>`;
-                const copySVG = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="${copyIconPath}" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/></svg>`;
+                // Code and maths buttons have different labels, so restore whatever was there.
+                const originalHtml = copyBtn.innerHTML;
+                const originalLabel = copyBtn.getAttribute('aria-label') || '';
                 
                 copyBtn.innerHTML = `${checkSVG}<span>Copied!</span>`;
-                copyBtn.setAttribute('aria-label', 'Code copied');
+                copyBtn.setAttribute('aria-label', 'Copied');
                 copyBtn.disabled = true;
                 
                 setTimeout(() => {
-                    copyBtn.innerHTML = `${copySVG}<span>Copy</span>`;
-                    copyBtn.setAttribute('aria-label', 'Copy code');
+                    copyBtn.innerHTML = originalHtml;
+                    copyBtn.setAttribute('aria-label', originalLabel);
                     copyBtn.disabled = false;
                 }, 2000);
             }
@@ -797,8 +2319,42 @@ const App = () => {
         };
     }, [selectedClass, activeChatId]); // Rerun when chat area content might change
 
+    // Effect for hover readouts on plots and highlighting in diagrams, which are rendered as HTML
+    useEffect(() => {
+        const chatArea = chatAreaRef.current;
+        if (!chatArea) return;
+        let activePlot: Element | null = null;
+        let activeDiagram: Element | null = null;
+
+        const handlePointerMove = (event: PointerEvent) => {
+            const target = event.target as Element;
+            const plot = target.closest('svg.plot');
+            if (activePlot && activePlot !== plot) hidePlotValues(activePlot);
+            if (plot) showPlotValues(plot, event.clientX);
+            activePlot = plot;
+
+            const diagram = target.closest('svg.diagram');
+            const nodeId = target.closest('.diagram-node')?.getAttribute('data-node') ?? null;
+            if (activeDiagram && activeDiagram !== diagram) highlightDiagramNode(activeDiagram, null);
+            if (diagram) highlightDiagramNode(diagram, nodeId);
+            activeDiagram = diagram;
+        };
+        const handlePointerLeave = () => {
+            if (activePlot) hidePlotValues(activePlot);
+            if (activeDiagram) highlightDiagramNode(activeDiagram, null);
+            activePlot = activeDiagram = null;
+        };
+
+        chatArea.addEventListener('pointermove', handlePointerMove);
+        chatArea.addEventListener('pointerleave', handlePointerLeave);
+        return () => {
+            chatArea.removeEventListener('pointermove', handlePointerMove);
+            chatArea.removeEventListener('pointerleave', handlePointerLeave);
+        };
+    }, [selectedClass, activeChatId]);
+
     // === Core Logic ===
-    const generateTitleForChat = async (classNum: number, chatId: string, messages: ChatMessage[]) => {
+    const generateTitleForChat = async (chatId: string, messages: ChatMessage[]) => {
         setGeneratingTitleChatId(chatId);
         try {
             const conversation = messages.slice(0, 2).map(m => `${m.role}: ${m.text}`).join('\n');
@@ -810,16 +2366,9 @@ const App = () => {
             if (res.ok) {
                 const { title } = await res.json();
                 if (title) {
-                    // It's possible the user has switched chats. We need to find the chat from the main list.
-                    setChatsForClass(prev => {
-                        const chatToUpdate = prev.find(c => c.id === chatId);
-                        if (chatToUpdate) {
-                            const updatedChat = { ...chatToUpdate, title };
-                            updateChat(updatedChat); // Update DB in the background
-                            return prev.map(c => c.id === chatId ? updatedChat : c);
-                        }
-                        return prev;
-                    });
+                    // It's possible the user has switched chats, so update by id rather than the active chat.
+                    updateChat(chatId, { title }); // Update DB in the background
+                    setChatsForClass(prev => prev.map(c => c.id === chatId ? { ...c, title } : c));
                 }
             }
         } catch (e) {
@@ -830,39 +2379,87 @@ const App = () => {
     };
     
     const handleSendMessage = async (messageText: string) => {
-        if ((!messageText.trim() && !image) || isLoading || !selectedClass || !activeChatId) return;
+        if ((!messageText.trim() && pendingFiles.length === 0) || isLoading || !selectedClass || !activeChatId) return;
+    
+        const userMessage: ChatMessage = { role: 'user', text: messageText };
+        if (pendingFiles.length > 0) {
+            userMessage.attachments = await addAttachments(activeChatId, pendingFiles.map(p => ({ blob: p.file, name: p.file.name, mimeType: p.mimeType })));
+        }
     
+        const previousMessages = currentMessages;
+        const storedUserMessage = await addNewMessage(userMessage);
+        if (!storedUserMessage) return;
+    
+        setInput('');
+        // The message now renders its files from IndexedDB, so the composer preview URLs can go.
+        pendingFiles.forEach(p => { if (p.preview) URL.revokeObjectURL(p.preview); });
+        setPendingFiles([]);
+        setAttachmentError(null);
+
+        await generateReply(previousMessages, storedUserMessage);
+    };
+
+    // Edits an earlier question by adding the new wording as another version of that turn,
+    // then answers it. The original question and everything after it stay on their own branch.
+    const handleEditMessage = async (index: number, text: string) => {
+        const original = currentMessages[index];
+        if (!text.trim() || isLoading || original?.role !== 'user') return;
+
+        const userMessage: ChatMessage = { role: 'user', text };
+        if (original.attachments) userMessage.attachments = original.attachments;
+        const storedUserMessage = await addNewMessage(userMessage, original.parentId);
+        if (!storedUserMessage) return;
+
+        await generateReply(currentMessages.slice(0, index), storedUserMessage);
+    };
+
+    // Asks again for the answer at index; the new answer becomes another version of it.
+    const handleRegenerate = async (index: number) => {
+        const userMessage = currentMessages[index - 1];
+        if (isLoading || currentMessages[index]?.role !== 'model' || userMessage?.role !== 'user') return;
+
+        await generateReply(currentMessages.slice(0, index - 1), userMessage);
+    };
+
+    // Streams a new answer to userMessage. previousMessages is the branch leading up to it.
+    const generateReply = async (previousMessages: StoredMessage[], userMessage: StoredMessage) => {
+        if (!selectedClass || !activeChatId) return;
+        const messageText = userMessage.text;
+
         abortControllerRef.current?.abort(); // Abort any ongoing request
         const controller = new AbortController();
         abortControllerRef.current = controller;
-    
+
         const currentChat = chatsForClass.find(c => c.id === activeChatId);
         if (!currentChat) return;
-    
-        const userMessage: ChatMessage = { role: 'user', text: messageText };
-        if (image) userMessage.image = image.preview;
-    
-        const updatedMessages: ChatMessage[] = [...currentChat.messages, userMessage, { role: 'model', text: '' }];
-        const updatedChat = { ...currentChat, messages: updatedMessages };
-    
-        setChatsForClass(prev => prev.map(c => c.id === activeChatId ? updatedChat : c));
-        await updateChat(updatedChat);
-    
+
+        await addNewMessage({ role: 'model', text: '' }, userMessage.id);
         setIsLoading(true);
-        setInput('');
-        const imageFile = image?.file;
-        setImage(null);
     
         let finalModelMessage: ChatMessage | null = null; // Will only be set on a successful response
+        // Kept outside the try so a stopped generation can still save what arrived.
+        let fullResponse = '';
+        let sources: GroundingChunk[] | undefined;
+        let toolCalls: ToolCall[] = [];
     
         try {
-            const historyForApi = currentChat.messages.map(m => ({
-                role: m.role,
-                parts: [{ text: m.text }]
-            }));
+            const plan = planHistory(previousMessages, currentChat.contextSummary);
+            let contextSummary = plan.summary;
+            if (plan.toCondense) {
+                try {
+                    const text = await condenseMessages(plan.toCondense, plan.summary?.text, controller.signal);
+                    contextSummary = { text, throughMessageId: plan.toCondense[plan.toCondense.length - 1].id };
+                    saveContextSummary(currentChat.id, contextSummary);
+                } catch (error) {
+                    if ((error as Error).name === 'AbortError') throw error;
+                    // Carry on without them rather than sending the whole history.
+                    console.error('Failed to condense earlier messages:', error);
+                }
+            }
+            const historyForApi = buildHistoryForApi(plan.recent);
     
-            const imagePart = imageFile ? await fileToGenerativePart(imageFile) : null;
-            const useGoogleSearch = isGoogleSearchEnabled && !imagePart;
+            const { attachments, contextAttachments } = await collectAttachments(userMessage, previousMessages);
+            const useGoogleSearch = isGoogleSearchEnabled && attachments.length === 0;
     
             const response = await fetch('/api/chat', {
                 method: 'POST',
@@ -871,8 +2468,10 @@ const App = () => {
                 body: JSON.stringify({
                     message: messageText,
                     history: historyForApi,
-                    systemInstruction: getSystemInstruction(selectedClass),
-                    image: imagePart,
+                    contextSummary: contextSummary?.text,
+                    classId: toClassId(selectedClass),
+                    attachments,
+                    contextAttachments,
                     isGoogleSearchEnabled: useGoogleSearch,
                 }),
             });
@@ -882,46 +2481,65 @@ const App = () => {
                 throw new Error(errorData.error);
             }
     
-            if (useGoogleSearch) {
-                const data = await response.json();
-                finalModelMessage = { role: 'model', text: data.text, sources: data.candidates?.[0]?.groundingMetadata?.groundingChunks };
-                await updateLastMessage(finalModelMessage);
-            } else {
-                if (!response.body) throw new Error("Response body is empty.");
-                const reader = response.body.getReader();
-                const decoder = new TextDecoder();
-                let fullResponse = '';
-    
-                // eslint-disable-next-line no-constant-condition
-                while (true) {
-                    const { value, done } = await reader.read();
-                    if (done) break;
-                    fullResponse += decoder.decode(value, { stream: true });
+            if (!response.body) throw new Error("Response body is empty.");
+            let citations: Citation[] | undefined;
+            let usage: TokenUsage | undefined;
+            let finishReason: string | undefined;
+            let streamError: string | undefined;
+            let lastRenderAt = 0;
+
+            for await (const event of readChatEvents(response.body)) {
+                switch (event.type) {
+                    case 'text':
+                        fullResponse += event.text;
+                        // Show the answer as it arrives, but throttle so markdown isn't re-parsed on every token.
+                        if (Date.now() - lastRenderAt >= STREAM_RENDER_INTERVAL_MS) {
+                            lastRenderAt = Date.now();
+                            updateLastMessage({ role: 'model', text: fullResponse, toolCalls }, false);
+                        }
+                        break;
+                    case 'sources': sources = event.sources; citations = event.citations; break;
+                    case 'tool':
+                        // Shown as soon as it runs, since the answer that uses it may take a while.
+                        toolCalls = [...toolCalls, event.call];
+                        updateLastMessage({ role: 'model', text: fullResponse, toolCalls }, false);
+                        break;
+                    case 'usage': usage = event.usage; break;
+                    case 'finish': finishReason = event.finishReason; break;
+                    case 'error': streamError = event.error; break;
                 }
-                finalModelMessage = { role: 'model', text: fullResponse };
-                await updateLastMessage(finalModelMessage, true); // Save final message to DB
             }
+
+            const status = streamError ? 'error' : statusForFinishReason(finishReason);
+            const modelMessage: ChatMessage = { role: 'model', text: fullResponse };
+            if (sources) modelMessage.sources = sources;
+            if (citations?.length) modelMessage.citations = citations;
+            if (toolCalls.length) modelMessage.toolCalls = toolCalls;
+            if (usage) modelMessage.usage = usage;
+            if (status) modelMessage.status = status;
+            await updateLastMessage(modelMessage, true); // Save final message to DB
+            // Only a complete answer is good enough to title the chat from.
+            if (!status) finalModelMessage = modelMessage;
     
         } catch (error) {
             if ((error as Error).name === 'AbortError') {
                 console.log('Stream stopped by user.');
-                // Attempt to save the last known state from the stream if aborted.
-                const finalChatState = chatsForClass.find(c => c.id === activeChatId);
-                if (finalChatState && finalChatState.messages.length > 0) {
-                    const lastMessage = finalChatState.messages[finalChatState.messages.length - 1];
-                    await updateLastMessage(lastMessage, true);
-                }
+                // Keep and save whatever was received before the user stopped the answer.
+                const stoppedMessage: ChatMessage = { role: 'model', text: fullResponse, status: 'stopped' };
+                if (sources) stoppedMessage.sources = sources;
+                if (toolCalls.length) stoppedMessage.toolCalls = toolCalls;
+                await updateLastMessage(stoppedMessage, true);
             } else {
                 console.error("Error sending message:", error);
-                await updateLastMessage({ role: 'model', text: `Sorry, something went wrong. ${(error as Error).message}` });
+                await updateLastMessage({ role: 'model', text: `Sorry, something went wrong. ${(error as Error).message}`, status: 'error' });
             }
         } finally {
             setIsLoading(false);
             abortControllerRef.current = null;
             // Only generate a title if it was the first message exchange and the AI response was successful.
-            if (currentChat.messages.length === 0 && selectedClass && activeChatId && finalModelMessage) {
+            if (previousMessages.length === 0 && !currentChat.title && selectedClass && activeChatId && finalModelMessage) {
                 const messagesForTitle: ChatMessage[] = [userMessage, finalModelMessage];
-                generateTitleForChat(selectedClass, activeChatId, messagesForTitle);
+                generateTitleForChat(activeChatId, messagesForTitle);
             }
         }
     };
@@ -933,31 +2551,65 @@ const App = () => {
 
     const updateLastMessage = async (newMessage: ChatMessage, saveToDb = true) => {
         if (!activeChatId) return;
+        const chatId = activeChatId;
 
-        setChatsForClass(prevChats => {
-            const chatToUpdate = prevChats.find(c => c.id === activeChatId);
-            if (!chatToUpdate) return prevChats;
+        setMessagesByChat(prev => {
+            const messages = prev[chatId];
+            if (!messages || messages.length === 0) return prev;
 
-            const newMessages = [...chatToUpdate.messages];
-            newMessages[newMessages.length - 1] = newMessage;
-            const updatedChat = { ...chatToUpdate, messages: newMessages };
+            // The newest message is the one being written, whichever branch it is on.
+            const last = messages[messages.length - 1];
+            const updatedMessage: StoredMessage = { ...newMessage, id: last.id, chatId, seq: last.seq, parentId: last.parentId };
 
             if (saveToDb) {
-                updateChat(updatedChat);
+                updateMessage(updatedMessage);
             }
 
-            return prevChats.map(c => c.id === activeChatId ? updatedChat : c);
+            return { ...prev, [chatId]: [...messages.slice(0, -1), updatedMessage] };
         });
     };
 
-    const addNewMessage = async (newMessage: ChatMessage) => {
+    const addNewMessage = async (newMessage: ChatMessage, parentId?: string | null) => {
         if (!activeChatId) return;
-        const chatToUpdate = chatsForClass.find(c => c.id === activeChatId);
-        if (!chatToUpdate) return;
+        const { message, chat } = await appendMessage(activeChatId, newMessage, parentId);
+        setMessagesByChat(prev => ({ ...prev, [chat.id]: [...(prev[chat.id] || []), message] }));
+        setChatsForClass(prev => prev.map(c => c.id === chat.id ? { ...c, messageCount: chat.messageCount, preview: chat.preview, activeLeafId: chat.activeLeafId } : c));
+        return message;
+    };
+
+    const saveContextSummary = (chatId: string, contextSummary: ContextSummary) => {
+        setChatsForClass(prev => prev.map(c => c.id === chatId ? { ...c, contextSummary } : c));
+        updateChat(chatId, { contextSummary }).catch(err => console.error('Failed to save the context summary:', err));
+    };
+
+    // Shows the branch of the active chat that ends at leafId.
+    const showBranch = async (leafId: string) => {
+        if (!activeChatId) return;
+        const chatId = activeChatId;
+        setChatsForClass(prev => prev.map(c => c.id === chatId ? { ...c, activeLeafId: leafId } : c));
+        await updateChat(chatId, { activeLeafId: leafId });
+    };
+
+    const handleSwitchVersion = (index: number, delta: number) => {
+        const message = currentMessages[index];
+        if (!message || isLoading) return;
+        const versions = getSiblings(chatTree, message);
+        const target = versions[versions.indexOf(message) + delta];
+        const leaf = target && getLatestLeaf(chatTree, target.id);
+        if (leaf) showBranch(leaf.id);
+    };
 
-        const updatedChat = { ...chatToUpdate, messages: [...chatToUpdate.messages, newMessage] };
-        setChatsForClass(prev => prev.map(c => c.id === activeChatId ? updatedChat : c));
-        await updateChat(updatedChat);
+    // Copies the shown branch, up to and including the message at index, into a new chat.
+    const handleForkBranch = async (index: number) => {
+        if (!currentChat || isLoading) return;
+        const { chat, messages } = await forkChat({
+            id: createId(),
+            classNum: currentChat.classNum,
+            title: currentChat.title ? `${currentChat.title} (branch)` : '',
+        }, currentMessages.slice(0, index + 1));
+        setChatsForClass(prev => [chat, ...prev]);
+        setMessagesByChat(prev => ({ ...prev, [chat.id]: messages }));
+        handleSelectChat(chat.id);
     };
     
     const handleNewChat = async (classNum?: number) => {
@@ -965,13 +2617,13 @@ const App = () => {
         if (!targetClass) return;
         
         const newChatData = {
-            id: Date.now().toString(),
+            id: createId(),
             classNum: targetClass,
             title: '',
-            messages: []
         };
         const newChat = await addChat(newChatData);
         setChatsForClass(prev => [newChat, ...prev]);
+        setMessagesByChat(prev => ({ ...prev, [newChat.id]: [] }));
         handleSelectChat(newChat.id);
     };
 
@@ -979,16 +2631,33 @@ const App = () => {
         if (!selectedClass) return;
         setIsQuizModeActive(false);
         setQuizQuestions([]);
+        setQuizAttemptId(null);
+        setQuizLevels(null);
+        quizRunRef.current++;
         setActiveChatId(chatId);
         localStorage.setItem(`activeChatId_${selectedClass}`, chatId);
     };
 
+    const handleOpenSearchResult = (result: SearchResult) => {
+        setPendingJump(result.messageId ? { chatId: result.chat.id, messageId: result.messageId } : null);
+        setSearchQuery('');
+        setSidebarOpen(false);
+        if (result.chat.classNum !== selectedClass) {
+            // Loading the other class picks up its saved active chat, so point that at the result.
+            localStorage.setItem(`activeChatId_${result.chat.classNum}`, result.chat.id);
+            setSelectedClass(result.chat.classNum);
+        } else {
+            handleSelectChat(result.chat.id);
+        }
+    };
+
     const handleDeleteChat = async (chatIdToDelete: string) => {
         if (!selectedClass) return;
 
         await deleteChat(chatIdToDelete);
         const remainingChats = chatsForClass.filter(c => c.id !== chatIdToDelete);
         setChatsForClass(remainingChats);
+        setMessagesByChat(({ [chatIdToDelete]: _deleted, ...rest }) => rest);
 
         if (activeChatId === chatIdToDelete) {
             if (remainingChats.length > 0) {
@@ -999,22 +2668,29 @@ const App = () => {
         }
     };
 
+    // Imported chats may have replaced ones already loaded, so drop cached messages and re-read the list.
+    const handleChatsImported = async () => {
+        if (!selectedClass) return;
+        setMessagesByChat({});
+        setChatsForClass(await getChatsForClass(selectedClass));
+    };
+
     const handleTogglePin = async (chatId: string) => {
         const chatToUpdate = chatsForClass.find(c => c.id === chatId);
         if (!chatToUpdate) return;
 
-        const updatedChat = { ...chatToUpdate, isPinned: !chatToUpdate.isPinned };
-        await updateChat(updatedChat);
+        const isPinned = !chatToUpdate.isPinned;
+        await updateChat(chatId, { isPinned });
 
         // Update state, sorting will be handled by the useMemo hook
-        setChatsForClass(prev => prev.map(c => c.id === chatId ? updatedChat : c));
+        setChatsForClass(prev => prev.map(c => c.id === chatId ? { ...c, isPinned } : c));
     };
     
     const handleSummarizeChat = async () => {
         if (!currentChat || currentMessages.length < 2 || isLoading) return;
 
         setIsLoading(true);
-        const conversation = currentMessages.map(m => `${m.role === 'user' ? 'Student' : 'Assistant'}: ${m.text}`).join('\n');
+        const conversation = formatTranscript(currentMessages);
         
         await addNewMessage({ role: 'model', text: '' });
         
@@ -1037,11 +2713,121 @@ const App = () => {
         }
     };
 
-    const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        if (e.target.files && e.target.files[0]) {
-            setImage({ file: e.target.files[0], preview: URL.createObjectURL(e.target.files[0]) });
+    // Marks a photo of the student's working. The photo is kept as an attachment of the request,
+    // and the marking is saved as a structured reply.
+    const handleCheckWork = async ({ problem, maxMarks, file, mimeType }: CheckWorkRequest) => {
+        if (isLoading || !selectedClass || !activeChatId) return;
+        setShowCheckWorkModal(false);
+
+        const attachments = await addAttachments(activeChatId, [{ blob: file, name: file.name, mimeType }]);
+        if (!await addNewMessage({ role: 'user', text: `Check my work: ${problem}`, attachments })) return;
+        await addNewMessage({ role: 'model', text: '' });
+        setIsLoading(true);
+
+        try {
+            const response = await fetch('/api/grade', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    classId: toClassId(selectedClass),
+                    problem,
+                    maxMarks,
+                    image: { name: file.name, mimeType, data: await blobToBase64(file) },
+                }),
+            });
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}));
+                throw new Error(errorData.error || 'Failed to mark the work.');
+            }
+            const { grade } = await response.json() as { grade: GradeResult };
+            await updateLastMessage({ role: 'model', text: gradeToMarkdown(grade), grade });
+        } catch (error) {
+            console.error('Marking failed:', error);
+            await updateLastMessage({ role: 'model', text: `Sorry, I couldn't mark your work. ${(error as Error).message}`, status: 'error' });
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Starts "Solve with me": the reply holds the plan, and hints are then asked for from its card.
+    const handleStartSolve = async (problem: string) => {
+        if (isLoading || !selectedClass || !activeChatId) return;
+        setShowSolveModal(false);
+
+        if (!await addNewMessage({ role: 'user', text: `Solve with me: ${problem}` })) return;
+        await addNewMessage({ role: 'model', text: '' });
+        setIsLoading(true);
+
+        try {
+            const response = await fetch('/api/hint', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ classId: toClassId(selectedClass), problem }),
+            });
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}));
+                throw new Error(errorData.error || 'Failed to plan the problem.');
+            }
+            const { plan, token } = await response.json();
+            const session = await addHintSession(activeChatId, problem, plan, token);
+            await updateLastMessage({ role: 'model', text: hintSessionToMarkdown(session), hintSessionId: session.id });
+        } catch (error) {
+            console.error('Starting Solve with me failed:', error);
+            await updateLastMessage({ role: 'model', text: `Sorry, I couldn't set up that problem. ${(error as Error).message}`, status: 'error' });
+        } finally {
+            setIsLoading(false);
         }
     };
+
+    // Keeps the text of a "Solve with me" message in step with its session.
+    const handleHintSessionChange = (messageId: string, session: HintSession) => {
+        if (!activeChatId) return;
+        const chatId = activeChatId;
+        const message = messagesByChat[chatId]?.find(m => m.id === messageId);
+        if (!message) return;
+        const updatedMessage = { ...message, text: hintSessionToMarkdown(session) };
+        setMessagesByChat(prev => ({ ...prev, [chatId]: (prev[chatId] || []).map(m => (m.id === messageId ? updatedMessage : m)) }));
+        updateMessage(updatedMessage);
+    };
+
+    // Adds files to the next question. Files that break a limit are left out and the first
+    // problem is shown; /api/chat checks the same limits again.
+    const addPendingFiles = (files: File[]) => {
+        let problem: string | undefined;
+        const accepted = [...pendingFiles];
+        files.forEach(file => {
+            const mimeType = attachmentMimeType(file);
+            const error = checkAttachment({ name: file.name, mimeType, size: file.size })
+                ?? (accepted.length >= MAX_ATTACHMENTS_PER_MESSAGE ? `At most ${MAX_ATTACHMENTS_PER_MESSAGE} files can be attached to a message.` : undefined)
+                ?? (accepted.reduce((total, p) => total + p.file.size, file.size) > MAX_REQUEST_ATTACHMENT_BYTES ? `Attached files can total at most ${formatBytes(MAX_REQUEST_ATTACHMENT_BYTES)} per message.` : undefined);
+            if (error || !mimeType) {
+                problem ??= error;
+                return;
+            }
+            accepted.push({ file, mimeType, preview: attachmentKind(mimeType) === 'image' ? URL.createObjectURL(file) : undefined });
+        });
+        setPendingFiles(accepted);
+        setAttachmentError(problem ?? null);
+    };
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (e.target.files) addPendingFiles(Array.from(e.target.files));
+        // Lets the same file be picked again after it is removed.
+        e.target.value = '';
+    };
+
+    const handleRemovePendingFile = (index: number) => {
+        const removed = pendingFiles[index];
+        if (removed?.preview) URL.revokeObjectURL(removed.preview);
+        setPendingFiles(pendingFiles.filter((_, i) => i !== index));
+        setAttachmentError(null);
+    };
+
+    const handleFileDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        if (isLoading || e.dataTransfer.files.length === 0) return;
+        addPendingFiles(Array.from(e.dataTransfer.files));
+    };
     
     const handleVoiceInput = () => {
         if (isRecording) {
@@ -1066,6 +2852,69 @@ const App = () => {
     };
 
     // === Quiz Logic ===
+    // Asks /api/quiz for questions, throwing with the route's message when it fails.
+    const requestQuiz = async (request: {
+        topic: string;
+        classId: string;
+        numQuestions: number;
+        difficulty: string;
+        types: QuizQuestionType[];
+        subtopics?: string[];
+        focusSubtopics?: string[];
+        exclude?: string[];
+    }): Promise<QuizQuestion[]> => {
+        const response = await fetch('/api/quiz', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(request),
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({}));
+            throw new Error(error.error || 'Failed to generate quiz.');
+        }
+
+        const data = await response.json();
+        if (!data.quiz || data.quiz.length === 0) {
+             throw new Error('The AI could not generate a quiz for this topic.');
+        }
+        return data.quiz;
+    };
+
+    // Opens a quiz and saves it as a new attempt, linked from the reply that starts it, which
+    // must be the last message. A quiz that cannot be saved is still shown.
+    const beginQuizAttempt = async (quiz: Pick<QuizAttempt, 'topic' | 'difficulty' | 'questions' | 'retakeOf' | 'levels'>, intro: string) => {
+        if (!activeChatId) return;
+        const count = quiz.questions.length;
+        let attemptId: string | null = null;
+        try {
+            const attempt = await addQuizAttempt({
+                ...quiz,
+                chatId: activeChatId,
+                answers: new Array(count).fill(null),
+                timeSpentMs: new Array(count).fill(0),
+                startedAt: Date.now(),
+            });
+            attemptId = attempt.id;
+        } catch (error) {
+            console.error('Saving the quiz failed:', error);
+        }
+
+        await updateLastMessage({ role: 'model', text: intro, ...(attemptId ? { quizAttemptId: attemptId } : {}) });
+        setQuizAttemptId(attemptId);
+        setQuizLevels(quiz.levels ?? null);
+        quizRunRef.current++;
+        setQuizTopicForDisplay(quiz.topic);
+        setQuizAttemptDifficulty(quiz.difficulty);
+        setQuizQuestions(quiz.questions);
+        setUserAnswers(new Array(count).fill(null));
+        setCurrentQuestionIndex(0);
+        setSelectedAnswer(null);
+        setQuizStage('question');
+        setIsQuizModeActive(true);
+        quizQuestionShownAt.current = Date.now();
+    };
+
     const handleStartQuiz = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!quizTopic.trim() || !selectedClass) return;
@@ -1077,34 +2926,24 @@ const App = () => {
         await addNewMessage({ role: 'model', text: '' });
         
         try {
-            const response = await fetch('/api/quiz', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    topic: quizTopic,
-                    systemInstruction: getSystemInstruction(selectedClass),
-                    numQuestions: quizNumQuestions,
-                    difficulty: quizDifficulty,
-                }),
+            // An adaptive quiz starts with one batch at the chosen difficulty and grows as it goes.
+            const level = quizAdaptive ? ADAPTIVE_START_LEVELS[quizDifficulty] ?? ADAPTIVE_START_LEVELS.Medium : undefined;
+            const questions = await requestQuiz({
+                topic: quizTopic,
+                classId: toClassId(selectedClass),
+                numQuestions: level === undefined ? quizNumQuestions : ADAPTIVE_BATCH_SIZE,
+                difficulty: level === undefined ? quizDifficulty : ADAPTIVE_LEVELS[level],
+                types: quizTypes,
             });
 
-            if (!response.ok) {
-                const error = await response.json();
-                throw new Error(error.error || 'Failed to generate quiz.');
-            }
-
-            const data = await response.json();
-            if (!data.quiz || data.quiz.length === 0) {
-                 throw new Error('The AI could not generate a quiz for this topic.');
-            }
-
-            await updateLastMessage({ role: 'model', text: "Great! Let's test your knowledge. Starting the quiz now..." });
-            setQuizQuestions(data.quiz);
-            setUserAnswers(new Array(data.quiz.length).fill(null));
-            setCurrentQuestionIndex(0);
-            setSelectedAnswer(null);
-            setQuizStage('question');
-            setIsQuizModeActive(true);
+            await beginQuizAttempt(
+                level === undefined
+                    ? { topic: quizTopic, difficulty: quizDifficulty, questions }
+                    : { topic: quizTopic, difficulty: 'Adaptive', questions, levels: questions.map(() => level) },
+                level === undefined
+                    ? "Great! Let's test your knowledge. Starting the quiz now..."
+                    : "Great! This quiz adapts to you: questions get harder or easier as you answer, and it stops once your level is clear. Starting now...",
+            );
 
         } catch (error) {
             console.error("Quiz generation failed:", error);
@@ -1115,30 +2954,103 @@ const App = () => {
         }
     };
     
-    const handleAnswerSelect = (selectedIndex: number) => {
+    const handleAnswerSelect = (answer: QuizAnswer) => {
         if (selectedAnswer !== null) return; // Prevent re-answering
-        setSelectedAnswer(selectedIndex);
+        setSelectedAnswer(answer);
         const newAnswers = [...userAnswers];
-        newAnswers[currentQuestionIndex] = selectedIndex;
+        newAnswers[currentQuestionIndex] = answer;
         setUserAnswers(newAnswers);
+        if (quizAttemptId) {
+            const timeSpentMs = Date.now() - quizQuestionShownAt.current;
+            recordQuizProgress(quizAttemptId, { answer: { index: currentQuestionIndex, answer, timeSpentMs } })
+                .catch(error => console.error('Saving the quiz answer failed:', error));
+        }
     };
     
-    const handleNextQuestion = () => {
+    // Answers so far of the adaptive quiz under way, which decide its next batch and when it ends.
+    const adaptiveQuizResponses = useMemo(
+        () => quizLevels ? adaptiveResponses({ topic: quizTopicForDisplay, questions: quizQuestions, answers: userAnswers, levels: quizLevels }) : null,
+        [quizLevels, quizTopicForDisplay, quizQuestions, userAnswers],
+    );
+    const isQuizOnLastQuestion = currentQuestionIndex === quizQuestions.length - 1
+        && (!adaptiveQuizResponses || isLevelSettled(adaptiveQuizResponses));
+
+    // Adds the next batch of an adaptive quiz: a level up or down from the last batch with how it
+    // went, aimed at the subtopics just missed. Returns whether the quiz can go on.
+    const addAdaptiveBatch = async (levels: number[], responses: AdaptiveResponse[]) => {
+        if (!selectedClass) return false;
+        const run = quizRunRef.current;
+        const level = nextBatchLevel(levels[levels.length - 1], responses.slice(-ADAPTIVE_BATCH_SIZE));
+        setIsQuizBatchLoading(true);
+        try {
+            const questions = await requestQuiz({
+                topic: quizTopicForDisplay,
+                classId: toClassId(selectedClass),
+                numQuestions: ADAPTIVE_BATCH_SIZE,
+                difficulty: ADAPTIVE_LEVELS[level],
+                types: quizTypes,
+                subtopics: [...new Set(quizQuestions.flatMap(question => question.subtopic ? [question.subtopic] : []))],
+                focusSubtopics: subtopicsToTarget(responses),
+                exclude: quizQuestions.map(question => question.question),
+            });
+            if (run !== quizRunRef.current) return false;
+            setQuizQuestions(prev => [...prev, ...questions]);
+            setUserAnswers(prev => [...prev, ...questions.map(() => null)]);
+            setQuizLevels([...levels, ...questions.map(() => level)]);
+            if (quizAttemptId) {
+                recordQuizProgress(quizAttemptId, { batch: { questions, level } })
+                    .catch(error => console.error('Saving the quiz batch failed:', error));
+            }
+            return true;
+        } catch (error) {
+            console.error('Adaptive quiz batch failed:', error);
+            return false;
+        } finally {
+            setIsQuizBatchLoading(false);
+        }
+    };
+
+    const handleNextQuestion = async () => {
         if (currentQuestionIndex < quizQuestions.length - 1) {
             setCurrentQuestionIndex(prev => prev + 1);
             setSelectedAnswer(null);
-        } else {
-            // This is the last question, so move to results
-            let score = 0;
-            quizQuestions.forEach((q, i) => {
-                if (q.correctAnswerIndex === userAnswers[i]) score++;
-            });
-            setQuizScore(score);
-            setQuizStage('results');
-            
-            const scoreMessage = `## Quiz Complete!\n\n**Topic: ${quizTopicForDisplay}**\n**Final score: ${score} out of ${quizQuestions.length}**`;
-            addNewMessage({ role: 'model', text: scoreMessage });
+            quizQuestionShownAt.current = Date.now();
+            return;
+        }
+
+        let endedEarly = false;
+        if (quizLevels && adaptiveQuizResponses && !isLevelSettled(adaptiveQuizResponses)) {
+            const run = quizRunRef.current;
+            if (await addAdaptiveBatch(quizLevels, adaptiveQuizResponses)) {
+                setCurrentQuestionIndex(prev => prev + 1);
+                setSelectedAnswer(null);
+                quizQuestionShownAt.current = Date.now();
+                return;
+            }
+            if (run !== quizRunRef.current) return;
+            endedEarly = true;
+        }
+
+        // This is the last question, so move to results
+        let score = 0;
+        quizQuestions.forEach((q, i) => {
+            if (isAnswerCorrect(q, userAnswers[i])) score++;
+        });
+        setQuizScore(score);
+        setQuizStage('results');
+        if (quizAttemptId) {
+            recordQuizProgress(quizAttemptId, { finishedAt: Date.now() })
+                .catch(error => console.error('Saving the finished quiz failed:', error));
         }
+
+        let scoreMessage = `## Quiz Complete!\n\n**Topic: ${quizTopicForDisplay}**\n**Final score: ${score} out of ${quizQuestions.length}**`;
+        if (adaptiveQuizResponses && adaptiveQuizResponses.length > 0) {
+            scoreMessage += `\n\n${levelReportToMarkdown(adaptiveQuizResponses)}`;
+        }
+        if (endedEarly) {
+            scoreMessage += "\n\nThe quiz ended early because I couldn't generate more questions, so the estimate is less certain than usual.";
+        }
+        addNewMessage({ role: 'model', text: scoreMessage });
     };
 
     const handleFinishQuiz = () => {
@@ -1147,6 +3059,138 @@ const App = () => {
         setUserAnswers([]);
         setCurrentQuestionIndex(0);
         setSelectedAnswer(null);
+        setQuizAttemptId(null);
+        setQuizLevels(null);
+        quizRunRef.current++;
+    };
+
+    const handleReviewQuizAttempt = async (attemptId: string) => {
+        try {
+            const attempt = await getQuizAttempt(attemptId);
+            if (attempt) setReviewedQuizAttempt(attempt);
+        } catch (error) {
+            console.error('Failed to load quiz:', error);
+        }
+    };
+
+    // Asks a saved quiz again as a new attempt, with all of its questions or only those answered wrongly.
+    const handleRetakeQuiz = async (attempt: Pick<QuizAttempt, 'id' | 'topic' | 'difficulty' | 'questions' | 'answers' | 'levels'>, wrongOnly: boolean) => {
+        const questions = wrongOnly ? wrongQuestions(attempt) : attempt.questions;
+        if (isLoading || questions.length === 0) return;
+        setIsLoading(true);
+        setReviewedQuizAttempt(null);
+        handleFinishQuiz();
+
+        try {
+            const request = wrongOnly ? `Retake the questions I got wrong on: ${attempt.topic}` : `Retake the quiz on: ${attempt.topic}`;
+            if (!await addNewMessage({ role: 'user', text: request })) return;
+            await addNewMessage({ role: 'model', text: '' });
+            // A retake asks fixed questions, so an adaptive quiz's retake spans whichever levels it reached.
+            await beginQuizAttempt(
+                { topic: attempt.topic, difficulty: attempt.levels ? 'Mixed' : attempt.difficulty, questions, retakeOf: { attemptId: attempt.id, wrongOnly } },
+                wrongOnly
+                    ? `Here ${questions.length === 1 ? 'is the question' : `are the ${questions.length} questions`} you missed last time. Let's try again.`
+                    : "Here's the same quiz again. Let's see how you do this time.",
+            );
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Retakes from the answers in memory rather than the saved attempt, which may still be missing
+    // the last answer while its save is under way.
+    const handleRetakeWrongAnswers = () => {
+        if (!quizAttemptId) return;
+        handleRetakeQuiz({
+            id: quizAttemptId,
+            topic: quizTopicForDisplay,
+            difficulty: quizAttemptDifficulty,
+            questions: quizQuestions,
+            answers: userAnswers,
+            levels: quizLevels ?? undefined,
+        }, true);
+    };
+
+    // === Mock Test Logic ===
+    // Each section is generated as a quiz of its own, all at the same time.
+    const handleStartMockTest = async (setup: MockTestSetup) => {
+        if (isLoading || !selectedClass || !activeChatId) return;
+        setShowMockTestModal(false);
+        const chatId = activeChatId;
+        const pattern = EXAM_PATTERNS[setup.pattern];
+        const title = `${pattern.label} mock test`;
+
+        if (!await addNewMessage({ role: 'user', text: `Start a ${title}${setup.topic ? ` on: ${setup.topic}` : ''}` })) return;
+        await addNewMessage({ role: 'model', text: '' });
+        setIsLoading(true);
+
+        try {
+            const sections = await Promise.all(pattern.sections.map(async (section): Promise<MockTestSection> => {
+                const topic = !section.subject ? setup.topic
+                    : setup.topic ? `${section.subject}, focusing on ${setup.topic}` : `${section.subject}, across the ${pattern.label} syllabus`;
+                const response = await fetch('/api/quiz', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        topic,
+                        classId: toClassId(selectedClass),
+                        numQuestions: setup.questionsPerSection,
+                        difficulty: setup.difficulty,
+                        types: section.types,
+                    }),
+                });
+                if (!response.ok) {
+                    const errorData = await response.json().catch(() => ({}));
+                    throw new Error(errorData.error || `Failed to generate the ${section.name} section.`);
+                }
+                const data = await response.json();
+                return { name: section.name, questions: data.quiz };
+            }));
+
+            const questionCount = sections.reduce((count, section) => count + section.questions.length, 0);
+            const durationSeconds = testDurationSeconds(pattern, questionCount);
+            await updateLastMessage({ role: 'model', text: `Your ${title} is ready: ${sections.length} sections, ${questionCount} questions and ${durationSeconds / 60} minutes. The timer starts now. Good luck!` });
+            setMockTestPaper({
+                chatId,
+                pattern: setup.pattern,
+                title,
+                topic: setup.topic || undefined,
+                difficulty: setup.difficulty,
+                sections,
+                marking: pattern.marking,
+                durationSeconds,
+            });
+        } catch (error) {
+            console.error('Mock test generation failed:', error);
+            await updateLastMessage({ role: 'model', text: `Sorry, I couldn't set up the mock test. ${(error as Error).message}`, status: 'error' });
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Saves the submitted test and posts its summary to the chat it was started from.
+    const handleSubmitMockTest = async (result: { responses: MockTestResponse[][]; startedAt: number; timedOut: boolean }) => {
+        if (!mockTestPaper) return;
+        const submitted = { ...mockTestPaper, ...result, submittedAt: Date.now() };
+        setMockTestPaper(null);
+        try {
+            const test = await addMockTest(submitted);
+            setReviewedMockTest(test);
+            await addNewMessage({ role: 'model', text: mockTestToMarkdown(test), mockTestId: test.id });
+        } catch (error) {
+            console.error('Saving the mock test failed:', error);
+            // The result can still be shown; it just won't be there to review later.
+            setReviewedMockTest({ ...submitted, id: '' });
+        }
+    };
+
+    const handleReviewMockTest = async (testId: string) => {
+        try {
+            const test = await getMockTest(testId);
+            if (test) setReviewedMockTest(test);
+        } catch (error) {
+            console.error('Failed to load mock test:', error);
+        }
     };
 
 
@@ -1166,6 +3210,7 @@ const App = () => {
                         --shadow: 0 4px 6px rgba(0, 0, 0, 0.05);
                         --gemini-gradient: linear-gradient(90deg, #F97721, #F2A93B, #88D7E4, #2D79C7);
                         --correct-color: #2e7d32; --incorrect-color: #c62828;
+                        --code-keyword: #a626a4; --code-string: #50a14f; --code-number: #986801; --code-title: #4078f2; --code-attr: #c18401; --code-comment: #a0a1a7;
                         --modal-overlay-bg: rgba(240, 244, 249, 0.5);
                         --modal-bg-frosted: rgba(255, 255, 255, 0.8);
                     }
@@ -1175,6 +3220,7 @@ const App = () => {
                         --accent-primary: #ffffff; --accent-secondary: #cccccc;
                         --border-color: #333333;
                         --correct-color: #66bb6a; --incorrect-color: #ef5350;
+                        --code-keyword: #c678dd; --code-string: #98c379; --code-number: #d19a66; --code-title: #61afef; --code-attr: #e5c07b; --code-comment: #7f848e;
                         --modal-overlay-bg: rgba(18, 18, 18, 0.5);
                         --modal-bg-frosted: rgba(30, 30, 30, 0.8);
                     }
@@ -1265,6 +3311,19 @@ const App = () => {
                     .sidebar-btn:disabled { background-color: var(--bg-tertiary); color: var(--text-secondary); cursor: not-allowed; opacity: 0.6; }
                     .sidebar-content { display: flex; flex-direction: column; gap: 12px; flex-grow: 1; overflow: hidden; }
                     .chat-history-container { display: flex; flex-direction: column; gap: 8px; overflow-y: auto; margin-top: 16px; padding-right: 8px; }
+                    .sidebar-search { display: flex; align-items: center; gap: 8px; padding: 8px 12px; background: var(--bg-primary); border: 1px solid var(--border-color); border-radius: 12px; color: var(--text-secondary); transition: border-color 0.2s ease-out; }
+                    .sidebar-search:focus-within { border-color: var(--text-primary); }
+                    .sidebar-search-input { flex: 1; min-width: 0; border: none; background: transparent; color: var(--text-primary); font-size: 0.9rem; font-family: var(--font-heading); }
+                    .sidebar-search-input:focus { outline: none; }
+                    .sidebar.collapsed .sidebar-search { display: none; }
+                    .search-result { display: flex; flex-direction: column; gap: 4px; width: 100%; padding: 8px 12px; border: none; border-radius: 12px; background: transparent; color: var(--text-primary); text-align: left; cursor: pointer; font-family: var(--font-body); transition: background-color 0.2s ease-out; }
+                    .search-result-meta { display: flex; justify-content: space-between; gap: 8px; font-size: 0.85rem; font-family: var(--font-heading); font-weight: 500; }
+                    .search-result-title { white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+                    .search-result-class { flex-shrink: 0; color: var(--text-secondary); font-weight: 400; }
+                    .search-result-snippet { font-size: 0.8rem; line-height: 1.4; color: var(--text-secondary); }
+                    .search-result-snippet mark { background: color-mix(in srgb, #F2A93B 35%, transparent); color: var(--text-primary); border-radius: 3px; padding: 0 1px; }
+                    .search-empty { font-size: 0.85rem; color: var(--text-secondary); padding: 8px 12px; }
+                    .chat-message.search-highlight .message-content { outline: 2px solid #F2A93B; outline-offset: 6px; border-radius: 8px; transition: outline-color 0.3s; }
                     .history-item { display: flex; justify-content: space-between; align-items: center; padding: 8px 12px; border-radius: 12px; cursor: pointer; transition: background-color 0.2s ease-out; gap: 8px; }
                     
                     .history-item.active {
@@ -1368,7 +3427,10 @@ const App = () => {
                         [data-theme='dark'] .class-button:hover, [data-theme='dark'] .sidebar-btn:not(:disabled):hover, [data-theme='dark'] .quiz-next-btn:hover { color: #fff; }
                         .class-button:hover::before, .sidebar-btn:not(:disabled):hover::before, .quiz-next-btn:hover::before { opacity: 1; }
                         .history-item:hover { background-color: var(--bg-tertiary); }
+                        .search-result:hover { background-color: var(--bg-tertiary); }
                         .chat-message:hover .copy-btn { visibility: visible; opacity: 1; }
+                        .chat-message:hover .message-action-btn { visibility: visible; opacity: 1; }
+                        .message-action-btn:not(:disabled):hover, .version-switcher button:not(:disabled):hover { color: var(--text-primary); background: var(--bg-tertiary); }
                         .modal-btn.submit:not(:disabled):hover { color: #fff; box-shadow: 0 -6px 20px -5px rgba(249, 119, 33, 0.7), 0 6px 20px -5px rgba(45, 121, 199, 0.7); }
                         [data-theme='dark'] .modal-btn.submit:not(:disabled):hover { color: #fff; }
                         .modal-btn.submit:not(:disabled):hover::before { opacity: 1; }
@@ -1407,17 +3469,66 @@ const App = () => {
                     .message-image { max-width: 300px; border-radius: 12px; margin-bottom: 8px; }
                     .copy-btn { background: none; border: none; color: var(--text-secondary); cursor: pointer; padding: 4px; border-radius: 4px; transition: all 0.2s ease-out; visibility: hidden; opacity: 0; }
                     .stop-btn { visibility: visible; opacity: 1; }
+                    .message-actions { display: flex; align-items: center; gap: 4px; margin-top: 8px; min-height: 24px; color: var(--text-secondary); }
+                    .role-user .message-actions { justify-content: flex-end; }
+                    .message-action-btn { background: none; border: none; color: var(--text-secondary); cursor: pointer; padding: 4px; border-radius: 4px; display: flex; transition: all 0.2s ease-out; visibility: hidden; opacity: 0; }
+                    .message-action-btn:focus-visible { visibility: visible; opacity: 1; }
+                    @media (hover: none) { .message-action-btn { visibility: visible; opacity: 1; } }
+                    .version-switcher { display: flex; align-items: center; gap: 2px; font-size: 0.8rem; font-family: var(--font-heading); }
+                    .version-switcher button { background: none; border: none; color: var(--text-secondary); cursor: pointer; padding: 2px; border-radius: 4px; display: flex; }
+                    .version-switcher button:disabled, .message-action-btn:disabled { opacity: 0.4; cursor: not-allowed; }
+                    .condensed-context-notice { margin: 0 0 24px; padding: 8px 12px; border: 1px dashed var(--border-color); border-radius: 12px; color: var(--text-secondary); font-size: 0.85rem; }
+                    .condensed-context-notice summary { display: flex; align-items: center; gap: 8px; cursor: pointer; list-style: none; }
+                    .condensed-context-notice summary::-webkit-details-marker { display: none; }
+                    .condensed-context-notice p { margin-top: 8px; white-space: pre-wrap; line-height: 1.5; }
+                    .message-edit-form { display: flex; flex-direction: column; gap: 8px; text-align: left; }
+                    .message-edit-input { width: 100%; min-width: min(480px, 70vw); padding: 12px; border-radius: 12px; border: 1px solid var(--border-color); background: var(--bg-secondary); color: var(--text-primary); font-family: inherit; font-size: 1rem; resize: vertical; }
+                    .message-edit-input:focus { outline: none; border-color: var(--accent-primary); }
+                    .message-edit-buttons { display: flex; justify-content: flex-end; gap: 8px; }
+                    .message-edit-buttons .modal-btn { padding: 8px 16px; font-size: 0.9rem; }
                     .message-sources { font-size: 0.9rem; margin-top: 16px; color: var(--text-secondary); text-align: left; }
                     .message-sources hr { border: none; border-top: 1px solid var(--border-color); margin: 12px 0; }
                     .message-sources ol a { color: var(--accent-primary); text-decoration: none; }
                     .message-sources ol a:hover { text-decoration: underline; }
-                    .source-link { text-decoration: none; color: var(--accent-primary); font-weight: 600; background: var(--bg-tertiary); padding: 1px 4px; border-radius: 4px; }
+                    .message-tools { margin-top: 12px; font-size: 0.85rem; color: var(--text-secondary); text-align: left; }
+                    .message-tools summary { display: flex; align-items: center; gap: 6px; cursor: pointer; list-style: none; width: fit-content; }
+                    .message-tools summary::-webkit-details-marker { display: none; }
+                    .message-tools ol { margin: 8px 0 0; padding-left: 20px; display: flex; flex-direction: column; gap: 4px; }
+                    .message-tools li { overflow-wrap: anywhere; }
+                    .message-tools .tool-name { font-weight: 600; margin-right: 6px; }
+                    .message-tools code { background: var(--bg-tertiary); padding: 1px 6px; border-radius: 4px; margin-right: 6px; }
+                    .message-tools .tool-failed .tool-output { color: var(--incorrect-color); }
+                    .message-status-notice { display: flex; align-items: center; gap: 8px; margin-top: 12px; padding: 8px 12px; border-radius: 12px; border: 1px solid var(--border-color); background: var(--bg-secondary); color: var(--text-secondary); font-size: 0.85rem; width: fit-content; }
+                    .message-status-notice.status-blocked, .message-status-notice.status-error { color: var(--incorrect-color); border-color: color-mix(in srgb, var(--incorrect-color) 40%, transparent); }
+                    .message-content sup > a[href^="#source-"] { text-decoration: none; color: var(--accent-primary); font-weight: 600; background: var(--bg-tertiary); padding: 1px 4px; border-radius: 4px; }
 
                     /* Code Block Enhancements */
                     .code-block-wrapper { position: relative; }
-                    .copy-code-btn { position: absolute; top: 8px; right: 8px; background: var(--bg-tertiary); color: var(--text-secondary); border: 1px solid var(--border-color); border-radius: 8px; padding: 4px 8px; cursor: pointer; display: flex; align-items: center; gap: 4px; font-size: 0.8rem; opacity: 0; transition: opacity 0.2s ease-out; }
-                    .code-block-wrapper:hover .copy-code-btn { opacity: 1; }
-                    .copy-code-btn:hover { background: var(--border-color); color: var(--text-primary); }
+                    .code-block-actions { position: absolute; top: 8px; right: 8px; display: flex; gap: 6px; opacity: 0; transition: opacity 0.2s ease-out; }
+                    .code-block-wrapper:hover .code-block-actions, .code-block-actions:focus-within { opacity: 1; }
+                    .copy-code-btn, .run-code-btn { background: var(--bg-tertiary); color: var(--text-secondary); border: 1px solid var(--border-color); border-radius: 8px; padding: 4px 8px; cursor: pointer; display: flex; align-items: center; gap: 4px; font-size: 0.8rem; }
+                    .run-code-btn:disabled { cursor: wait; opacity: 0.7; }
+                    .code-output { margin: -4px 0 12px; border: 1px solid var(--border-color); border-radius: 12px; padding: 10px 16px; font-size: 0.85rem; }
+                    .code-output pre { margin: 0 0 6px; padding: 0; background: none !important; max-height: 300px; overflow-y: auto; }
+                    .code-output-stderr { color: var(--incorrect-color); }
+                    .code-output-status { color: var(--text-secondary); font-size: 0.8rem; }
+                    .hljs-keyword, .hljs-built_in, .hljs-literal, .hljs-type, .hljs-selector-tag { color: var(--code-keyword); }
+                    .hljs-string, .hljs-regexp, .hljs-char, .hljs-addition { color: var(--code-string); }
+                    .hljs-number, .hljs-symbol, .hljs-variable, .hljs-template-variable { color: var(--code-number); }
+                    .hljs-title, .hljs-section, .hljs-selector-id, .hljs-selector-class { color: var(--code-title); }
+                    .hljs-attr, .hljs-attribute, .hljs-name, .hljs-tag, .hljs-property, .hljs-params { color: var(--code-attr); }
+                    .hljs-comment, .hljs-quote, .hljs-meta { color: var(--code-comment); font-style: italic; }
+                    .hljs-deletion { color: var(--incorrect-color); }
+                    .math-block { overflow-x: auto; overflow-y: hidden; margin: 12px 0; padding-right: 96px; }
+                    .math-block .katex-display { margin: 0.5em 0; }
+                    .message-content .katex { font-size: 1.1em; }
+                    .copy-code-btn:hover, .run-code-btn:not(:disabled):hover { background: var(--border-color); color: var(--text-primary); }
+                    .visual-block { margin: 12px 0; overflow-x: auto; }
+                    .visual-block svg { display: block; max-width: 100%; height: auto; margin: 0 auto; }
+                    .visual-block .diagram-shape, .visual-block .diagram-label-bg { fill: var(--bg-primary); }
+                    .diagram-node, .diagram-edge { transition: opacity 0.2s ease-out; }
+                    .diagram.has-highlight .diagram-node:not(.is-highlighted), .diagram.has-highlight .diagram-edge:not(.is-highlighted) { opacity: 0.25; }
+                    .visual-error { margin: -4px 0 12px; font-size: 0.8rem; color: var(--text-secondary); }
 
                     /* Chat Welcome Screen */
                     .chat-welcome-screen { display: flex; flex-direction: column; justify-content: center; align-items: center; height: 100%; text-align: center; }
@@ -1457,9 +3568,18 @@ const App = () => {
                     .send-btn:disabled { background-color: var(--text-secondary); cursor: not-allowed; opacity: 0.7; }
                     .stop-btn-input { right: 8px; background-color: var(--accent-primary); color: var(--bg-primary); border: 1px solid var(--border-color); }
                     .stop-btn-input:hover { background-color: #e9e9e9; }
-                    .image-preview { position: relative; width: fit-content; }
-                    .image-preview img { max-height: 80px; border-radius: 12px; border: 1px solid var(--border-color); }
-                    .remove-image-btn { position: absolute; top: -8px; right: -8px; background: var(--bg-tertiary); color: var(--text-primary); border: 1px solid var(--border-color); border-radius: 50%; width: 20px; height: 20px; cursor: pointer; font-size: 12px; }
+                    .attachment-chips, .message-attachments { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; }
+                    .message-attachments { margin-bottom: 8px; }
+                    .message-attachments .message-image { margin-bottom: 0; }
+                    .attachment-chip { display: inline-flex; align-items: center; gap: 6px; max-width: 260px; padding: 6px 10px; border-radius: 12px; border: 1px solid var(--border-color); background-color: var(--bg-tertiary); color: var(--text-primary); font: inherit; font-size: 0.85rem; }
+                    button.attachment-chip { cursor: pointer; }
+                    button.attachment-chip:hover { border-color: var(--text-secondary); }
+                    .attachment-thumbnail { width: 28px; height: 28px; object-fit: cover; border-radius: 6px; }
+                    .attachment-name { overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+                    .attachment-size { color: var(--text-secondary); flex-shrink: 0; }
+                    .remove-attachment-btn { background: none; border: none; color: var(--text-secondary); cursor: pointer; font-size: 16px; line-height: 1; padding: 0 2px; }
+                    .remove-attachment-btn:hover { color: var(--text-primary); }
+                    .attachment-error { color: var(--incorrect-color); font-size: 0.85rem; }
                     .input-options { display: flex; justify-content: space-between; align-items: center; }
                     .search-toggle { display: flex; align-items: center; gap: 8px; font-size: 0.9rem; color: var(--text-secondary); cursor: pointer; }
                     .search-toggle.disabled { opacity: 0.5; cursor: not-allowed; }
@@ -1542,7 +3662,42 @@ const App = () => {
 
                     .modal-input { width: 100%; padding: 12px 16px 12px 44px; border-radius: 10px; border: none; background: var(--bg-secondary); color: var(--text-primary); font-family: var(--font-heading); font-size: 1.1rem; }
                     .modal-input:focus { outline: none; background: var(--bg-primary); }
+                    .modal-textarea { display: block; padding-left: 16px; font-family: inherit; font-size: 1rem; resize: vertical; }
+                    .check-photo-row { display: flex; align-items: center; gap: 12px; flex-wrap: wrap; }
+                    .grade-card { display: flex; flex-direction: column; gap: 12px; }
+                    .grade-header { display: flex; align-items: baseline; gap: 8px; }
+                    .grade-score { font-family: var(--font-heading); font-size: 1.6rem; font-weight: 700; }
+                    .grade-score-label { color: var(--text-secondary); }
+                    .grade-feedback { margin: 0; }
+                    .grade-steps { margin: 0; padding-left: 24px; display: flex; flex-direction: column; gap: 10px; }
+                    .grade-step { padding: 8px 12px; border-radius: 12px; border-left: 4px solid var(--border-color); background-color: var(--bg-tertiary); }
+                    .grade-step.verdict-correct { border-left-color: var(--correct-color); }
+                    .grade-step.verdict-partial { border-left-color: color-mix(in srgb, var(--correct-color) 50%, var(--incorrect-color)); }
+                    .grade-step.verdict-incorrect { border-left-color: var(--incorrect-color); }
+                    .grade-step.first-error { outline: 1px solid var(--incorrect-color); }
+                    .grade-step-verdict { display: flex; justify-content: space-between; gap: 12px; font-size: 0.85rem; font-weight: 600; margin-top: 4px; }
+                    .verdict-correct .grade-step-verdict { color: var(--correct-color); }
+                    .verdict-incorrect .grade-step-verdict { color: var(--incorrect-color); }
+                    .grade-step-comment { font-size: 0.9rem; color: var(--text-secondary); margin-top: 4px; }
+                    .grade-hints ul { margin: 4px 0 0; padding-left: 20px; }
+                    .solve-card { display: flex; flex-direction: column; gap: 12px; }
+                    .solve-plan p { margin: 4px 0; }
+                    .solve-plan ol { margin: 0; padding-left: 24px; }
+                    .solve-hint, .solve-attempt { padding: 8px 12px; border-radius: 12px; background-color: var(--bg-tertiary); border-left: 4px solid var(--accent-primary); }
+                    .solve-hint.level-full { border-left-color: var(--text-secondary); }
+                    .solve-attempt { border-left-color: var(--border-color); }
+                    .solve-attempt.verdict-correct { border-left-color: var(--correct-color); }
+                    .solve-attempt.verdict-incorrect { border-left-color: var(--incorrect-color); }
+                    .solve-label { display: block; font-size: 0.8rem; font-weight: 600; color: var(--text-secondary); text-transform: uppercase; letter-spacing: 0.04em; margin-bottom: 4px; }
+                    .solve-attempt-text { white-space: pre-wrap; font-style: italic; margin-bottom: 4px; }
+                    .solve-controls { display: flex; flex-direction: column; gap: 8px; }
+                    .solve-buttons { display: flex; align-items: center; justify-content: flex-end; gap: 8px; flex-wrap: wrap; }
+                    .solve-usage { margin-right: auto; font-size: 0.85rem; color: var(--text-secondary); }
+                    .solve-solved { color: var(--correct-color); font-weight: 600; }
                     
+                    .modal-divider { border: none; border-top: 1px solid var(--border-color); margin: 8px 0 20px; }
+                    .backup-status { font-size: 0.9rem; color: var(--text-secondary); padding-left: 4px; }
+                    .backup-status.error { color: var(--incorrect-color); }
                     .modal-buttons { display: flex; justify-content: flex-end; gap: 12px; margin-top: 32px; }
                     .modal-btn { padding: 12px 24px; border: none; border-radius: 12px; cursor: pointer; font-family: var(--font-heading); font-weight: 500; transition: opacity 0.2s; font-size: 1rem; }
                     .modal-btn.cancel { background: var(--bg-tertiary); color: var(--text-primary); }
@@ -1617,6 +3772,27 @@ const App = () => {
                     .quiz-option-btn.correct { background-color: var(--correct-color); color: white; border-color: var(--correct-color); }
                     .quiz-option-btn.incorrect { background-color: var(--incorrect-color); color: white; border-color: var(--incorrect-color); }
                     .quiz-option-btn:disabled { cursor: not-allowed; opacity: 0.8; }
+                    .quiz-option-btn.selected { border-color: var(--accent-primary); background: var(--bg-tertiary); box-shadow: inset 0 0 0 1px var(--accent-primary); }
+                    .quiz-options.single-column { grid-template-columns: 1fr; }
+                    .quiz-type-note { font-size: 0.85rem; color: var(--text-secondary); margin-bottom: 6px; }
+                    .level-report { width: 100%; text-align: left; margin-top: 24px; }
+                    .level-report h3 { font-family: var(--font-heading); font-size: 1.2rem; font-weight: 500; margin-bottom: 4px; }
+                    .level-report .mock-section-table { margin-top: 12px; }
+                    .quiz-numeric-answer { display: flex; align-items: center; gap: 12px; margin: 16px 0 16px 48px; max-width: 320px; }
+                    .quiz-numeric-answer .modal-input { border: 1px solid var(--border-color); border-radius: 12px; padding: 12px 14px; background: var(--bg-secondary); }
+                    .quiz-unit { color: var(--text-secondary); font-family: var(--font-heading); white-space: nowrap; }
+                    .quiz-match-rows { display: flex; flex-direction: column; gap: 10px; margin: 16px 0 16px 48px; }
+                    .quiz-match-row { display: flex; align-items: center; gap: 12px; padding: 10px 14px; border: 1px solid var(--border-color); border-radius: 12px; background: var(--bg-secondary); }
+                    .quiz-match-row.correct { border-color: var(--correct-color); }
+                    .quiz-match-row.incorrect { border-color: var(--incorrect-color); }
+                    .quiz-match-left { flex: 1; }
+                    .quiz-match-select { padding: 6px 10px; border-radius: 8px; border: 1px solid var(--border-color); background: var(--bg-primary); color: var(--text-primary); font: inherit; }
+                    .quiz-match-fix { font-size: 0.85rem; color: var(--incorrect-color); }
+                    .quiz-verdict { font-family: var(--font-heading); font-weight: 500; margin-bottom: 12px; }
+                    .quiz-next-btn:disabled { opacity: 0.5; cursor: not-allowed; }
+                    .quiz-type-chips { display: flex; flex-wrap: wrap; gap: 8px; }
+                    .quiz-type-chip { padding: 6px 12px; border-radius: 16px; border: 1px solid var(--border-color); background: var(--bg-secondary); color: var(--text-secondary); font: inherit; font-size: 0.85rem; cursor: pointer; transition: all 0.2s ease-out; }
+                    .quiz-type-chip.active { border-color: var(--accent-primary); color: var(--text-primary); background: var(--bg-tertiary); }
                     .quiz-feedback-section { margin-left: 48px; margin-top: 16px; animation: fadeIn 0.4s ease-out; }
                     .quiz-explanation { padding: 12px; background: var(--bg-tertiary); border-radius: 8px; font-size: 0.9rem; }
                     .quiz-navigation { margin-top: 16px; display: flex; justify-content: flex-end; }
@@ -1629,6 +3805,57 @@ const App = () => {
                         display: flex; align-items: center; gap: 8px;
                     }
                     
+                    /* Mock Test */
+                    .modal-container.mock-test-container { max-width: 1040px; width: 95%; }
+                    .modal-content.mock-test-dialog { max-height: 92vh; display: flex; flex-direction: column; overflow: hidden; }
+                    .mock-test, .mock-test-report { display: flex; flex-direction: column; min-height: 0; flex-grow: 1; }
+                    .mock-test .quiz-header h3, .mock-test-report .quiz-header h3 { flex-grow: 1; }
+                    .mock-test-timer { font-family: var(--font-heading); font-size: 1.2rem; font-variant-numeric: tabular-nums; padding: 4px 12px; border-radius: 8px; background: var(--bg-tertiary); }
+                    .mock-test-timer.low { color: #fff; background: var(--incorrect-color); }
+                    .mock-test-sections { display: flex; gap: 4px; padding: 8px 24px 0; border-bottom: 1px solid var(--border-color); flex-shrink: 0; overflow-x: auto; }
+                    .mock-test-section-tab { padding: 8px 16px; border: none; border-bottom: 2px solid transparent; background: none; color: var(--text-secondary); font-family: var(--font-heading); font-size: 0.95rem; cursor: pointer; white-space: nowrap; }
+                    .mock-test-section-tab.active { color: var(--text-primary); border-bottom-color: var(--accent-primary); }
+                    .mock-test-body { display: grid; grid-template-columns: 1fr 240px; min-height: 0; flex-grow: 1; }
+                    .mock-test-question { overflow-y: auto; padding: 20px 24px; }
+                    .mock-test-question-meta { display: flex; justify-content: space-between; gap: 12px; font-size: 0.85rem; color: var(--text-secondary); margin-bottom: 12px; }
+                    .mock-test-question-text { font-family: var(--font-heading); font-size: 1.1rem; }
+                    .mock-test .quiz-options, .mock-test .quiz-numeric-answer, .mock-test .quiz-match-rows, .mock-review-item .quiz-options, .mock-review-item .quiz-numeric-answer, .mock-review-item .quiz-match-rows { margin-left: 0; }
+                    .mock-test-actions { display: flex; flex-wrap: wrap; gap: 8px; justify-content: flex-end; margin-top: 16px; }
+                    .mock-test .modal-btn { padding: 8px 16px; font-size: 0.9rem; }
+                    .mock-test-palette { border-left: 1px solid var(--border-color); padding: 20px 16px; overflow-y: auto; }
+                    .palette-grid { display: grid; grid-template-columns: repeat(5, 1fr); gap: 8px; margin-bottom: 16px; }
+                    .palette-btn, .palette-swatch { display: inline-flex; align-items: center; justify-content: center; border-radius: 8px; border: 1px solid var(--border-color); background: var(--bg-secondary); color: var(--text-primary); font-family: var(--font-heading); }
+                    .palette-btn { height: 36px; cursor: pointer; font-size: 0.9rem; }
+                    .palette-btn.current { box-shadow: 0 0 0 2px var(--accent-primary); }
+                    .palette-swatch { min-width: 24px; height: 24px; font-size: 0.75rem; flex-shrink: 0; }
+                    .palette-not-answered { background: var(--incorrect-color); border-color: var(--incorrect-color); color: #fff; }
+                    .palette-answered { background: var(--correct-color); border-color: var(--correct-color); color: #fff; }
+                    .palette-marked { background: #7c3aed; border-color: #7c3aed; color: #fff; border-radius: 50%; }
+                    .palette-answered-marked { background: #7c3aed; border-color: var(--correct-color); border-width: 3px; color: #fff; border-radius: 50%; }
+                    .palette-legend { list-style: none; display: flex; flex-direction: column; gap: 8px; font-size: 0.8rem; color: var(--text-secondary); }
+                    .palette-legend li { display: flex; align-items: center; gap: 8px; }
+                    .mock-test-summary { font-size: 0.85rem; color: var(--text-secondary); background: var(--bg-secondary); border-radius: 12px; padding: 12px 16px; margin-bottom: 20px; display: flex; flex-direction: column; gap: 4px; }
+                    .mock-test-note { color: var(--incorrect-color); margin-bottom: 16px; }
+                    .mock-test-report .score-summary-grid { grid-template-columns: repeat(4, 1fr); }
+                    .mock-test-report .stat-value { font-size: 1.5rem; }
+                    .mock-rate-bars { display: flex; flex-direction: column; gap: 12px; margin-bottom: 24px; }
+                    .mock-rate-label { display: flex; justify-content: space-between; font-size: 0.9rem; margin-bottom: 6px; }
+                    .mock-rate-label span { color: var(--text-secondary); }
+                    .mock-rate-bar .progress-track { width: 100%; height: 8px; background: var(--bg-tertiary); border-radius: 4px; overflow: hidden; }
+                    .mock-rate-bar .progress-fill { height: 100%; background: var(--gemini-gradient); border-radius: 4px; }
+                    .mock-section-table { width: 100%; border-collapse: collapse; font-size: 0.9rem; margin-bottom: 16px; }
+                    .mock-section-table th, .mock-section-table td { padding: 8px 10px; border-bottom: 1px solid var(--border-color); text-align: left; }
+                    .mock-section-table th { color: var(--text-secondary); font-weight: 500; font-family: var(--font-heading); }
+                    .mock-review-section { margin-bottom: 16px; }
+                    .mock-review-section summary { cursor: pointer; font-family: var(--font-heading); font-size: 1.1rem; font-weight: 500; margin-bottom: 12px; }
+                    .mock-review-item { border-left: 4px solid var(--border-color); }
+                    .mock-review-item.outcome-correct { border-left-color: var(--correct-color); }
+                    .mock-review-item.outcome-partial { border-left-color: var(--accent-primary); }
+                    .mock-review-item.outcome-incorrect { border-left-color: var(--incorrect-color); }
+                    .mock-review-meta { display: flex; justify-content: space-between; font-size: 0.85rem; color: var(--text-secondary); margin-bottom: 8px; }
+                    .mock-review-item .quiz-explanation { margin-top: 12px; }
+                    .mock-test-review-btn { margin-top: 12px; }
+
                     /* Quiz Results */
                     .quiz-results-view { flex-grow: 1; display: flex; flex-direction: column; align-items: center; text-align: center; animation: fadeIn 0.5s ease-out; padding-top: 16px; }
                     .results-title { font-family: var(--font-heading); font-size: 2.5rem; margin-bottom: 24px; font-weight: 700; }
@@ -1733,8 +3960,11 @@ const App = () => {
                         .chat-welcome-screen h1 { font-size: 3rem; }
                         .title-main { font-size: 3.5rem; }
                         .scroll-to-top-btn { right: 20px; bottom: 20px; }
-                        .quiz-options { grid-template-columns: 1fr; margin-left: 0; }
+                        .quiz-options, .quiz-numeric-answer, .quiz-match-rows { grid-template-columns: 1fr; margin-left: 0; }
                         .quiz-explanation, .quiz-feedback-section { margin-left: 0; }
+                        .mock-test-body { grid-template-columns: 1fr; }
+                        .mock-test-palette { border-left: none; border-top: 1px solid var(--border-color); }
+                        .mock-test-report .score-summary-grid { grid-template-columns: repeat(2, 1fr); }
                         .role-user .message-content { font-size: 1rem; }
                         .role-model .message-content { font-size: 0.95rem; }
                     }
@@ -1750,6 +3980,31 @@ const App = () => {
                         setNumQuestions={setQuizNumQuestions}
                         difficulty={quizDifficulty}
                         setDifficulty={setQuizDifficulty}
+                        types={quizTypes}
+                        setTypes={setQuizTypes}
+                        adaptive={quizAdaptive}
+                        setAdaptive={setQuizAdaptive}
+                    />}
+
+                    {showMockTestModal && selectedClass && <MockTestModal
+                        classNum={selectedClass}
+                        onStart={handleStartMockTest}
+                        onCancel={() => setShowMockTestModal(false)}
+                    />}
+
+                    {showSolveModal && <SolveWithMeModal
+                        onStart={handleStartSolve}
+                        onCancel={() => setShowSolveModal(false)}
+                    />}
+                    {showCheckWorkModal && <CheckWorkModal
+                        onSubmit={handleCheckWork}
+                        onCancel={() => setShowCheckWorkModal(false)}
+                    />}
+                    {showBackupModal && selectedClass && <BackupModal
+                        classNum={selectedClass}
+                        activeChatId={activeChatId}
+                        onImported={handleChatsImported}
+                        onClose={() => setShowBackupModal(false)}
                     />}
 
                     {isQuizModeActive && (
@@ -1765,14 +4020,21 @@ const App = () => {
                                     <div className="quiz-content">
                                         {quizStage === 'question' && quizQuestions.length > 0 && (
                                             <>
-                                                <QuizProgressBar current={currentQuestionIndex + 1} total={quizQuestions.length} />
-                                                <QuizView 
-                                                    question={quizQuestions[currentQuestionIndex]}
-                                                    onAnswerSelect={handleAnswerSelect}
-                                                    selectedAnswer={selectedAnswer}
-                                                    onNextQuestion={handleNextQuestion}
-                                                    isLastQuestion={currentQuestionIndex === quizQuestions.length - 1}
+                                                <QuizProgressBar
+                                                    current={currentQuestionIndex + 1}
+                                                    total={quizLevels ? ADAPTIVE_MAX_QUESTIONS : quizQuestions.length}
+                                                    level={quizLevels?.[currentQuestionIndex]}
                                                 />
+                                                {isQuizBatchLoading
+                                                    ? <p className="quiz-type-note">Choosing your next questions...</p>
+                                                    : <QuizView 
+                                                        key={currentQuestionIndex}
+                                                        question={quizQuestions[currentQuestionIndex]}
+                                                        onAnswerSelect={handleAnswerSelect}
+                                                        selectedAnswer={selectedAnswer}
+                                                        onNextQuestion={handleNextQuestion}
+                                                        isLastQuestion={isQuizOnLastQuestion}
+                                                    />}
                                             </>
                                         )}
                                         {quizStage === 'results' && (
@@ -1784,8 +4046,10 @@ const App = () => {
                                                     setShowQuizModal(true); 
                                                 }}
                                                 onFinish={handleFinishQuiz}
+                                                onRetakeWrong={quizAttemptId ? handleRetakeWrongAnswers : undefined}
                                                 questions={quizQuestions}
                                                 userAnswers={userAnswers}
+                                                levelResponses={adaptiveQuizResponses ?? undefined}
                                             />
                                         )}
                                     </div>
@@ -1795,6 +4059,40 @@ const App = () => {
                     )}
 
 
+                    {mockTestPaper && (
+                        <div className="modal-overlay">
+                            <div className="modal-container mock-test-container">
+                                <div className="modal-content quiz-dialog mock-test-dialog">
+                                    <MockTestView paper={mockTestPaper} onSubmit={handleSubmitMockTest} onExit={() => setMockTestPaper(null)} />
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
+                    {reviewedQuizAttempt && (
+                        <div className="modal-overlay">
+                            <div className="modal-container" style={{maxWidth: '700px'}}>
+                                <div className="modal-content quiz-dialog">
+                                    <QuizAttemptReview
+                                        attempt={reviewedQuizAttempt}
+                                        onClose={() => setReviewedQuizAttempt(null)}
+                                        onRetake={(wrongOnly) => handleRetakeQuiz(reviewedQuizAttempt, wrongOnly)}
+                                    />
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
+                    {reviewedMockTest && (
+                        <div className="modal-overlay">
+                            <div className="modal-container mock-test-container">
+                                <div className="modal-content quiz-dialog mock-test-dialog">
+                                    <MockTestReportView test={reviewedMockTest} onClose={() => setReviewedMockTest(null)} />
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
                     <div className={`sidebar ${isSidebarOpen ? 'open' : ''} ${isSidebarCollapsed ? 'collapsed' : ''}`}>
                         <div className="sidebar-header">
                             <button className="logo-container" onClick={() => { setSelectedClass(null); setSidebarOpen(false); }} aria-label="Go to Class Selection">
@@ -1817,11 +4115,24 @@ const App = () => {
                             <button className="sidebar-btn" onClick={() => handleNewChat()} disabled={!selectedClass}>
                                 <Icon path="M12 5v14m-7-7h14" size={16} /> <span>New Chat</span>
                             </button>
+                            <div className="sidebar-search">
+                                <Icon path="M21 21l-4.35-4.35M11 18a7 7 0 100-14 7 7 0 000 14z" size={16} />
+                                <input
+                                    type="search"
+                                    className="sidebar-search-input"
+                                    placeholder="Search all chats"
+                                    value={searchQuery}
+                                    onChange={(e) => setSearchQuery(e.target.value)}
+                                    aria-label="Search all chats"
+                                />
+                            </div>
                             <div className="chat-history-container">
-                                {sortedChatsForClass.map((chat) => (
+                                {searchQuery.trim() ? (
+                                    <SearchResultsList results={searchResults} query={searchQuery} isSearching={isSearching} onOpen={handleOpenSearchResult} />
+                                ) : sortedChatsForClass.map((chat) => (
                                     <div key={chat.id} className={`history-item ${chat.id === activeChatId ? 'active' : ''} ${chat.isPinned ? 'pinned' : ''}`} onClick={() => handleSelectChat(chat.id)}>
                                         <div className="history-item-title">
-                                            <span>{chat.title || chat.messages[0]?.text.substring(0, 25) || 'New Chat...'}</span>
+                                            <span>{chat.title || chat.preview?.substring(0, 25) || 'New Chat...'}</span>
                                             {generatingTitleChatId === chat.id && <div className="title-loader"></div>}
                                         </div>
                                         <div className="history-item-controls">
@@ -1847,9 +4158,21 @@ const App = () => {
                             <button className="sidebar-btn sidebar-btn--utility" onClick={() => setShowQuizModal(true)} disabled={!selectedClass || isLoading}>
                                 <Icon path="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" size={16} /> <span>Start Quiz</span>
                             </button>
+                            <button className="sidebar-btn sidebar-btn--utility" onClick={() => setShowMockTestModal(true)} disabled={!selectedClass || !activeChatId || isLoading}>
+                                <Icon path="M12 6v6l4 2M12 22a10 10 0 100-20 10 10 0 000 20z" size={16} /> <span>Mock Test</span>
+                            </button>
+                            <button className="sidebar-btn sidebar-btn--utility" onClick={() => setShowSolveModal(true)} disabled={!selectedClass || !activeChatId || isLoading}>
+                                <Icon path="M9 18h6M10 22h4M12 2a7 7 0 00-4 12.74V17h8v-2.26A7 7 0 0012 2z" size={16} /> <span>Solve With Me</span>
+                            </button>
+                            <button className="sidebar-btn sidebar-btn--utility" onClick={() => setShowCheckWorkModal(true)} disabled={!selectedClass || !activeChatId || isLoading}>
+                                <Icon path="M9 11l3 3L22 4M21 12v7a2 2 0 01-2 2H5a2 2 0 01-2-2V5a2 2 0 012-2h11" size={16} /> <span>Check My Work</span>
+                            </button>
                             <button className="sidebar-btn sidebar-btn--utility" onClick={handleSummarizeChat} disabled={!currentChat || currentMessages.length < 2 || isLoading}>
                                 <Icon path="M3 6h18M3 12h18M3 18h18" size={16} /> <span>Summarize Chat</span>
                             </button>
+                            <button className="sidebar-btn sidebar-btn--utility" onClick={() => setShowBackupModal(true)} disabled={!selectedClass || isLoading}>
+                                <Icon path="M12 3v12m0 0l-4-4m4 4l4-4M4 17v2a2 2 0 002 2h12a2 2 0 002-2v-2" size={16} /> <span>Export / Import</span>
+                            </button>
                             <button className="sidebar-btn sidebar-btn--utility" onClick={() => { setSelectedClass(null); setSidebarOpen(false); }} disabled={!selectedClass}>
                             <Icon path="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" size={16} /> <span>Change Class</span>
                             </button>
@@ -1886,15 +4209,34 @@ const App = () => {
                                             onSendMessage={handleSendMessage} 
                                         />
                                     ) : (
-                                        currentMessages.map((msg, index) => (
-                                            <Message 
-                                                key={index}
-                                                msgIndex={index}
-                                                msg={msg} 
-                                                isLastMessage={index === currentMessages.length - 1}
-                                                isLoading={isLoading}
-                                            />
-                                        ))
+                                        currentMessages.map((msg, index) => {
+                                            const versions = getSiblings(chatTree, msg);
+                                            // Markings, hint sessions and quizzes come from their own routes, so asking the chat again would not redo them.
+                                            const canRegenerate = msg.role === 'model' && !msg.grade && !msg.hintSessionId && !msg.quizAttemptId && currentMessages[index - 1]?.role === 'user';
+                                            const contextSummary = currentChat?.contextSummary;
+                                            return (
+                                                <React.Fragment key={msg.id}>
+                                                    <Message 
+                                                        msgIndex={index}
+                                                        msg={msg} 
+                                                        isLastMessage={index === currentMessages.length - 1}
+                                                        isLoading={isLoading}
+                                                        versions={{ index: versions.indexOf(msg), count: versions.length }}
+                                                        onSwitchVersion={(delta) => handleSwitchVersion(index, delta)}
+                                                        onEdit={msg.role === 'user' ? (text) => handleEditMessage(index, text) : undefined}
+                                                        onRegenerate={canRegenerate ? () => handleRegenerate(index) : undefined}
+                                                        onFork={msg.role === 'model' ? () => handleForkBranch(index) : undefined}
+                                                        classId={toClassId(selectedClass)}
+                                                        onHintSessionChange={msg.hintSessionId ? (session) => handleHintSessionChange(msg.id, session) : undefined}
+                                                        onReviewMockTest={msg.mockTestId ? () => handleReviewMockTest(msg.mockTestId!) : undefined}
+                                                        onReviewQuiz={msg.quizAttemptId ? () => handleReviewQuizAttempt(msg.quizAttemptId!) : undefined}
+                                                    />
+                                                    {contextSummary?.throughMessageId === msg.id && (
+                                                        <CondensedContextNotice summary={contextSummary} messageCount={index + 1} />
+                                                    )}
+                                                </React.Fragment>
+                                            );
+                                        })
                                     )}
                                 </div>
                             )}
@@ -1914,31 +4256,38 @@ const App = () => {
 
                         {selectedClass !== null && !isQuizModeActive && (
                             <div className="input-area-container">
-                                <div className="input-area">
-                                <div className="input-options">
-                                        {image && (
-                                            <div className="image-preview">
-                                                <img src={image.preview} alt="Selected preview" />
-                                                <button onClick={() => { setImage(null); if(fileInputRef.current) fileInputRef.current.value = ''; }} className="remove-image-btn">×</button>
+                                <div className="input-area" onDragOver={(e) => e.preventDefault()} onDrop={handleFileDrop}>
+                                {pendingFiles.length > 0 && (
+                                    <div className="attachment-chips">
+                                        {pendingFiles.map((pending, index) => (
+                                            <div key={`${pending.file.name}-${index}`} className="attachment-chip">
+                                                {pending.preview ? <img src={pending.preview} alt="" className="attachment-thumbnail" /> : <Icon path={fileIconPath} size={16} />}
+                                                <span className="attachment-name">{pending.file.name}</span>
+                                                <span className="attachment-size">{formatBytes(pending.file.size)}</span>
+                                                <button type="button" className="remove-attachment-btn" onClick={() => handleRemovePendingFile(index)} aria-label={`Remove ${pending.file.name}`}>×</button>
                                             </div>
-                                        )}
-                                        <label className={`search-toggle ${image ? 'disabled' : ''}`} title={image ? "Search is disabled when an image is attached" : "Toggle web search"}>
+                                        ))}
+                                    </div>
+                                )}
+                                {attachmentError && <div className="attachment-error" role="alert">{attachmentError}</div>}
+                                <div className="input-options">
+                                        <label className={`search-toggle ${pendingFiles.length > 0 ? 'disabled' : ''}`} title={pendingFiles.length > 0 ? "Search is disabled when files are attached" : "Toggle web search"}>
                                             <div className="switch">
-                                                <input type="checkbox" checked={isGoogleSearchEnabled} onChange={() => setGoogleSearchEnabled(p => !p)} disabled={!!image} />
+                                                <input type="checkbox" checked={isGoogleSearchEnabled} onChange={() => setGoogleSearchEnabled(p => !p)} disabled={pendingFiles.length > 0} />
                                                 <span className="slider"></span>
                                             </div>
                                             <span>Search the web</span>
                                         </label>
                                 </div>
                                     <form className="input-form" onSubmit={(e) => { e.preventDefault(); handleSendMessage(input); }}>
-                                        <input type="file" ref={fileInputRef} onChange={handleImageChange} accept="image/*" style={{ display: 'none' }} />
-                                        <button type="button" className="input-btn upload-btn" onClick={() => fileInputRef.current?.click()} aria-label="Upload image" disabled={isLoading}>
+                                        <input type="file" ref={fileInputRef} onChange={handleFileChange} accept={ATTACHMENT_ACCEPT} multiple style={{ display: 'none' }} />
+                                        <button type="button" className="input-btn upload-btn" onClick={() => fileInputRef.current?.click()} aria-label="Attach files" title="Attach images, PDFs or text files" disabled={isLoading}>
                                             <Icon path="M21.44 11.05l-9.19 9.19a6 6 0 0 1-8.49-8.49l9.19-9.19a4 4 0 0 1 5.66 5.66l-9.2 9.19a2 2 0 0 1-2.83-2.83l8.49-8.49" />
                                         </button>
                                         <input
                                             type="text"
                                             className="chat-input"
-                                            placeholder={isLoading ? "Generating response..." : (isRecording ? "Listening..." : (image ? "Describe the image or ask a question..." : "Ask me anything..."))}
+                                            placeholder={isLoading ? "Generating response..." : (isRecording ? "Listening..." : (pendingFiles.length > 0 ? "Ask about the attached files..." : "Ask me anything..."))}
                                             value={input}
                                             onChange={(e) => setInput(e.target.value)}
                                             disabled={isLoading}
@@ -1953,7 +4302,7 @@ const App = () => {
                                                 <button type="button" className={`input-btn voice-btn ${isRecording ? 'recording' : ''}`} onClick={handleVoiceInput} aria-label="Use voice input">
                                                     <Icon path="M12 1a3 3 0 0 0-3 3v8a3 3 0 0 0 6 0V4a3 3 0 0 0-3-3zM19 10v2a7 7 0 0 1-14 0v-2" />
                                                 </button>
-                                                <button type="submit" className="input-btn send-btn" disabled={!input.trim() && !image}>
+                                                <button type="submit" className="input-btn send-btn" disabled={!input.trim() && pendingFiles.length === 0}>
                                                     <Icon path="M5 12h14m-7-7l7 7-7 7" />
                                                 </button>
                                             </>
@@ -0,0 +1,67 @@
+import type { Part } from "@google/genai";
+import type { AttachmentPayload } from '../../types';
+import { MAX_ATTACHMENTS_PER_MESSAGE, MAX_CONTEXT_ATTACHMENTS, MAX_REQUEST_ATTACHMENT_BYTES, base64Bytes, checkAttachment, formatBytes } from '../../utils/attachments';
+import { isRecord } from './body';
+
+// Files sent with a chat question. The client checks them when they are picked; these checks
+// repeat that for whatever actually arrives.
+
+export interface ParsedAttachments {
+    // Attached to the question being asked.
+    current: Part[];
+    // Attached to earlier questions in the chat, sent again so the tutor can still refer to them.
+    earlier: Part[];
+}
+
+const BASE64 = /^[A-Za-z0-9+/]*={0,2}$/;
+
+const isPayload = (item: unknown): item is AttachmentPayload => isRecord(item)
+    && typeof item.name === 'string' && typeof item.mimeType === 'string' && typeof item.data === 'string' && BASE64.test(item.data);
+
+// Returns a message for the client when a file is malformed or breaks a per-file limit.
+export const checkPayload = (item: unknown, field: string): string | undefined => {
+    if (!isPayload(item)) {
+        return `Each file in ${field} needs a name, a mimeType and base64 data.`;
+    }
+    return checkAttachment({ name: item.name, mimeType: item.mimeType, size: base64Bytes(item.data) });
+};
+
+const parseList = (value: unknown, field: string): AttachmentPayload[] | { error: string } => {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) return { error: `${field} must be an array.` };
+    for (const item of value) {
+        const problem = checkPayload(item, field);
+        if (problem) return { error: problem };
+    }
+    return value.filter(isPayload);
+};
+
+// Labels each file so the model can tell which name a document had and when it was attached.
+const toParts = (files: AttachmentPayload[], label: string): Part[] => files.flatMap(file => [
+    { text: `[${label}: ${file.name}]` },
+    { inlineData: { mimeType: file.mimeType, data: file.data } },
+]);
+
+export const parseAttachments = (body: unknown): ParsedAttachments | { error: string } => {
+    const fields = isRecord(body) ? body : {};
+    const current = parseList(fields.attachments, 'attachments');
+    if ('error' in current) return current;
+    const earlier = parseList(fields.contextAttachments, 'contextAttachments');
+    if ('error' in earlier) return earlier;
+
+    if (current.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+        return { error: `At most ${MAX_ATTACHMENTS_PER_MESSAGE} files can be attached to a message.` };
+    }
+    if (earlier.length > MAX_CONTEXT_ATTACHMENTS) {
+        return { error: `At most ${MAX_CONTEXT_ATTACHMENTS} earlier files can be sent with a question.` };
+    }
+    const totalBytes = [...current, ...earlier].reduce((total, file) => total + base64Bytes(file.data), 0);
+    if (totalBytes > MAX_REQUEST_ATTACHMENT_BYTES) {
+        return { error: `Attached files can total at most ${formatBytes(MAX_REQUEST_ATTACHMENT_BYTES)} per question.` };
+    }
+
+    return {
+        current: toParts(current, 'Attached with this question'),
+        earlier: toParts(earlier, 'Attached earlier in this chat'),
+    };
+};
@@ -0,0 +1,3 @@
+// Request bodies are parsed JSON of any shape. Routes narrow them with this before reading a field.
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
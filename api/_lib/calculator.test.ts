@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { calculate } from './calculator';
+
+describe('calculate', () => {
+    it.each([
+        ['0.1 + 0.2', { result: '0.3', exact: true }],
+        ['1/3', { result: '1/3', decimal: '0.333333333333', exact: true }],
+        ['2^100', { result: '1267650600228229401496703205376', exact: true }],
+        ['2^-3', { result: '0.125', exact: true }],
+        ['2.5e-3 * 4', { result: '0.01', exact: true }],
+        ['-(3 - 5)^2', { result: '-4', exact: true }],
+        ['1 - 1', { result: '0', exact: true }],
+        ['abs(-7/2)', { result: '3.5', exact: true }],
+        ['sqrt(2)', { result: '1.41421356237', exact: false }],
+    ])('works out %s', (expression, expected) => {
+        expect(calculate(expression)).toEqual(expected);
+    });
+
+    it.each([
+        ['sin(30)', '0.5'],
+        ['cos(60)', '0.5'],
+        ['asin(1)', '90'],
+    ])('works out %s in degrees', (expression, result) => {
+        expect(calculate(expression, 'degrees')).toEqual({ result, exact: false });
+    });
+
+    it.each([
+        ['1/0', 'Division by zero.'],
+        ['1/(2 - 2)', 'Division by zero.'],
+        ['0^-1', 'Division by zero.'],
+        ['0^-2.5', 'Division by zero.'],
+        ['(10^200)^-1000', 'too small to show'],
+        ['0.5^2000', 'too small to show'],
+        ['10^-400', 'too small to show'],
+        ['(10^200)^1000', 'too large to show'],
+        ['1/(10^200)^1000', 'too large to show'],
+        ['0 * 10^400', 'too large to show'],
+        ['sqrt(-1)', 'not a real number'],
+        ['(-8)^(1/3)', 'not a real number'],
+        ['2x', 'Unknown name "x"'],
+    ])('refuses %s', (expression, message) => {
+        expect(() => calculate(expression)).toThrow(message);
+    });
+});
@@ -0,0 +1,173 @@
+import { FUNCTIONS, CONSTANTS, parseExpression, type ExpressionNode } from '../../utils/expression';
+
+// The calculate tool. Arithmetic on numbers the student wrote stays exact: 0.1 + 0.2 is 3/10,
+// not 0.30000000000000004, and 2^100 keeps every digit. Anything involving pi, e or a function
+// such as sin or sqrt falls back to floating point and is reported as approximate.
+
+type Rational = { n: bigint; d: bigint };
+
+// Each value carries its floating-point approximation, and the exact fraction while there is one.
+type Value = { approx: number; exact?: Rational };
+
+export type AngleUnit = 'radians' | 'degrees';
+
+export interface CalculationResult {
+    result: string;
+    // The value as a decimal, when result is a fraction that has no exact decimal form.
+    decimal?: string;
+    exact: boolean;
+}
+
+// Beyond this, exact results stop being readable and cost more than they are worth.
+const MAX_EXACT_DIGITS = 200;
+const MAX_EXACT_EXPONENT = 1000;
+const SIGNIFICANT_DIGITS = 12;
+
+const TRIG = ['sin', 'cos', 'tan'];
+const INVERSE_TRIG = ['asin', 'acos', 'atan'];
+
+const abs = (a: bigint) => (a < 0n ? -a : a);
+
+const gcd = (a: bigint, b: bigint): bigint => {
+    a = abs(a);
+    b = abs(b);
+    while (b) [a, b] = [b, a % b];
+    return a;
+};
+
+const makeRational = (n: bigint, d: bigint): Rational | undefined => {
+    if (d < 0n) [n, d] = [-n, -d];
+    const divisor = gcd(n, d) || 1n;
+    n /= divisor;
+    d /= divisor;
+    if (n.toString().length > MAX_EXACT_DIGITS || d.toString().length > MAX_EXACT_DIGITS) return undefined;
+    return { n, d };
+};
+
+const toNumber = ({ n, d }: Rational) => Number(n) / Number(d);
+
+// "2.5e-3" is 25/10000 exactly.
+const parseDecimal = (text: string): Rational | undefined => {
+    const match = /^(\d*)\.?(\d*)(?:[eE]([+-]?\d+))?$/.exec(text);
+    if (!match) return undefined;
+    const [, whole, fraction, exponentText] = match;
+    const exponent = Number(exponentText ?? 0) - fraction.length;
+    if (Math.abs(exponent) > MAX_EXACT_DIGITS) return undefined;
+    const digits = BigInt(`${whole}${fraction}` || '0');
+    return exponent >= 0 ? makeRational(digits * 10n ** BigInt(exponent), 1n) : makeRational(digits, 10n ** BigInt(-exponent));
+};
+
+const power = (base: Rational, exponent: Rational): Rational | undefined => {
+    if (exponent.d !== 1n || abs(exponent.n) > MAX_EXACT_EXPONENT) return undefined;
+    const e = exponent.n;
+    if (e < 0n) {
+        if (base.n === 0n) return undefined;
+        return makeRational(base.d ** -e, base.n ** -e);
+    }
+    // Checked before raising, so a huge power never builds a huge bigint.
+    if (base.n.toString().length * Number(e) > MAX_EXACT_DIGITS * 2 || base.d.toString().length * Number(e) > MAX_EXACT_DIGITS * 2) return undefined;
+    return makeRational(base.n ** e, base.d ** e);
+};
+
+const binaryExact = (operator: string, a: Rational, b: Rational): Rational | undefined => {
+    switch (operator) {
+        case '+': return makeRational(a.n * b.d + b.n * a.d, a.d * b.d);
+        case '-': return makeRational(a.n * b.d - b.n * a.d, a.d * b.d);
+        case '*': return makeRational(a.n * b.n, a.d * b.d);
+        case '/': return b.n === 0n ? undefined : makeRational(a.n * b.d, a.d * b.n);
+        default: return power(a, b);
+    }
+};
+
+const binaryApprox = (operator: string, a: number, b: number) => {
+    switch (operator) {
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return a / b;
+        default: return Math.pow(a, b);
+    }
+};
+
+const callFunction = (name: string, args: Value[], angleUnit: AngleUnit): Value => {
+    const values = args.map(arg => arg.approx);
+    const exactArgs = args.map(arg => arg.exact);
+    if (exactArgs.every(Boolean)) {
+        const exact = exactArgs as Rational[];
+        if (name === 'abs') return { approx: Math.abs(values[0]), exact: { n: abs(exact[0].n), d: exact[0].d } };
+        if (name === 'min' || name === 'max') {
+            const index = values.indexOf(name === 'min' ? Math.min(...values) : Math.max(...values));
+            return args[index];
+        }
+    }
+    const toRadians = angleUnit === 'degrees' ? Math.PI / 180 : 1;
+    if (TRIG.includes(name)) return { approx: FUNCTIONS[name](values[0] * toRadians) };
+    if (INVERSE_TRIG.includes(name)) return { approx: FUNCTIONS[name](...values) / toRadians };
+    return { approx: FUNCTIONS[name](...values) };
+};
+
+// Checked on every operand as well as the result, so an overflow part-way through cannot turn
+// into a plausible answer, as in 1/(10^200)^1000, which floating point gives as 0.
+const checkRange = (value: Value) => {
+    if (Number.isNaN(value.approx)) throw new Error('A value in the calculation is not a real number.');
+    if (!Number.isFinite(value.approx) && !value.exact) throw new Error('A value in the calculation is too large to show.');
+    return value;
+};
+
+const evaluate = (node: ExpressionNode, angleUnit: AngleUnit): Value => {
+    switch (node.kind) {
+        case 'number': return { approx: node.value, exact: parseDecimal(node.text) };
+        case 'constant': return { approx: CONSTANTS[node.name] };
+        case 'variable': throw new Error(`"${node.name}" has no value. Put numbers in place of variables.`);
+        case 'negate': {
+            const { approx, exact } = evaluate(node.operand, angleUnit);
+            return { approx: -approx, exact: exact && { n: -exact.n, d: exact.d } };
+        }
+        case 'binary': {
+            const a = checkRange(evaluate(node.left, angleUnit));
+            const b = checkRange(evaluate(node.right, angleUnit));
+            // 0^-1 is 1/0, which Math.pow would give as Infinity.
+            if ((node.operator === '/' && b.approx === 0) || (node.operator === '^' && a.approx === 0 && b.approx < 0)) {
+                throw new Error('Division by zero.');
+            }
+            const exact = a.exact && b.exact ? binaryExact(node.operator, a.exact, b.exact) : undefined;
+            const approx = exact ? toNumber(exact) : binaryApprox(node.operator, a.approx, b.approx);
+            // A product, quotient or power of non-zero numbers is never 0, so 0 here means it was
+            // too small for floating point, as in (10^200)^-1000. Reporting it as 0 would be wrong.
+            if (approx === 0 && a.approx !== 0 && (node.operator === '*' ? b.approx !== 0 : node.operator === '/' || node.operator === '^')) {
+                throw new Error('A value in the calculation is too small to show. It would round to 0.');
+            }
+            return { approx, exact };
+        }
+        case 'call': return callFunction(node.name, node.args.map(arg => evaluate(arg, angleUnit)), angleUnit);
+    }
+};
+
+// 12 significant figures hides floating-point noise such as sin(30°) = 0.49999999999999994.
+const formatApprox = (value: number) => {
+    const text = value.toPrecision(SIGNIFICANT_DIGITS);
+    return text.includes('e') ? text.replace(/\.?0+e/, 'e') : text.replace(/(\.\d*?)0+$/, '$1').replace(/\.$/, '');
+};
+
+// A fraction whose denominator has no factors but 2 and 5 has a terminating decimal.
+const exactDecimal = ({ n, d }: Rational): string | undefined => {
+    let twos = 0, fives = 0, rest = d;
+    while (rest % 2n === 0n) { rest /= 2n; twos++; }
+    while (rest % 5n === 0n) { rest /= 5n; fives++; }
+    if (rest !== 1n) return undefined;
+    const places = Math.max(twos, fives);
+    const scaled = abs(n) * 10n ** BigInt(places) / d;
+    const digits = scaled.toString().padStart(places + 1, '0');
+    const text = places ? `${digits.slice(0, -places)}.${digits.slice(-places)}` : digits;
+    return `${n < 0n ? '-' : ''}${text}`;
+};
+
+export const calculate = (expression: string, angleUnit: AngleUnit = 'radians'): CalculationResult => {
+    const { approx, exact } = checkRange(evaluate(parseExpression(expression, []), angleUnit));
+    if (exact) {
+        const decimal = exactDecimal(exact);
+        if (decimal) return { result: decimal, exact: true };
+        return { result: `${exact.n}/${exact.d}`, decimal: formatApprox(approx), exact: true };
+    }
+    return { result: formatApprox(approx), exact: false };
+};
@@ -0,0 +1,16 @@
+import type { VercelResponse } from '@vercel/node';
+import type { ChatStreamEvent } from '../../types';
+
+// /api/chat answers with newline-delimited JSON: one ChatStreamEvent per line.
+// A well-formed stream always ends with either a 'finish' or an 'error' event, so the
+// client can tell a complete answer from one that was cut off.
+
+export const startEventStream = (res: VercelResponse) => {
+    res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+};
+
+export const writeEvent = (res: VercelResponse, event: ChatStreamEvent) => {
+    res.write(`${JSON.stringify(event)}\n`);
+};
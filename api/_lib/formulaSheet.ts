@@ -0,0 +1,228 @@
+import type { ClassId } from './prompts';
+
+// The get_formula_sheet tool: the standard results of each class's NCERT syllabus, written in the
+// LaTeX the client typesets. Topics build on each other, so a class sees its own sheet plus the
+// sheets of the classes below it that it still relies on.
+
+export interface FormulaTopic {
+    topic: string;
+    subject: 'Mathematics' | 'Physics' | 'Chemistry';
+    formulas: string[];
+}
+
+type SheetId = 'middle' | 'secondary' | 'senior-maths' | 'senior-physics' | 'senior-chemistry';
+
+const SHEETS: Record<SheetId, FormulaTopic[]> = {
+    'middle': [
+        { topic: 'Perimeter and area', subject: 'Mathematics', formulas: [
+            'Rectangle: $P = 2(l + b)$, $A = lb$',
+            'Square: $P = 4a$, $A = a^2$',
+            'Triangle: $A = \\frac{1}{2} b h$',
+            'Parallelogram: $A = bh$; trapezium: $A = \\frac{1}{2}(a + b)h$',
+            'Circle: $C = 2\\pi r$, $A = \\pi r^2$',
+        ] },
+        { topic: 'Volume and surface area', subject: 'Mathematics', formulas: [
+            'Cuboid: $V = lbh$, $S = 2(lb + bh + hl)$',
+            'Cube: $V = a^3$, $S = 6a^2$',
+            'Cylinder: $V = \\pi r^2 h$, $S = 2\\pi r(r + h)$',
+        ] },
+        { topic: 'Percentages and interest', subject: 'Mathematics', formulas: [
+            'Profit % $= \\frac{\\text{profit}}{\\text{CP}} \\times 100$',
+            'Simple interest: $SI = \\frac{PRT}{100}$',
+            'Compound interest: $A = P\\left(1 + \\frac{R}{100}\\right)^n$',
+        ] },
+        { topic: 'Algebraic identities', subject: 'Mathematics', formulas: [
+            '$(a + b)^2 = a^2 + 2ab + b^2$',
+            '$(a - b)^2 = a^2 - 2ab + b^2$',
+            '$(a + b)(a - b) = a^2 - b^2$',
+            '$(x + a)(x + b) = x^2 + (a + b)x + ab$',
+        ] },
+        { topic: 'Motion, force and pressure', subject: 'Physics', formulas: [
+            'Speed $= \\frac{\\text{distance}}{\\text{time}}$',
+            'Pressure: $P = \\frac{F}{A}$',
+        ] },
+    ],
+    'secondary': [
+        { topic: 'Motion', subject: 'Physics', formulas: [
+            '$v = u + at$',
+            '$s = ut + \\frac{1}{2}at^2$',
+            '$v^2 = u^2 + 2as$',
+        ] },
+        { topic: 'Force and laws of motion', subject: 'Physics', formulas: [
+            '$F = ma$; momentum $p = mv$',
+            'Impulse: $F t = m(v - u)$',
+        ] },
+        { topic: 'Gravitation', subject: 'Physics', formulas: [
+            '$F = \\frac{G m_1 m_2}{r^2}$',
+            '$g = \\frac{GM}{R^2}$; weight $W = mg$',
+        ] },
+        { topic: 'Work, energy and power', subject: 'Physics', formulas: [
+            '$W = Fs$; $KE = \\frac{1}{2}mv^2$; $PE = mgh$',
+            '$P = \\frac{W}{t}$',
+        ] },
+        { topic: 'Electricity', subject: 'Physics', formulas: [
+            "Ohm's law: $V = IR$; $R = \\rho \\frac{l}{A}$",
+            'Series: $R = R_1 + R_2 + \\dots$; parallel: $\\frac{1}{R} = \\frac{1}{R_1} + \\frac{1}{R_2} + \\dots$',
+            '$P = VI = I^2 R = \\frac{V^2}{R}$; $H = I^2 R t$',
+        ] },
+        { topic: 'Light', subject: 'Physics', formulas: [
+            'Mirror: $\\frac{1}{v} + \\frac{1}{u} = \\frac{1}{f}$, $m = -\\frac{v}{u}$, $f = \\frac{R}{2}$',
+            'Lens: $\\frac{1}{v} - \\frac{1}{u} = \\frac{1}{f}$, $m = \\frac{v}{u}$, $P = \\frac{1}{f}$ (f in metres)',
+            '$n = \\frac{c}{v} = \\frac{\\sin i}{\\sin r}$',
+        ] },
+        { topic: 'Atoms and moles', subject: 'Chemistry', formulas: [
+            'Moles $n = \\frac{m}{M} = \\frac{N}{N_A}$',
+            '$N_A = 6.022 \\times 10^{23}\\ \\text{mol}^{-1}$',
+        ] },
+        { topic: 'Quadratic equations', subject: 'Mathematics', formulas: [
+            '$x = \\frac{-b \\pm \\sqrt{b^2 - 4ac}}{2a}$; discriminant $D = b^2 - 4ac$',
+            'Sum of roots $= -\\frac{b}{a}$, product $= \\frac{c}{a}$',
+        ] },
+        { topic: 'Arithmetic progressions', subject: 'Mathematics', formulas: [
+            '$a_n = a + (n - 1)d$',
+            '$S_n = \\frac{n}{2}[2a + (n - 1)d] = \\frac{n}{2}(a + l)$',
+        ] },
+        { topic: 'Coordinate geometry', subject: 'Mathematics', formulas: [
+            'Distance: $\\sqrt{(x_2 - x_1)^2 + (y_2 - y_1)^2}$',
+            'Section formula: $\\left(\\frac{m x_2 + n x_1}{m + n}, \\frac{m y_2 + n y_1}{m + n}\\right)$',
+        ] },
+        { topic: 'Trigonometry', subject: 'Mathematics', formulas: [
+            '$\\sin^2\\theta + \\cos^2\\theta = 1$; $1 + \\tan^2\\theta = \\sec^2\\theta$; $1 + \\cot^2\\theta = \\csc^2\\theta$',
+            '$\\sin 30^\\circ = \\frac{1}{2}$, $\\sin 45^\\circ = \\frac{1}{\\sqrt{2}}$, $\\sin 60^\\circ = \\frac{\\sqrt{3}}{2}$',
+        ] },
+        { topic: 'Mensuration', subject: 'Mathematics', formulas: [
+            "Heron's formula: $A = \\sqrt{s(s - a)(s - b)(s - c)}$, $s = \\frac{a + b + c}{2}$",
+            'Cone: $V = \\frac{1}{3}\\pi r^2 h$, curved surface $\\pi r l$',
+            'Sphere: $V = \\frac{4}{3}\\pi r^3$, $S = 4\\pi r^2$',
+            'Sector: $A = \\frac{\\theta}{360^\\circ}\\pi r^2$',
+        ] },
+    ],
+    'senior-maths': [
+        { topic: 'Sequences and series', subject: 'Mathematics', formulas: [
+            'GP: $a_n = ar^{n-1}$, $S_n = \\frac{a(r^n - 1)}{r - 1}$, $S_\\infty = \\frac{a}{1 - r}$ for $|r| < 1$',
+            '$\\sum k = \\frac{n(n+1)}{2}$, $\\sum k^2 = \\frac{n(n+1)(2n+1)}{6}$',
+        ] },
+        { topic: 'Permutations, combinations and binomial theorem', subject: 'Mathematics', formulas: [
+            '${}^nP_r = \\frac{n!}{(n - r)!}$, ${}^nC_r = \\frac{n!}{r!(n - r)!}$',
+            '$(a + b)^n = \\sum_{r=0}^{n} {}^nC_r\\, a^{n-r} b^r$',
+        ] },
+        { topic: 'Trigonometric identities', subject: 'Mathematics', formulas: [
+            '$\\sin(A \\pm B) = \\sin A\\cos B \\pm \\cos A\\sin B$',
+            '$\\cos(A \\pm B) = \\cos A\\cos B \\mp \\sin A\\sin B$',
+            '$\\sin 2A = 2\\sin A\\cos A$, $\\cos 2A = \\cos^2 A - \\sin^2 A$',
+        ] },
+        { topic: 'Limits and derivatives', subject: 'Mathematics', formulas: [
+            '$\\lim_{x \\to 0} \\frac{\\sin x}{x} = 1$',
+            '$\\frac{d}{dx}x^n = nx^{n-1}$, $\\frac{d}{dx}\\sin x = \\cos x$, $\\frac{d}{dx}e^x = e^x$, $\\frac{d}{dx}\\ln x = \\frac{1}{x}$',
+            'Product rule: $(uv)\' = u\'v + uv\'$; chain rule: $\\frac{dy}{dx} = \\frac{dy}{du}\\frac{du}{dx}$',
+        ] },
+        { topic: 'Integrals', subject: 'Mathematics', formulas: [
+            '$\\int x^n\\,dx = \\frac{x^{n+1}}{n + 1} + C$ ($n \\ne -1$), $\\int \\frac{1}{x}\\,dx = \\ln|x| + C$',
+            'By parts: $\\int u\\,dv = uv - \\int v\\,du$',
+            '$\\int_a^b f(x)\\,dx = F(b) - F(a)$',
+        ] },
+        { topic: 'Vectors and 3D geometry', subject: 'Mathematics', formulas: [
+            '$\\vec a \\cdot \\vec b = |\\vec a||\\vec b|\\cos\\theta$, $|\\vec a \\times \\vec b| = |\\vec a||\\vec b|\\sin\\theta$',
+            'Distance of $(x_1, y_1, z_1)$ from $ax + by + cz + d = 0$: $\\frac{|ax_1 + by_1 + cz_1 + d|}{\\sqrt{a^2 + b^2 + c^2}}$',
+        ] },
+        { topic: 'Probability', subject: 'Mathematics', formulas: [
+            '$P(A \\cup B) = P(A) + P(B) - P(A \\cap B)$',
+            '$P(A|B) = \\frac{P(A \\cap B)}{P(B)}$; Bayes: $P(E_i|A) = \\frac{P(E_i)P(A|E_i)}{\\sum_j P(E_j)P(A|E_j)}$',
+            'Binomial: $P(X = r) = {}^nC_r\\, p^r q^{n-r}$',
+        ] },
+    ],
+    'senior-physics': [
+        { topic: 'Kinematics', subject: 'Physics', formulas: [
+            'Projectile: $R = \\frac{u^2 \\sin 2\\theta}{g}$, $H = \\frac{u^2 \\sin^2\\theta}{2g}$, $T = \\frac{2u\\sin\\theta}{g}$',
+            'Uniform circular motion: $a = \\frac{v^2}{r} = \\omega^2 r$',
+        ] },
+        { topic: 'Work, energy and rotation', subject: 'Physics', formulas: [
+            'Work-energy theorem: $W = \\Delta K$',
+            '$\\tau = I\\alpha$, $L = I\\omega$, $K_{rot} = \\frac{1}{2}I\\omega^2$',
+            'Parallel axes: $I = I_{cm} + Md^2$',
+        ] },
+        { topic: 'Gravitation', subject: 'Physics', formulas: [
+            'Escape speed $v_e = \\sqrt{\\frac{2GM}{R}}$, orbital speed $v_o = \\sqrt{\\frac{GM}{r}}$',
+            '$g_h = g\\left(1 - \\frac{2h}{R}\\right)$ for $h \\ll R$; $T^2 \\propto r^3$',
+        ] },
+        { topic: 'Properties of matter and thermodynamics', subject: 'Physics', formulas: [
+            "Young's modulus $Y = \\frac{F/A}{\\Delta l/l}$",
+            'First law: $\\Delta U = Q - W$; $PV = nRT$',
+            'Efficiency of a Carnot engine: $\\eta = 1 - \\frac{T_2}{T_1}$',
+        ] },
+        { topic: 'Oscillations and waves', subject: 'Physics', formulas: [
+            'SHM: $T = 2\\pi\\sqrt{\\frac{m}{k}}$; pendulum $T = 2\\pi\\sqrt{\\frac{l}{g}}$',
+            '$v = f\\lambda$; string: $v = \\sqrt{\\frac{T}{\\mu}}$',
+        ] },
+        { topic: 'Electrostatics', subject: 'Physics', formulas: [
+            '$F = \\frac{1}{4\\pi\\varepsilon_0}\\frac{q_1 q_2}{r^2}$, $E = \\frac{F}{q}$, $V = \\frac{1}{4\\pi\\varepsilon_0}\\frac{q}{r}$',
+            '$C = \\frac{\\varepsilon_0 A}{d}$, $U = \\frac{1}{2}CV^2$; Gauss: $\\oint \\vec E \\cdot d\\vec A = \\frac{q}{\\varepsilon_0}$',
+        ] },
+        { topic: 'Current electricity and magnetism', subject: 'Physics', formulas: [
+            "Kirchhoff's laws: $\\sum I = 0$ at a junction, $\\sum \\Delta V = 0$ round a loop",
+            'Force on a charge: $\\vec F = q\\vec v \\times \\vec B$; long wire: $B = \\frac{\\mu_0 I}{2\\pi r}$',
+            'Faraday: $\\varepsilon = -\\frac{d\\Phi}{dt}$; AC: $V_{rms} = \\frac{V_0}{\\sqrt{2}}$, $X_L = \\omega L$, $X_C = \\frac{1}{\\omega C}$',
+        ] },
+        { topic: 'Optics', subject: 'Physics', formulas: [
+            "Lens maker's formula: $\\frac{1}{f} = (n - 1)\\left(\\frac{1}{R_1} - \\frac{1}{R_2}\\right)$",
+            "Young's double slit: fringe width $\\beta = \\frac{\\lambda D}{d}$",
+        ] },
+        { topic: 'Modern physics', subject: 'Physics', formulas: [
+            'Photoelectric effect: $K_{max} = h\\nu - \\phi$; de Broglie $\\lambda = \\frac{h}{p}$',
+            'Bohr model: $E_n = -\\frac{13.6}{n^2}\\ \\text{eV}$, $r_n = 0.529\\, n^2\\ \\text{Å}$',
+            'Decay: $N = N_0 e^{-\\lambda t}$, $t_{1/2} = \\frac{\\ln 2}{\\lambda}$; $E = mc^2$',
+        ] },
+    ],
+    'senior-chemistry': [
+        { topic: 'Mole concept and solutions', subject: 'Chemistry', formulas: [
+            'Molarity $M = \\frac{n_{solute}}{V_{solution}\\ (\\text{L})}$, molality $m = \\frac{n_{solute}}{\\text{kg of solvent}}$',
+            "Raoult's law: $p = x p^\\circ$; $\\Delta T_b = i K_b m$, $\\Delta T_f = i K_f m$, $\\pi = iCRT$",
+        ] },
+        { topic: 'Atomic structure', subject: 'Chemistry', formulas: [
+            '$E = h\\nu = \\frac{hc}{\\lambda}$',
+            'Rydberg: $\\frac{1}{\\lambda} = R_H Z^2\\left(\\frac{1}{n_1^2} - \\frac{1}{n_2^2}\\right)$',
+            'Heisenberg: $\\Delta x\\, \\Delta p \\ge \\frac{h}{4\\pi}$',
+        ] },
+        { topic: 'Thermodynamics', subject: 'Chemistry', formulas: [
+            '$\\Delta H = \\Delta U + \\Delta n_g RT$',
+            '$\\Delta G = \\Delta H - T\\Delta S$, $\\Delta G^\\circ = -RT\\ln K$',
+        ] },
+        { topic: 'Equilibrium', subject: 'Chemistry', formulas: [
+            '$K_p = K_c (RT)^{\\Delta n}$',
+            '$pH = -\\log[\\ce{H+}]$, $pH + pOH = 14$ at 298 K',
+            'Henderson equation: $pH = pK_a + \\log\\frac{[\\text{salt}]}{[\\text{acid}]}$',
+        ] },
+        { topic: 'Electrochemistry', subject: 'Chemistry', formulas: [
+            'Nernst: $E = E^\\circ - \\frac{0.0591}{n}\\log Q$ at 298 K',
+            '$\\Delta G^\\circ = -nFE^\\circ$; Faraday: $m = \\frac{MIt}{nF}$',
+        ] },
+        { topic: 'Chemical kinetics', subject: 'Chemistry', formulas: [
+            'First order: $k = \\frac{2.303}{t}\\log\\frac{[R]_0}{[R]}$, $t_{1/2} = \\frac{0.693}{k}$',
+            'Arrhenius: $k = Ae^{-E_a/RT}$, $\\log\\frac{k_2}{k_1} = \\frac{E_a}{2.303R}\\left(\\frac{1}{T_1} - \\frac{1}{T_2}\\right)$',
+        ] },
+    ],
+};
+
+const SHEETS_FOR_CLASS: Record<ClassId, SheetId[]> = {
+    '6': ['middle'],
+    '7': ['middle'],
+    '8': ['middle'],
+    '9': ['secondary', 'middle'],
+    '10': ['secondary', 'middle'],
+    '11': ['senior-maths', 'senior-physics', 'senior-chemistry', 'secondary'],
+    '12': ['senior-maths', 'senior-physics', 'senior-chemistry', 'secondary'],
+    'JEE': ['senior-maths', 'senior-physics', 'senior-chemistry', 'secondary'],
+    'NEET': ['senior-physics', 'senior-chemistry', 'secondary'],
+};
+
+const STOP_WORDS = new Set(['and', 'the', 'for', 'formula', 'formulas', 'class']);
+
+// Topics are matched loosely: "electrostatics" finds "Electrostatics" and "light" finds "Light".
+// Without a match, the caller gets the list of topics so it can ask again.
+export const getFormulaSheet = (classId: ClassId, query?: string): { topics: FormulaTopic[] } | { availableTopics: string[] } => {
+    const topics = SHEETS_FOR_CLASS[classId].flatMap(sheet => SHEETS[sheet]);
+    const words = (query ?? '').toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 2 && !STOP_WORDS.has(word));
+    const matches = topics.filter(topic => words.some(word => `${topic.topic} ${topic.subject}`.toLowerCase().includes(word)));
+    if (matches.length > 0) return { topics: matches };
+    return { availableTopics: topics.map(topic => `${topic.topic} (${topic.subject})`) };
+};
@@ -0,0 +1,94 @@
+import { FunctionCallingConfigMode, GoogleGenAI, GenerateContentConfig, GenerateContentResponse, Tool } from "@google/genai";
+import type { Citation, GroundingChunk, TokenUsage } from '../../types';
+import type { GenerateRequest, JsonRequest, ModelProvider } from './provider';
+
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+const buildConfig = (request: GenerateRequest): GenerateContentConfig => {
+    const config: GenerateContentConfig = {};
+    if (request.systemInstruction) config.systemInstruction = request.systemInstruction;
+    const tools: Tool[] = [];
+    if (request.googleSearch) tools.push({ googleSearch: {} });
+    if (request.tools?.length) tools.push({ functionDeclarations: request.tools });
+    if (tools.length) config.tools = tools;
+    if (request.toolCallsDisabled) config.toolConfig = { functionCallingConfig: { mode: FunctionCallingConfigMode.NONE } };
+    // Thinking adds latency that short utility tasks (titles etc.) don't benefit from.
+    if (request.disableThinking) config.thinkingConfig = { thinkingBudget: 0 };
+    return config;
+};
+
+const toUsage = (response: GenerateContentResponse): TokenUsage | undefined => {
+    const meta = response.usageMetadata;
+    if (!meta) return undefined;
+    return {
+        promptTokens: meta.promptTokenCount,
+        responseTokens: meta.candidatesTokenCount,
+        totalTokens: meta.totalTokenCount,
+    };
+};
+
+const toGrounding = (response: GenerateContentResponse): { sources?: GroundingChunk[]; citations?: Citation[] } => {
+    const metadata = response.candidates?.[0]?.groundingMetadata;
+    if (!metadata?.groundingChunks?.length) return {};
+    const sources = metadata.groundingChunks as GroundingChunk[];
+    const citations = (metadata.groundingSupports || [])
+        .filter(support => support.segment?.text && support.groundingChunkIndices?.length)
+        .map(support => ({ text: support.segment!.text!, sourceIndices: support.groundingChunkIndices! }));
+    return { sources, citations };
+};
+
+// A blocked prompt has no candidates at all, only promptFeedback.
+const toFinishReason = (response: GenerateContentResponse): string | undefined =>
+    response.candidates?.[0]?.finishReason ?? (response.promptFeedback?.blockReason ? 'PROMPT_BLOCKED' : undefined);
+
+export const createGeminiProvider = (): ModelProvider => {
+    // This runs on the server, so process.env.API_KEY is secure
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
+    const model = process.env.GEMINI_MODEL || DEFAULT_MODEL;
+
+    return {
+        name: 'gemini',
+
+        async generate(request) {
+            const response = await ai.models.generateContent({
+                model,
+                contents: request.contents,
+                config: buildConfig(request),
+            });
+            const { sources } = toGrounding(response);
+            return { text: response.text ?? '', sources, finishReason: toFinishReason(response), usage: toUsage(response) };
+        },
+
+        async *stream(request) {
+            const stream = await ai.models.generateContentStream({
+                model,
+                contents: request.contents,
+                config: buildConfig(request),
+            });
+            for await (const chunk of stream) {
+                const finishReason = toFinishReason(chunk);
+                const usage = toUsage(chunk);
+                const { sources, citations } = toGrounding(chunk);
+                const calls = chunk.candidates?.[0]?.content?.parts?.filter(part => part.functionCall);
+                const functionCalls = calls?.length ? calls : undefined;
+                if (chunk.text || finishReason || usage || sources || functionCalls) {
+                    yield { text: chunk.text, finishReason, usage, sources, citations, functionCalls };
+                }
+            }
+        },
+
+        async generateJson<T>(request: JsonRequest) {
+            const response = await ai.models.generateContent({
+                model,
+                contents: request.contents,
+                config: {
+                    ...buildConfig(request),
+                    responseMimeType: "application/json",
+                    responseSchema: request.schema,
+                },
+            });
+            // The response.text should be a JSON string that conforms to the schema
+            return JSON.parse(response.text ?? '') as T;
+        },
+    };
+};
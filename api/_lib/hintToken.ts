@@ -0,0 +1,28 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import type { HintLevel, SolutionPlan } from '../../types';
+
+// Progress tokens for "Solve with me". /api/hint keeps no state, so every response carries an
+// HMAC of the problem, its plan and the hints shown so far, and the next request has to send it
+// back with exactly that history. A client cannot claim hints it was never given, so it cannot
+// skip ahead to the full solution.
+
+// Set HINT_TOKEN_SECRET wherever more than one server instance answers. Without it each instance
+// makes up its own secret, and a problem has to be started again when a request reaches another.
+const SECRET = process.env.HINT_TOKEN_SECRET || randomBytes(32).toString('hex');
+
+export type HintProgress = {
+    problem: string;
+    plan: SolutionPlan;
+    revealed: { level: HintLevel; text: string }[];
+};
+
+export const signProgress = ({ problem, plan, revealed }: HintProgress): string => createHmac('sha256', SECRET)
+    .update(JSON.stringify([problem, plan.goal, plan.steps, revealed.map(hint => [hint.level, hint.text])]))
+    .digest('base64url');
+
+export const isProgressToken = (token: unknown, progress: HintProgress): boolean => {
+    if (typeof token !== 'string') return false;
+    const expected = Buffer.from(signProgress(progress));
+    const given = Buffer.from(token);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+};
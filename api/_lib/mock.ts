@@ -0,0 +1,260 @@
+import type { Content, Part } from "@google/genai";
+import type { GenerateRequest, JsonRequest, ModelProvider, ProviderTask } from './provider';
+
+// Deterministic stand-in for a real model. The same request always produces the same
+// output, so the whole app can be exercised offline and without an API key.
+
+const STREAM_CHUNK_DELAY_MS = 15;
+
+const MOCK_SOURCES = [
+    { web: { uri: 'https://example.com/chalkbyte-mock-source', title: 'Mock Source (offline)' } },
+];
+
+// A sentence from the canned chat answer that the mock sources "support".
+const MOCK_CITED_TEXT = 'This response comes from the local mock provider, so no network or API key was used.';
+
+const MOCK_QUIZ_BANK = [
+    {
+        type: 'single',
+        question: 'Which planet is known as the Red Planet?',
+        subtopic: 'Astronomy',
+        options: ['Venus', 'Mars', 'Jupiter', 'Mercury'],
+        correctAnswerIndex: 1,
+        explanation: 'Iron oxide on the surface of Mars gives it a reddish appearance.',
+    },
+    {
+        type: 'single',
+        question: 'What is the chemical symbol for water?',
+        subtopic: 'Chemical formulae',
+        options: ['H2O', 'CO2', 'O2', 'NaCl'],
+        correctAnswerIndex: 0,
+        explanation: 'A water molecule is made of two hydrogen atoms and one oxygen atom.',
+    },
+    {
+        type: 'single',
+        question: 'What is 7 × 8?',
+        subtopic: 'Arithmetic',
+        options: ['54', '56', '58', '64'],
+        correctAnswerIndex: 1,
+        explanation: '7 × 8 = 56.',
+    },
+    {
+        type: 'single',
+        question: 'Which organelle is called the powerhouse of the cell?',
+        subtopic: 'Cell biology',
+        options: ['Nucleus', 'Ribosome', 'Mitochondrion', 'Golgi body'],
+        correctAnswerIndex: 2,
+        explanation: 'Mitochondria release energy from food through cellular respiration.',
+    },
+    {
+        type: 'single',
+        question: 'What is the SI unit of force?',
+        subtopic: 'Units',
+        options: ['Joule', 'Watt', 'Pascal', 'Newton'],
+        correctAnswerIndex: 3,
+        explanation: 'Force is measured in newtons (N), where 1 N = 1 kg·m/s².',
+    },
+    {
+        type: 'multiple',
+        question: 'Which of these are vector quantities?',
+        subtopic: 'Vectors',
+        options: ['Velocity', 'Mass', 'Force', 'Temperature'],
+        correctAnswerIndices: [0, 2],
+        explanation: 'Velocity and force have a direction; mass and temperature do not.',
+    },
+    {
+        type: 'numerical',
+        question: 'A car accelerates from rest at 2 m/s² for 5 s. What is its final speed?',
+        subtopic: 'Kinematics',
+        answer: 10,
+        tolerance: 0,
+        unit: 'm/s',
+        explanation: '$v = u + at = 0 + 2 \\times 5 = 10$ m/s.',
+    },
+    {
+        type: 'assertion-reason',
+        question: 'Choose the correct option.',
+        subtopic: 'States of matter',
+        assertion: 'Ice floats on water.',
+        reason: 'Ice is less dense than liquid water.',
+        correctAnswerIndex: 0,
+        explanation: 'Both are true, and the lower density of ice is why it floats.',
+    },
+    {
+        type: 'match',
+        question: 'Match each quantity with its SI unit.',
+        subtopic: 'Units',
+        left: ['Force', 'Energy', 'Power', 'Pressure'],
+        right: ['Watt', 'Pascal', 'Newton', 'Joule'],
+        correctMatches: [2, 3, 0, 1],
+        explanation: 'Force is in newtons, energy in joules, power in watts and pressure in pascals.',
+    },
+    {
+        type: 'true-false',
+        question: 'Sound travels faster in air than in water.',
+        subtopic: 'Sound',
+        correctAnswer: false,
+        explanation: 'Sound travels about four times faster in water than in air.',
+    },
+];
+
+// Marking of a solution with a slip in its second step, whatever the photo shows.
+const MOCK_GRADE = {
+    steps: [
+        { work: '$v^2 = u^2 + 2as$', verdict: 'correct', marks: 1, comment: 'Correct choice of equation for uniform acceleration.' },
+        { work: '$v^2 = 0 + 2 \\times 9.8 \\times 20 = 196$', verdict: 'incorrect', marks: 0, comment: 'The substitution is right, but the multiplication is not.' },
+        { work: '$v = 14 \\text{ m/s}$', verdict: 'partial', marks: 0.5, comment: 'The square root follows correctly from the previous line.' },
+    ],
+    maxMarks: 3,
+    hints: ['Work out 2 × 9.8 × 20 again, one multiplication at a time.'],
+    feedback: 'A good method. One arithmetic slip cost you the accuracy marks. (Mock marking, offline mode.)',
+};
+
+// A sum in the question, such as "12.5 * 4 + 3", makes the mock call the calculate tool.
+const MOCK_ARITHMETIC = /\d[\d.\s]*(?:[-+*/^][\d.\s(]*\d[\d.\s)]*)+/;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const MOCK_QUIZ_MIX = /^- (\d+) of type "([^"]+)"/gm;
+
+const contentsToText = (contents: Content[] | string): string => {
+    if (typeof contents === 'string') return contents;
+    return contents
+        .map(c => (c.parts || []).map(p => p.text || '').join(' '))
+        .join('\n');
+};
+
+const lastUserText = (contents: Content[] | string): string => {
+    if (typeof contents === 'string') return contents;
+    const lastUser = [...contents].reverse().find(c => c.role === 'user');
+    return (lastUser?.parts || []).map(p => p.text || '').join(' ').trim();
+};
+
+// The function responses the caller just sent back, if the last turn is one.
+const lastFunctionResponses = (contents: Content[] | string): Part[] => {
+    if (typeof contents === 'string') return [];
+    const last = contents[contents.length - 1];
+    return (last?.parts || []).filter(p => p.functionResponse);
+};
+
+// Roughly four characters per token, which is close enough for exercising usage displays.
+const mockUsage = (request: GenerateRequest, text: string) => {
+    const promptTokens = Math.ceil(contentsToText(request.contents).length / 4);
+    const responseTokens = Math.ceil(text.length / 4);
+    return { promptTokens, responseTokens, totalTokens: promptTokens + responseTokens };
+};
+
+const toTitleCase = (text: string) =>
+    text.replace(/\w\S*/g, word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase());
+
+const cannedText = (task: ProviderTask, request: GenerateRequest): string => {
+    switch (task) {
+        case 'title': {
+            // The title prompt embeds the conversation between --- markers.
+            const conversation = contentsToText(request.contents).split('---')[1] || '';
+            const firstLine = conversation.trim().split('\n')[0] || '';
+            const words = firstLine.replace(/^\w+:\s*/, '').replace(/[^\w\s]/g, '').split(/\s+/).filter(Boolean);
+            return words.length > 0 ? toTitleCase(words.slice(0, 5).join(' ')) : 'Mock Chat';
+        }
+        case 'summary': {
+            const lineCount = contentsToText(request.contents).split('\n').filter(l => l.trim()).length;
+            return `This is a mock summary.\n\n- The conversation had ${lineCount} non-empty lines.\n- No model was called; set MODEL_PROVIDER=gemini to use a real model.`;
+        }
+        default: {
+            const question = lastUserText(request.contents) || 'your question';
+            return `**Mock answer** (offline mode)\n\nYou asked: "${question}"\n\nThis response comes from the local mock provider, so no network or API key was used. Here is a short list to exercise markdown rendering:\n\n1. First point\n2. Second point\n\n\`\`\`python\nprint("Hello from the mock provider")\n\`\`\``;
+        }
+    }
+};
+
+const MOCK_PLAN = {
+    goal: 'Find the quantity the problem asks for. (Mock plan, offline mode.)',
+    steps: ['List the quantities you are given', 'Choose the relation that links them to the unknown', 'Solve for the unknown'],
+};
+
+// The hint route sends one of three schemas: a plan, a hint, or a checked attempt.
+const mockHint = (request: JsonRequest) => {
+    const properties = request.schema.properties ?? {};
+    if ('goal' in properties) return MOCK_PLAN;
+    const hint = 'Mock hint (offline mode): look again at what the problem gives you.';
+    if (!('verdict' in properties)) return { hint };
+    // The attempt sits between the last pair of --- markers. Writing "answer" in it solves the problem.
+    const attempt = contentsToText(request.contents).split('---').slice(-2, -1)[0] ?? '';
+    return /\banswer\b/i.test(attempt)
+        ? { verdict: 'correct', feedback: 'That is right. (Mock check, offline mode.)' }
+        : { verdict: 'incorrect', feedback: 'Not yet. (Mock check, offline mode.)', hint };
+};
+
+export const createMockProvider = (): ModelProvider => ({
+    name: 'mock',
+
+    async generate(request) {
+        const text = cannedText(request.task, request);
+        const sources = request.googleSearch ? MOCK_SOURCES : undefined;
+        return { text, sources, finishReason: 'STOP', usage: mockUsage(request, text) };
+    },
+
+    async *stream(request) {
+        const responses = lastFunctionResponses(request.contents);
+        const sum = MOCK_ARITHMETIC.exec(lastUserText(request.contents));
+        if (request.tools && !request.toolCallsDisabled && responses.length === 0 && sum) {
+            await wait(STREAM_CHUNK_DELAY_MS);
+            yield { functionCalls: [{ functionCall: { name: 'calculate', args: { expression: sum[0].trim() } } }] };
+            return;
+        }
+        if (responses.length > 0) {
+            const results = responses.map(p => JSON.stringify(p.functionResponse?.response)).join(', ');
+            const text = `**Mock answer** (offline mode)\n\nThe ${responses[0].functionResponse?.name} tool returned ${results}.`;
+            yield { text, finishReason: 'STOP', usage: mockUsage(request, text) };
+            return;
+        }
+        const text = cannedText(request.task, request);
+        // Split on whitespace but keep it, so the concatenated chunks equal the full text.
+        for (const piece of text.split(/(?<=\s)/)) {
+            await wait(STREAM_CHUNK_DELAY_MS);
+            yield { text: piece };
+        }
+        const grounding = request.googleSearch
+            ? { sources: MOCK_SOURCES, citations: [{ text: MOCK_CITED_TEXT, sourceIndices: [0] }] }
+            : {};
+        yield { finishReason: 'STOP', usage: mockUsage(request, text), ...grounding };
+    },
+
+    async generateJson<T>(request: JsonRequest) {
+        switch (request.task) {
+            case 'quiz': {
+                const count = Number(request.schema.properties?.quiz?.maxItems) || 5;
+                const types: string[] = request.schema.properties?.quiz?.items?.properties?.type?.enum ?? ['single'];
+                const prompt = contentsToText(request.contents);
+                // Follow the "- N of type ..." lines of the prompt, falling back to an even spread.
+                const asked = [...prompt.matchAll(MOCK_QUIZ_MIX)]
+                    .map(([, n, type]) => ({ type, count: Number(n) }))
+                    .filter(({ type }) => types.includes(type));
+                const mix = asked.length > 0
+                    ? asked
+                    : types.map((type, i) => ({ type, count: Math.floor(count / types.length) + (i < count % types.length ? 1 : 0) }));
+                // Questions the prompt lists as already asked are skipped, and past the end of the
+                // bank questions come back as numbered variants, so none repeats.
+                const listed = new Set(prompt.split('\n').map(line => line.replace(/^- /, '')));
+                const quiz = mix.flatMap(({ type, count }) => {
+                    const bank = MOCK_QUIZ_BANK.filter(item => item.type === type);
+                    const picked: typeof bank = [];
+                    for (let i = 0; bank.length > 0 && picked.length < count; i++) {
+                        const item = bank[i % bank.length];
+                        const cycle = Math.floor(i / bank.length);
+                        const candidate = cycle === 0 ? item : { ...item, question: `${item.question} (variant ${cycle + 1})` };
+                        if (!listed.has(candidate.question)) picked.push(candidate);
+                    }
+                    return picked;
+                });
+                return { quiz } as T;
+            }
+            case 'grade':
+                return MOCK_GRADE as T;
+            case 'hint':
+                return mockHint(request) as T;
+            default:
+                throw new Error(`The mock provider has no canned JSON for task "${request.task}".`);
+        }
+    },
+});
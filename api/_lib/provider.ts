@@ -0,0 +1,71 @@
+import type { Content, FunctionDeclaration, Part, Schema } from "@google/genai";
+import type { Citation, GroundingChunk, TokenUsage } from '../../types';
+import { createGeminiProvider } from './gemini';
+import { createMockProvider } from './mock';
+
+// Files under api/_lib are shared server code; Vercel does not expose them as routes.
+
+export type ProviderTask = 'chat' | 'quiz' | 'title' | 'summary' | 'grade' | 'hint';
+
+export interface GenerateRequest {
+    // Which route is asking. Providers may use it for logging, the mock uses it to pick a canned reply.
+    task: ProviderTask;
+    contents: Content[] | string;
+    systemInstruction?: string;
+    googleSearch?: boolean;
+    disableThinking?: boolean;
+    // Functions the model may call. Only stream() reports the calls; the caller runs them.
+    tools?: FunctionDeclaration[];
+    // Keeps the tools declared, since the history may refer to them, but makes the model answer in text.
+    toolCallsDisabled?: boolean;
+}
+
+export interface JsonRequest extends GenerateRequest {
+    schema: Schema;
+}
+
+export interface GenerateResult {
+    text: string;
+    sources?: GroundingChunk[];
+    finishReason?: string;
+    usage?: TokenUsage;
+}
+
+// A stream yields text deltas; finishReason, usage and search grounding arrive on the last chunk(s)
+// when the model reports them.
+export interface StreamChunk {
+    text?: string;
+    sources?: GroundingChunk[];
+    citations?: Citation[];
+    finishReason?: string;
+    usage?: TokenUsage;
+    // Parts holding a functionCall, kept whole so any thought signature goes back to the model with them.
+    functionCalls?: Part[];
+}
+
+export interface ModelProvider {
+    name: string;
+    generate(request: GenerateRequest): Promise<GenerateResult>;
+    stream(request: GenerateRequest): AsyncIterable<StreamChunk>;
+    generateJson<T>(request: JsonRequest): Promise<T>;
+}
+
+let provider: ModelProvider | undefined;
+
+// MODEL_PROVIDER=mock runs every route against canned data, with no network or API key needed.
+export const getProvider = (): ModelProvider => {
+    if (provider) return provider;
+
+    const name = (process.env.MODEL_PROVIDER || 'gemini').toLowerCase();
+    switch (name) {
+        case 'gemini':
+            provider = createGeminiProvider();
+            break;
+        case 'mock':
+            provider = createMockProvider();
+            break;
+        default:
+            throw new Error(`Unknown MODEL_PROVIDER "${name}". Expected "gemini" or "mock".`);
+    }
+    return provider;
+};
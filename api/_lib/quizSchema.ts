@@ -0,0 +1,50 @@
+import { Type, type Schema } from "@google/genai";
+import type { QuizQuestionType } from '../../types';
+
+// The model answers with one flat object per question, since response schemas cannot express
+// a union. Each type fills in only its own fields, and quizValidation.ts checks the result and
+// turns it into the QuizQuestion the client expects.
+
+export const TYPE_INSTRUCTIONS: Record<QuizQuestionType, string> = {
+    single: 'exactly 4 options, one of them correct (correctAnswerIndex).',
+    multiple: 'exactly 4 options, one or more of them correct (correctAnswerIndices), as in JEE Advanced.',
+    numerical: 'no options. The answer is a number (answer), with tolerance 0 when it must be an integer or the allowed error for a decimal answer, and unit when it has one.',
+    'assertion-reason': 'an assertion (assertion) and a reason (reason). correctAnswerIndex is 0 if both are true and the reason explains the assertion, 1 if both are true but it does not, 2 if the assertion is true and the reason false, and 3 if the assertion is false and the reason true.',
+    match: '4 items in left and 4 in right, with right in shuffled order. correctMatches[i] is the index in right of the item that matches left[i].',
+    'true-false': 'a single statement to judge (question). correctAnswer is whether it is true.',
+};
+
+export const buildQuizSchema = (count: number, types: QuizQuestionType[]): Schema => ({
+    type: Type.OBJECT,
+    properties: {
+        quiz: {
+            type: Type.ARRAY,
+            description: `An array of ${count} quiz questions.`,
+            minItems: String(count),
+            maxItems: String(count),
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    type: { type: Type.STRING, enum: types, description: 'The question type.' },
+                    question: { type: Type.STRING, description: 'The question, or the instruction for assertion-reason and match questions.' },
+                    options: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Answer options, for single and multiple.' },
+                    correctAnswerIndex: { type: Type.INTEGER, description: "0-based index of the correct option, for single and assertion-reason." },
+                    correctAnswerIndices: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: '0-based indices of every correct option, for multiple.' },
+                    answer: { type: Type.NUMBER, description: 'The correct value, for numerical.' },
+                    tolerance: { type: Type.NUMBER, description: 'Largest accepted difference from answer, for numerical.' },
+                    unit: { type: Type.STRING, description: 'Unit of the answer, for numerical.' },
+                    assertion: { type: Type.STRING, description: 'Assertion (A), for assertion-reason.' },
+                    reason: { type: Type.STRING, description: 'Reason (R), for assertion-reason.' },
+                    left: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Items to match, for match.' },
+                    right: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Items they match with, for match.' },
+                    correctMatches: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: 'Index in right for each item of left, for match.' },
+                    correctAnswer: { type: Type.BOOLEAN, description: 'Whether the statement is true, for true-false.' },
+                    explanation: { type: Type.STRING, description: 'A brief explanation of the correct answer.' },
+                    subtopic: { type: Type.STRING, description: 'The part of the quiz topic the question tests, in a few words.' },
+                },
+                required: ['type', 'question', 'explanation', 'subtopic'],
+            },
+        },
+    },
+    required: ['quiz'],
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { shuffleQuiz, validateQuiz } from './quizValidation';
+import type { QuizQuestion, QuizQuestionType } from '../../types';
+
+const ALL_TYPES: QuizQuestionType[] = ['single', 'multiple', 'numerical', 'assertion-reason', 'match', 'true-false'];
+
+const base = { question: 'Which planet is closest to the Sun?', explanation: 'Mercury orbits nearest.' };
+
+const single = (fields: Record<string, unknown>) => ({ ...base, type: 'single', options: ['Mercury', 'Venus', 'Earth', 'Mars'], correctAnswerIndex: 0, ...fields });
+
+// A fixed sequence, so a failing shuffle can be replayed.
+const seeded = (seed: number) => () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+};
+
+describe('validateQuiz', () => {
+    it.each([
+        ['strips labels when every option has one', single({ options: ['A) Mercury', 'B) Venus', 'C) Earth', 'D) Mars'] }), { options: ['Mercury', 'Venus', 'Earth', 'Mars'] }],
+        ['strips bracketed lower-case labels', single({ options: ['(a) Mercury', '(b) Venus', '(c) Earth', '(d) Mars'] }), { options: ['Mercury', 'Venus', 'Earth', 'Mars'] }],
+        ['leaves labels alone unless every option has one', single({ options: ['A) Mercury', 'Venus', 'Earth', 'Mars'] }), { options: ['A) Mercury', 'Venus', 'Earth', 'Mars'] }],
+        ['reads a letter as an index', single({ correctAnswerIndex: 'B' }), { correctAnswerIndex: 1 }],
+        ['reads a digit string as an index', single({ correctAnswerIndex: ' 2 ' }), { correctAnswerIndex: 2 }],
+        ['reads letters in a list of indices', single({ type: 'multiple', correctAnswerIndices: ['c', 'A', 0] }), { correctAnswerIndices: [0, 2] }],
+        ['reads a numerical answer given as a string', { ...base, type: 'numerical', answer: '9.8', tolerance: '-0.1' }, { answer: 9.8, tolerance: 0.1 }],
+        ['reads true or false given as a word', { ...base, type: 'true-false', correctAnswer: ' True ' }, { correctAnswer: true }],
+    ])('%s', (_, raw, expected) => {
+        const { questions, rejected } = validateQuiz([raw], ALL_TYPES, [], 0);
+        expect(rejected).toEqual([]);
+        expect(questions[0]).toMatchObject(expected);
+    });
+
+    it.each([
+        ['not an object', 'Mercury', 'malformed'],
+        ['a type that was not asked for', { ...base, type: 'essay' }, 'unexpected-type'],
+        ['a missing explanation', single({ explanation: ' ' }), 'malformed'],
+        ['three options', single({ options: ['Mercury', 'Venus', 'Earth'] }), 'option-count'],
+        ['options that differ only in case and punctuation', single({ options: ['Mercury', 'mercury!', 'Earth', 'Mars'] }), 'duplicate-options'],
+        ['an answer past the last option', single({ correctAnswerIndex: 4 }), 'answer-out-of-range'],
+        ['an answer letter past the last option', single({ correctAnswerIndex: 'E' }), 'answer-out-of-range'],
+        ['no correct options', single({ type: 'multiple', correctAnswerIndices: [] }), 'answer-out-of-range'],
+        ['an answer that is not a number', { ...base, type: 'numerical', answer: 'about ten' }, 'malformed'],
+        ['two items matched to the same one', { ...base, type: 'match', left: ['Na', 'K'], right: ['Sodium', 'Potassium'], correctMatches: [0, 0] }, 'answer-out-of-range'],
+        ['a true-false answer that is neither', { ...base, type: 'true-false', correctAnswer: 'maybe' }, 'malformed'],
+    ])('rejects %s', (_, raw, code) => {
+        const { questions, rejected } = validateQuiz([raw], ALL_TYPES, [], 2);
+        expect(questions).toEqual([]);
+        expect(rejected).toHaveLength(1);
+        expect(rejected[0]).toMatchObject({ round: 2, index: 0 });
+        expect(rejected[0].issues.map(found => found.code)).toContain(code);
+    });
+
+    it.each([
+        ['within the round', [single({}), single({ options: ['Mars', 'Venus', 'Earth', 'Mercury'], correctAnswerIndex: 3 })], []],
+        ['against questions already accepted', [single({})], [single({}) as QuizQuestion]],
+    ])('rejects a repeated question %s', (_, raw, accepted) => {
+        const { questions, rejected } = validateQuiz(raw, ALL_TYPES, accepted, 1);
+        expect(questions).toHaveLength(raw.length - 1);
+        expect(rejected).toEqual([expect.objectContaining({ round: 1, index: raw.length - 1, issues: [expect.objectContaining({ code: 'duplicate-question' })] })]);
+    });
+});
+
+describe('shuffleQuiz', () => {
+    const singles = (count: number): QuizQuestion[] => Array.from({ length: count }, (_, i) => ({
+        ...base, question: `Question ${i}`, type: 'single', options: [`Right ${i}`, 'W1', 'W2', 'W3'], correctAnswerIndex: 0,
+    }));
+
+    it.each([[4, 1], [8, 2], [12, 3], [20, 5]])('puts the answers of %i single-correct questions %i times at each position', (count, each) => {
+        for (const seed of [1, 7, 42]) {
+            const quiz = shuffleQuiz(singles(count), seeded(seed));
+            const counts = [0, 0, 0, 0];
+            quiz.forEach(question => {
+                if (question.type !== 'single') throw new Error('type changed');
+                counts[question.correctAnswerIndex]++;
+            });
+            expect(counts).toEqual([each, each, each, each]);
+        }
+    });
+
+    it('keeps the right answer with its index', () => {
+        const quiz = shuffleQuiz(singles(6), seeded(3));
+        quiz.forEach((question, i) => {
+            if (question.type !== 'single') throw new Error('type changed');
+            expect(question.options[question.correctAnswerIndex]).toBe(`Right ${i}`);
+            expect([...question.options].sort()).toEqual([`Right ${i}`, 'W1', 'W2', 'W3'].sort());
+        });
+    });
+
+    it.each(['All of the above', 'None of the above', 'Both of the others', 'neither of the above'])('leaves a question with "%s" in place', option => {
+        const question: QuizQuestion = { ...base, type: 'single', options: ['Mercury', 'Venus', 'Earth', option], correctAnswerIndex: 3 };
+        const multiple: QuizQuestion = { ...base, type: 'multiple', options: ['Mercury', 'Venus', option, 'Mars'], correctAnswerIndices: [0, 2] };
+        const [shuffledSingle, shuffledMultiple] = shuffleQuiz([question, multiple], seeded(5));
+        expect(shuffledSingle).toBe(question);
+        expect(shuffledMultiple).toBe(multiple);
+    });
+
+    it('keeps multiple-correct answers and matches pointing at the same items', () => {
+        const multiple: QuizQuestion = { ...base, type: 'multiple', options: ['Mercury', 'Venus', 'Earth', 'Mars'], correctAnswerIndices: [1, 3] };
+        const match: QuizQuestion = { ...base, type: 'match', left: ['Na', 'K', 'Fe'], right: ['Sodium', 'Potassium', 'Iron'], correctMatches: [0, 1, 2] };
+        const [shuffledMultiple, shuffledMatch] = shuffleQuiz([multiple, match], seeded(11));
+        if (shuffledMultiple.type !== 'multiple' || shuffledMatch.type !== 'match') throw new Error('type changed');
+        expect(shuffledMultiple.correctAnswerIndices.map(i => shuffledMultiple.options[i]).sort()).toEqual(['Mars', 'Venus']);
+        expect(shuffledMatch.correctMatches.map(i => shuffledMatch.right[i])).toEqual(['Sodium', 'Potassium', 'Iron']);
+    });
+});
@@ -0,0 +1,222 @@
+import { questionToMarkdown } from '../../utils/quiz';
+import type { QuizIssue, QuizQuestion, QuizQuestionType, RejectedQuizQuestion } from '../../types';
+
+// Checks generated questions before they reach the client. Small slips that have only one
+// sensible reading (labelled options, an answer given as a string) are repaired here; anything
+// else rejects the question, and /api/quiz asks for a replacement.
+
+const OPTION_COUNT = 4;
+
+const OPTION_LABEL = /^\(?[A-Da-d1-4][).:]\s+/;
+
+const LETTER_INDEX = /^[A-Da-d]$/;
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : undefined);
+
+const textList = (value: unknown) => (Array.isArray(value) ? value.map(item => text(item) ?? '') : undefined);
+
+// "B" or "1" for an index, as models sometimes answer despite the schema.
+const toIndex = (value: unknown) => {
+    if (typeof value === 'number') return value;
+    if (typeof value !== 'string') return undefined;
+    const trimmed = value.trim();
+    if (LETTER_INDEX.test(trimmed)) return trimmed.toUpperCase().charCodeAt(0) - 65;
+    return trimmed !== '' && Number.isInteger(Number(trimmed)) ? Number(trimmed) : undefined;
+};
+
+const toNumber = (value: unknown) => {
+    if (typeof value === 'number') return value;
+    return typeof value === 'string' && value.trim() !== '' ? Number(value) : undefined;
+};
+
+// "A) Mars" and "(b) Venus" lose their labels, but only when every option has one, so an
+// option that merely starts with a letter is left alone.
+const stripLabels = (options: string[]) => options.every(option => OPTION_LABEL.test(option))
+    ? options.map(option => option.replace(OPTION_LABEL, ''))
+    : options;
+
+const isIndex = (value: unknown, length: number): value is number => Number.isInteger(value) && (value as number) >= 0 && (value as number) < length;
+
+const hasDuplicates = (items: string[]) => new Set(items.map(normalize)).size !== items.length;
+
+const issue = (code: QuizIssue['code'], message: string): QuizIssue => ({ code, message });
+
+const checkOptions = (options: string[] | undefined, issues: QuizIssue[]) => {
+    if (!options || options.some(option => !option)) {
+        issues.push(issue('malformed', 'The options are missing or include a blank one.'));
+    } else if (options.length !== OPTION_COUNT) {
+        issues.push(issue('option-count', `There are ${options.length} options instead of ${OPTION_COUNT}.`));
+    } else if (hasDuplicates(options)) {
+        issues.push(issue('duplicate-options', 'Two of the options are the same.'));
+    }
+};
+
+// Repairs and checks one question from the model, returning either the question or what is wrong with it.
+export const checkQuestion = (raw: unknown, types: QuizQuestionType[]): { question: QuizQuestion } | { issues: QuizIssue[] } => {
+    if (typeof raw !== 'object' || raw === null) return { issues: [issue('malformed', 'The question is not an object.')] };
+    const item = raw as Record<string, unknown>;
+    const type = item.type as QuizQuestionType;
+    if (!types.includes(type)) {
+        return { issues: [issue('unexpected-type', `The type "${String(item.type)}" was not asked for.`)] };
+    }
+
+    const issues: QuizIssue[] = [];
+    const question = text(item.question);
+    const explanation = text(item.explanation);
+    if (!question) issues.push(issue('malformed', 'The question text is missing.'));
+    if (!explanation) issues.push(issue('malformed', 'The explanation is missing.'));
+    // The subtopic only groups questions for adaptive quizzes, so a missing one is no reason to reject.
+    const subtopic = text(item.subtopic);
+    const base = { question: question ?? '', explanation: explanation ?? '', ...(subtopic ? { subtopic } : {}) };
+
+    const result = ((): QuizQuestion | undefined => {
+        switch (type) {
+            case 'single': {
+                const options = textList(item.options);
+                checkOptions(options && stripLabels(options), issues);
+                const index = toIndex(item.correctAnswerIndex);
+                if (!isIndex(index, options?.length ?? 0)) {
+                    issues.push(issue('answer-out-of-range', 'correctAnswerIndex does not point at an option.'));
+                    return undefined;
+                }
+                return { ...base, type, options: stripLabels(options!), correctAnswerIndex: index };
+            }
+            case 'multiple': {
+                const options = textList(item.options);
+                checkOptions(options && stripLabels(options), issues);
+                const indices = Array.isArray(item.correctAnswerIndices) ? item.correctAnswerIndices.map(toIndex) : [];
+                if (indices.length === 0 || !indices.every(index => isIndex(index, options?.length ?? 0))) {
+                    issues.push(issue('answer-out-of-range', 'correctAnswerIndices is empty or does not point at options.'));
+                    return undefined;
+                }
+                const unique = [...new Set(indices as number[])].sort((a, b) => a - b);
+                return { ...base, type, options: stripLabels(options!), correctAnswerIndices: unique };
+            }
+            case 'numerical': {
+                const answer = toNumber(item.answer);
+                if (answer === undefined || !Number.isFinite(answer)) {
+                    issues.push(issue('malformed', 'The answer is not a number.'));
+                    return undefined;
+                }
+                const tolerance = toNumber(item.tolerance);
+                const unit = text(item.unit);
+                return { ...base, type, answer, tolerance: tolerance !== undefined && Number.isFinite(tolerance) ? Math.abs(tolerance) : 0, unit: unit || undefined };
+            }
+            case 'assertion-reason': {
+                const assertion = text(item.assertion);
+                const reason = text(item.reason);
+                if (!assertion || !reason) issues.push(issue('malformed', 'The assertion or the reason is missing.'));
+                const index = toIndex(item.correctAnswerIndex);
+                if (!isIndex(index, 4)) {
+                    issues.push(issue('answer-out-of-range', 'correctAnswerIndex must be 0 to 3.'));
+                    return undefined;
+                }
+                return { ...base, type, assertion: assertion ?? '', reason: reason ?? '', correctAnswerIndex: index };
+            }
+            case 'match': {
+                const left = textList(item.left);
+                const right = textList(item.right);
+                if (!left || !right || left.length < 2 || right.length < left.length || [...left, ...right].some(entry => !entry)) {
+                    issues.push(issue('malformed', 'The lists to match are missing, blank or of the wrong lengths.'));
+                    return undefined;
+                }
+                if (hasDuplicates(left) || hasDuplicates(right)) issues.push(issue('duplicate-options', 'A list to match repeats an item.'));
+                const matches = Array.isArray(item.correctMatches) ? item.correctMatches.map(toIndex) : [];
+                if (matches.length !== left.length || !matches.every(index => isIndex(index, right.length)) || new Set(matches).size !== matches.length) {
+                    issues.push(issue('answer-out-of-range', 'correctMatches must give a different item of right for each item of left.'));
+                    return undefined;
+                }
+                return { ...base, type, left, right, correctMatches: matches as number[] };
+            }
+            case 'true-false': {
+                const word = typeof item.correctAnswer === 'string' ? item.correctAnswer.trim().toLowerCase() : undefined;
+                const answer = word === 'true' ? true : word === 'false' ? false : item.correctAnswer;
+                if (typeof answer !== 'boolean') {
+                    issues.push(issue('malformed', 'correctAnswer is not true or false.'));
+                    return undefined;
+                }
+                return { ...base, type, correctAnswer: answer };
+            }
+        }
+    })();
+
+    return result && issues.length === 0 ? { question: result } : { issues };
+};
+
+// Checks a round of generated questions. accepted holds the questions kept from earlier rounds,
+// which new ones must not repeat.
+export const validateQuiz = (raw: unknown[], types: QuizQuestionType[], accepted: QuizQuestion[], round: number) => {
+    const seen = new Set(accepted.map(question => normalize(questionToMarkdown(question))));
+    const questions: QuizQuestion[] = [];
+    const rejected: RejectedQuizQuestion[] = [];
+    raw.forEach((item, index) => {
+        const type = typeof (item as { type?: unknown })?.type === 'string' ? (item as { type: string }).type : undefined;
+        const checked = checkQuestion(item, types);
+        if ('issues' in checked) {
+            rejected.push({ round, index, type, issues: checked.issues });
+            return;
+        }
+        const key = normalize(questionToMarkdown(checked.question));
+        if (seen.has(key)) {
+            rejected.push({ round, index, type, issues: [issue('duplicate-question', 'The question repeats an earlier one.')] });
+            return;
+        }
+        seen.add(key);
+        questions.push(checked.question);
+    });
+    return { questions, rejected };
+};
+
+const shuffled = <T>(items: T[], random: () => number) => {
+    const copy = [...items];
+    for (let i = copy.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [copy[i], copy[j]] = [copy[j], copy[i]];
+    }
+    return copy;
+};
+
+// Options that refer to the others have to stay where the question put them.
+const REFERS_TO_OTHERS = /\b(all|none|both|neither) of the (above|others)\b/i;
+
+// Shuffles options and match lists. Models favour some positions for the right answer, so the
+// positions of single-correct answers are dealt out evenly instead of drawn at random.
+export const shuffleQuiz = (quiz: QuizQuestion[], random: () => number = Math.random): QuizQuestion[] => {
+    const keepsOrder = (options: string[]) => options.some(option => REFERS_TO_OTHERS.test(option));
+    // Only the questions that are reordered take a position, so the spread stays even across them.
+    const singleCount = quiz.filter(question => question.type === 'single' && !keepsOrder(question.options)).length;
+    const positions = shuffled(Array.from({ length: singleCount }, (_, i) => i % OPTION_COUNT), random);
+
+    return quiz.map(question => {
+        switch (question.type) {
+            case 'single': {
+                if (keepsOrder(question.options)) return question;
+                const target = positions.pop()!;
+                const others = shuffled(question.options.filter((_, i) => i !== question.correctAnswerIndex), random);
+                const options = [...others.slice(0, target), question.options[question.correctAnswerIndex], ...others.slice(target)];
+                return { ...question, options, correctAnswerIndex: target };
+            }
+            case 'multiple': {
+                if (keepsOrder(question.options)) return question;
+                const order = shuffled(question.options.map((_, i) => i), random);
+                return {
+                    ...question,
+                    options: order.map(i => question.options[i]),
+                    correctAnswerIndices: question.correctAnswerIndices.map(i => order.indexOf(i)).sort((a, b) => a - b),
+                };
+            }
+            case 'match': {
+                const order = shuffled(question.right.map((_, i) => i), random);
+                return {
+                    ...question,
+                    right: order.map(i => question.right[i]),
+                    correctMatches: question.correctMatches.map(i => order.indexOf(i)),
+                };
+            }
+            default:
+                return question;
+        }
+    });
+};
@@ -0,0 +1,129 @@
+// The lookup_element and lookup_constant tools. Atomic masses are IUPAC standard atomic weights,
+// rounded as NCERT tables print them; elements with no stable isotope give the mass number of
+// their longest-lived isotope. Constants are CODATA 2018 values.
+
+// [symbol, name, atomic mass]; an element's atomic number is its position plus one.
+const ELEMENTS: [string, string, number][] = [
+    ['H', 'Hydrogen', 1.008], ['He', 'Helium', 4.0026], ['Li', 'Lithium', 6.94], ['Be', 'Beryllium', 9.0122],
+    ['B', 'Boron', 10.81], ['C', 'Carbon', 12.011], ['N', 'Nitrogen', 14.007], ['O', 'Oxygen', 15.999],
+    ['F', 'Fluorine', 18.998], ['Ne', 'Neon', 20.180], ['Na', 'Sodium', 22.990], ['Mg', 'Magnesium', 24.305],
+    ['Al', 'Aluminium', 26.982], ['Si', 'Silicon', 28.085], ['P', 'Phosphorus', 30.974], ['S', 'Sulfur', 32.06],
+    ['Cl', 'Chlorine', 35.45], ['Ar', 'Argon', 39.948], ['K', 'Potassium', 39.098], ['Ca', 'Calcium', 40.078],
+    ['Sc', 'Scandium', 44.956], ['Ti', 'Titanium', 47.867], ['V', 'Vanadium', 50.942], ['Cr', 'Chromium', 51.996],
+    ['Mn', 'Manganese', 54.938], ['Fe', 'Iron', 55.845], ['Co', 'Cobalt', 58.933], ['Ni', 'Nickel', 58.693],
+    ['Cu', 'Copper', 63.546], ['Zn', 'Zinc', 65.38], ['Ga', 'Gallium', 69.723], ['Ge', 'Germanium', 72.630],
+    ['As', 'Arsenic', 74.922], ['Se', 'Selenium', 78.971], ['Br', 'Bromine', 79.904], ['Kr', 'Krypton', 83.798],
+    ['Rb', 'Rubidium', 85.468], ['Sr', 'Strontium', 87.62], ['Y', 'Yttrium', 88.906], ['Zr', 'Zirconium', 91.224],
+    ['Nb', 'Niobium', 92.906], ['Mo', 'Molybdenum', 95.95], ['Tc', 'Technetium', 98], ['Ru', 'Ruthenium', 101.07],
+    ['Rh', 'Rhodium', 102.91], ['Pd', 'Palladium', 106.42], ['Ag', 'Silver', 107.87], ['Cd', 'Cadmium', 112.41],
+    ['In', 'Indium', 114.82], ['Sn', 'Tin', 118.71], ['Sb', 'Antimony', 121.76], ['Te', 'Tellurium', 127.60],
+    ['I', 'Iodine', 126.90], ['Xe', 'Xenon', 131.29], ['Cs', 'Caesium', 132.91], ['Ba', 'Barium', 137.33],
+    ['La', 'Lanthanum', 138.91], ['Ce', 'Cerium', 140.12], ['Pr', 'Praseodymium', 140.91], ['Nd', 'Neodymium', 144.24],
+    ['Pm', 'Promethium', 145], ['Sm', 'Samarium', 150.36], ['Eu', 'Europium', 151.96], ['Gd', 'Gadolinium', 157.25],
+    ['Tb', 'Terbium', 158.93], ['Dy', 'Dysprosium', 162.50], ['Ho', 'Holmium', 164.93], ['Er', 'Erbium', 167.26],
+    ['Tm', 'Thulium', 168.93], ['Yb', 'Ytterbium', 173.05], ['Lu', 'Lutetium', 174.97], ['Hf', 'Hafnium', 178.49],
+    ['Ta', 'Tantalum', 180.95], ['W', 'Tungsten', 183.84], ['Re', 'Rhenium', 186.21], ['Os', 'Osmium', 190.23],
+    ['Ir', 'Iridium', 192.22], ['Pt', 'Platinum', 195.08], ['Au', 'Gold', 196.97], ['Hg', 'Mercury', 200.59],
+    ['Tl', 'Thallium', 204.38], ['Pb', 'Lead', 207.2], ['Bi', 'Bismuth', 208.98], ['Po', 'Polonium', 209],
+    ['At', 'Astatine', 210], ['Rn', 'Radon', 222], ['Fr', 'Francium', 223], ['Ra', 'Radium', 226],
+    ['Ac', 'Actinium', 227], ['Th', 'Thorium', 232.04], ['Pa', 'Protactinium', 231.04], ['U', 'Uranium', 238.03],
+    ['Np', 'Neptunium', 237], ['Pu', 'Plutonium', 244], ['Am', 'Americium', 243], ['Cm', 'Curium', 247],
+    ['Bk', 'Berkelium', 247], ['Cf', 'Californium', 251], ['Es', 'Einsteinium', 252], ['Fm', 'Fermium', 257],
+    ['Md', 'Mendelevium', 258], ['No', 'Nobelium', 259], ['Lr', 'Lawrencium', 262], ['Rf', 'Rutherfordium', 267],
+    ['Db', 'Dubnium', 268], ['Sg', 'Seaborgium', 269], ['Bh', 'Bohrium', 270], ['Hs', 'Hassium', 277],
+    ['Mt', 'Meitnerium', 278], ['Ds', 'Darmstadtium', 281], ['Rg', 'Roentgenium', 282], ['Cn', 'Copernicium', 285],
+    ['Nh', 'Nihonium', 286], ['Fl', 'Flerovium', 289], ['Mc', 'Moscovium', 290], ['Lv', 'Livermorium', 293],
+    ['Ts', 'Tennessine', 294], ['Og', 'Oganesson', 294],
+];
+
+// Spellings students meet besides the IUPAC names above.
+const ELEMENT_ALIASES: Record<string, string> = { aluminum: 'Al', cesium: 'Cs', sulphur: 'S' };
+
+// Atomic numbers that start each period; the last entry is one past the end of the table.
+const PERIOD_STARTS = [1, 3, 11, 19, 37, 55, 87, 119];
+
+export interface ElementInfo {
+    atomicNumber: number;
+    symbol: string;
+    name: string;
+    atomicMass: number;
+    period: number;
+    // Absent for the lanthanides and actinides, which sit outside the 18 groups.
+    group?: number;
+    block: 's' | 'p' | 'd' | 'f';
+}
+
+// Group and block follow from where the element sits in its period.
+const placeElement = (atomicNumber: number): Pick<ElementInfo, 'period' | 'group' | 'block'> => {
+    const period = PERIOD_STARTS.findIndex(start => start > atomicNumber);
+    const length = PERIOD_STARTS[period] - PERIOD_STARTS[period - 1];
+    const position = atomicNumber - PERIOD_STARTS[period - 1] + 1;
+    if (atomicNumber === 2) return { period, group: 18, block: 's' };
+    if (position <= 2) return { period, group: position, block: 's' };
+    // Counting back from the noble gas works for every period length.
+    const fromEnd = length - position;
+    if (fromEnd < 6) return { period, group: 18 - fromEnd, block: 'p' };
+    if (length === 32) {
+        // Periods 6 and 7: La/Ac in group 3, then 14 f-block elements, then the d-block resumes at group 4.
+        if (position === 3) return { period, group: 3, block: 'd' };
+        if (position <= 17) return { period, block: 'f' };
+        return { period, group: position - 14, block: 'd' };
+    }
+    return { period, group: position, block: 'd' };
+};
+
+export const lookupElement = (query: string): ElementInfo => {
+    const text = query.trim();
+    const lower = text.toLowerCase();
+    const number = /^\d+$/.test(text) ? Number(text) : undefined;
+    const index = number !== undefined
+        ? number - 1
+        : ELEMENTS.findIndex(([symbol, name]) => symbol.toLowerCase() === lower || name.toLowerCase() === lower || symbol === ELEMENT_ALIASES[lower]);
+    if (index < 0 || index >= ELEMENTS.length) throw new Error(`No element matches "${query}".`);
+    const [symbol, name, atomicMass] = ELEMENTS[index];
+    return { atomicNumber: index + 1, symbol, name, atomicMass, ...placeElement(index + 1) };
+};
+
+export interface PhysicalConstant {
+    name: string;
+    symbol: string;
+    value: number;
+    unit: string;
+}
+
+const CONSTANTS: PhysicalConstant[] = [
+    { name: 'speed of light in vacuum', symbol: 'c', value: 299792458, unit: 'm/s' },
+    { name: 'Planck constant', symbol: 'h', value: 6.62607015e-34, unit: 'J s' },
+    { name: 'reduced Planck constant', symbol: 'ħ', value: 1.054571817e-34, unit: 'J s' },
+    { name: 'elementary charge', symbol: 'e', value: 1.602176634e-19, unit: 'C' },
+    { name: 'electron mass', symbol: 'm_e', value: 9.1093837015e-31, unit: 'kg' },
+    { name: 'proton mass', symbol: 'm_p', value: 1.67262192369e-27, unit: 'kg' },
+    { name: 'neutron mass', symbol: 'm_n', value: 1.67492749804e-27, unit: 'kg' },
+    { name: 'atomic mass unit', symbol: 'u', value: 1.66053906660e-27, unit: 'kg' },
+    { name: 'Avogadro constant', symbol: 'N_A', value: 6.02214076e23, unit: '1/mol' },
+    { name: 'Boltzmann constant', symbol: 'k_B', value: 1.380649e-23, unit: 'J/K' },
+    { name: 'molar gas constant', symbol: 'R', value: 8.314462618, unit: 'J/(mol K)' },
+    { name: 'Faraday constant', symbol: 'F', value: 96485.33212, unit: 'C/mol' },
+    { name: 'gravitational constant', symbol: 'G', value: 6.67430e-11, unit: 'N m^2/kg^2' },
+    { name: 'standard acceleration of gravity', symbol: 'g', value: 9.80665, unit: 'm/s^2' },
+    { name: 'vacuum permittivity', symbol: 'ε_0', value: 8.8541878128e-12, unit: 'F/m' },
+    { name: 'vacuum permeability', symbol: 'μ_0', value: 1.25663706212e-6, unit: 'N/A^2' },
+    { name: 'Coulomb constant', symbol: 'k', value: 8.9875517923e9, unit: 'N m^2/C^2' },
+    { name: 'Stefan-Boltzmann constant', symbol: 'σ', value: 5.670374419e-8, unit: 'W/(m^2 K^4)' },
+    { name: 'Wien displacement constant', symbol: 'b', value: 2.897771955e-3, unit: 'm K' },
+    { name: 'Rydberg constant', symbol: 'R_∞', value: 10973731.568160, unit: '1/m' },
+    { name: 'Bohr radius', symbol: 'a_0', value: 5.29177210903e-11, unit: 'm' },
+    { name: 'standard atmosphere', symbol: 'atm', value: 101325, unit: 'Pa' },
+    { name: 'molar volume of an ideal gas at STP (273.15 K, 1 bar)', symbol: 'V_m', value: 22.71095464e-3, unit: 'm^3/mol' },
+];
+
+// Matches a symbol exactly (case matters: G is not g) or any word of the name.
+export const lookupConstant = (query: string): PhysicalConstant[] => {
+    const text = query.trim();
+    const bySymbol = CONSTANTS.filter(constant => constant.symbol === text || constant.symbol.replace('_', '') === text);
+    if (bySymbol.length > 0) return bySymbol;
+    const lower = text.toLowerCase();
+    const byName = CONSTANTS.filter(constant => constant.name.toLowerCase().includes(lower));
+    if (byName.length === 0) throw new Error(`No constant matches "${query}".`);
+    return byName;
+};
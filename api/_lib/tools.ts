@@ -0,0 +1,152 @@
+import { Type, type FunctionDeclaration } from "@google/genai";
+import type { ToolCall, ToolName } from '../../types';
+import { calculate, type AngleUnit } from './calculator';
+import { convertUnits } from './units';
+import { lookupConstant, lookupElement } from './reference';
+import { getFormulaSheet } from './formulaSheet';
+import type { TutorContext } from './prompts';
+
+// Tools the tutor can call while answering. They run here on the server, so the numbers in an
+// answer come from code rather than from the model's head. Each call is also reported to the
+// client as a ToolCall, so the student can see how a number was found.
+
+export const TOOL_DECLARATIONS: FunctionDeclaration[] = [
+    {
+        name: 'calculate',
+        description: 'Evaluates an arithmetic expression exactly. Use it for every calculation instead of working numbers out yourself. Supports + - * / ^, brackets, pi, e, sqrt, cbrt, exp, ln, log (base 10), log2, abs, min, max and trigonometric functions. Numbers only: substitute values for variables first.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                expression: { type: Type.STRING, description: 'The expression, e.g. "(2.5 * 10^3) / (9.8 * 0.25)" or "sqrt(2 * 9.8 * 20)".' },
+                angleUnit: { type: Type.STRING, enum: ['radians', 'degrees'], description: 'Unit of angles given to and returned by trigonometric functions. Defaults to radians.' },
+            },
+            required: ['expression'],
+        },
+    },
+    {
+        name: 'convert_units',
+        description: 'Converts a value between units of the same quantity: length, mass, time, area, volume, speed, acceleration, force, energy, power, pressure, charge, angle, amount of substance, frequency or temperature.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                value: { type: Type.NUMBER, description: 'The value to convert.' },
+                from: { type: Type.STRING, description: 'Unit of the value, e.g. "km/h", "eV", "atm" or "°C".' },
+                to: { type: Type.STRING, description: 'Unit to convert to, e.g. "m/s", "J", "kPa" or "K".' },
+            },
+            required: ['value', 'from', 'to'],
+        },
+    },
+    {
+        name: 'lookup_element',
+        description: 'Looks up an element in the periodic table: atomic number, atomic mass, period, group and block.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                element: { type: Type.STRING, description: 'Symbol, name or atomic number, e.g. "Fe", "iron" or "26".' },
+            },
+            required: ['element'],
+        },
+    },
+    {
+        name: 'lookup_constant',
+        description: 'Looks up the value and SI unit of a physical constant, such as the Planck constant, Avogadro constant or gas constant.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                constant: { type: Type.STRING, description: 'Symbol or name, e.g. "h", "N_A", "Boltzmann" or "electron mass".' },
+            },
+            required: ['constant'],
+        },
+    },
+    {
+        name: 'get_formula_sheet',
+        description: "Returns the standard formulas for a topic in the student's syllabus. Returns the list of topics when nothing matches.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                topic: { type: Type.STRING, description: 'Topic or subject, e.g. "electrostatics", "kinematics", "equilibrium" or "trigonometry".' },
+            },
+            required: ['topic'],
+        },
+    },
+];
+
+export interface ToolOutcome {
+    // What goes back to the model as the function response.
+    response: Record<string, unknown>;
+    // What the student sees. Absent when the model asked for a tool that does not exist.
+    call?: ToolCall;
+}
+
+const TOOL_NAMES = TOOL_DECLARATIONS.map(declaration => declaration.name as ToolName);
+
+const text = (value: unknown) => (typeof value === 'string' ? value : String(value ?? ''));
+
+const formatNumber = (value: number) => Number(value.toPrecision(12)).toString();
+
+const failure = (name: ToolName, input: string, error: unknown): ToolOutcome => {
+    const message = (error as Error).message;
+    return { response: { error: message }, call: { name, input, output: message, failed: true } };
+};
+
+// Runs one tool. Bad arguments are not exceptions here: the model gets the error back and can retry.
+const runNamedTool = (name: ToolName, args: Record<string, unknown>, context: TutorContext): ToolOutcome => {
+    switch (name) {
+        case 'calculate': {
+            const expression = text(args.expression);
+            const angleUnit: AngleUnit = args.angleUnit === 'degrees' ? 'degrees' : 'radians';
+            const input = angleUnit === 'degrees' ? `${expression} (degrees)` : expression;
+            try {
+                const result = calculate(expression, angleUnit);
+                const output = result.decimal ? `${result.result} ≈ ${result.decimal}` : result.exact ? result.result : `≈ ${result.result}`;
+                return { response: { ...result }, call: { name, input, output } };
+            } catch (error) {
+                return failure(name, input, error);
+            }
+        }
+        case 'convert_units': {
+            const value = Number(args.value);
+            const input = `${formatNumber(value)} ${text(args.from)} → ${text(args.to)}`;
+            try {
+                // Rounded, so 100 °C comes back as 212 °F rather than 211.99999999999997.
+                const converted = formatNumber(convertUnits(value, text(args.from), text(args.to)));
+                return { response: { value: Number(converted), unit: text(args.to) }, call: { name, input, output: `${converted} ${text(args.to)}` } };
+            } catch (error) {
+                return failure(name, input, error);
+            }
+        }
+        case 'lookup_element': {
+            const input = text(args.element);
+            try {
+                const element = lookupElement(input);
+                const place = element.group ? `group ${element.group}, period ${element.period}` : `period ${element.period}, ${element.block}-block`;
+                return { response: { ...element }, call: { name, input, output: `${element.name} (${element.symbol}), Z = ${element.atomicNumber}, ${element.atomicMass} u, ${place}` } };
+            } catch (error) {
+                return failure(name, input, error);
+            }
+        }
+        case 'lookup_constant': {
+            const input = text(args.constant);
+            try {
+                const constants = lookupConstant(input);
+                const output = constants.map(constant => `${constant.symbol} = ${constant.value} ${constant.unit}`).join('; ');
+                return { response: { constants }, call: { name, input, output } };
+            } catch (error) {
+                return failure(name, input, error);
+            }
+        }
+        case 'get_formula_sheet': {
+            const input = text(args.topic);
+            const sheet = getFormulaSheet(context.classId, input);
+            if (!('topics' in sheet)) return { response: sheet, call: { name, input, output: 'No matching topic', failed: true } };
+            return { response: sheet, call: { name, input, output: sheet.topics.map(topic => topic.topic).join(', ') } };
+        }
+    }
+};
+
+export const runTool = (name: string | undefined, args: Record<string, unknown> | undefined, context: TutorContext): ToolOutcome => {
+    if (!TOOL_NAMES.includes(name as ToolName)) {
+        return { response: { error: `There is no tool called "${name}".` } };
+    }
+    return runNamedTool(name as ToolName, args ?? {}, context);
+};
@@ -0,0 +1,108 @@
+// The convert_units tool. Each unit is a multiple of its SI unit, so a conversion goes through SI.
+// Temperatures are the exception: their scales have different zeros as well as different sizes.
+
+type Quantity =
+    | 'length' | 'mass' | 'time' | 'area' | 'volume' | 'speed' | 'acceleration' | 'force'
+    | 'energy' | 'power' | 'pressure' | 'charge' | 'angle' | 'amount' | 'frequency' | 'temperature';
+
+interface Unit {
+    quantity: Quantity;
+    // Size of one of this unit in the SI unit of its quantity.
+    factor: number;
+    // Added after scaling; only the temperature scales have one.
+    offset?: number;
+}
+
+const unit = (quantity: Quantity, factor: number, offset?: number): Unit => ({ quantity, factor, offset });
+
+// Keys are matched case-sensitively first, since "mm" and "Mm" or "mA" and "MA" are different units.
+const UNITS: Record<string, Unit> = {
+    'm': unit('length', 1), 'km': unit('length', 1e3), 'cm': unit('length', 1e-2), 'mm': unit('length', 1e-3),
+    'µm': unit('length', 1e-6), 'um': unit('length', 1e-6), 'nm': unit('length', 1e-9), 'pm': unit('length', 1e-12),
+    'Å': unit('length', 1e-10), 'angstrom': unit('length', 1e-10), 'fm': unit('length', 1e-15),
+    'in': unit('length', 0.0254), 'ft': unit('length', 0.3048), 'yd': unit('length', 0.9144), 'mi': unit('length', 1609.344),
+    'au': unit('length', 1.495978707e11), 'ly': unit('length', 9.4607304725808e15), 'pc': unit('length', 3.0856775814913673e16),
+
+    'kg': unit('mass', 1), 'g': unit('mass', 1e-3), 'mg': unit('mass', 1e-6), 'µg': unit('mass', 1e-9), 'ug': unit('mass', 1e-9),
+    't': unit('mass', 1e3), 'quintal': unit('mass', 100), 'lb': unit('mass', 0.45359237), 'oz': unit('mass', 0.028349523125),
+    'u': unit('mass', 1.66053906660e-27), 'amu': unit('mass', 1.66053906660e-27),
+
+    's': unit('time', 1), 'ms': unit('time', 1e-3), 'µs': unit('time', 1e-6), 'us': unit('time', 1e-6), 'ns': unit('time', 1e-9),
+    'min': unit('time', 60), 'h': unit('time', 3600), 'hr': unit('time', 3600), 'day': unit('time', 86400),
+    'week': unit('time', 604800), 'yr': unit('time', 3.15576e7), 'year': unit('time', 3.15576e7),
+
+    'm2': unit('area', 1), 'km2': unit('area', 1e6), 'cm2': unit('area', 1e-4), 'mm2': unit('area', 1e-6),
+    'hectare': unit('area', 1e4), 'ha': unit('area', 1e4), 'acre': unit('area', 4046.8564224), 'ft2': unit('area', 0.09290304),
+
+    'm3': unit('volume', 1), 'cm3': unit('volume', 1e-6), 'cc': unit('volume', 1e-6), 'mm3': unit('volume', 1e-9),
+    'L': unit('volume', 1e-3), 'mL': unit('volume', 1e-6), 'dm3': unit('volume', 1e-3), 'gal': unit('volume', 3.785411784e-3),
+
+    'm/s': unit('speed', 1), 'km/h': unit('speed', 1 / 3.6), 'kmph': unit('speed', 1 / 3.6), 'cm/s': unit('speed', 1e-2),
+    'mph': unit('speed', 0.44704), 'knot': unit('speed', 1852 / 3600),
+
+    'm/s2': unit('acceleration', 1), 'cm/s2': unit('acceleration', 1e-2), 'g0': unit('acceleration', 9.80665),
+
+    'N': unit('force', 1), 'kN': unit('force', 1e3), 'dyn': unit('force', 1e-5), 'kgf': unit('force', 9.80665), 'lbf': unit('force', 4.4482216152605),
+
+    'J': unit('energy', 1), 'kJ': unit('energy', 1e3), 'MJ': unit('energy', 1e6), 'erg': unit('energy', 1e-7),
+    'cal': unit('energy', 4.184), 'kcal': unit('energy', 4184), 'eV': unit('energy', 1.602176634e-19),
+    'keV': unit('energy', 1.602176634e-16), 'MeV': unit('energy', 1.602176634e-13), 'kWh': unit('energy', 3.6e6), 'Wh': unit('energy', 3600),
+
+    'W': unit('power', 1), 'kW': unit('power', 1e3), 'MW': unit('power', 1e6), 'hp': unit('power', 745.69987158227022),
+
+    'Pa': unit('pressure', 1), 'kPa': unit('pressure', 1e3), 'MPa': unit('pressure', 1e6), 'bar': unit('pressure', 1e5),
+    'atm': unit('pressure', 101325), 'mmHg': unit('pressure', 133.322387415), 'torr': unit('pressure', 101325 / 760),
+    'psi': unit('pressure', 6894.757293168),
+
+    'C': unit('charge', 1), 'mC': unit('charge', 1e-3), 'µC': unit('charge', 1e-6), 'uC': unit('charge', 1e-6),
+    'nC': unit('charge', 1e-9), 'e': unit('charge', 1.602176634e-19), 'mAh': unit('charge', 3.6), 'Ah': unit('charge', 3600),
+
+    'rad': unit('angle', 1), 'deg': unit('angle', Math.PI / 180), '°': unit('angle', Math.PI / 180),
+    'rev': unit('angle', 2 * Math.PI), 'arcmin': unit('angle', Math.PI / 10800), 'arcsec': unit('angle', Math.PI / 648000),
+
+    'mol': unit('amount', 1), 'mmol': unit('amount', 1e-3), 'kmol': unit('amount', 1e3),
+
+    'Hz': unit('frequency', 1), 'kHz': unit('frequency', 1e3), 'MHz': unit('frequency', 1e6), 'GHz': unit('frequency', 1e9),
+    'rpm': unit('frequency', 1 / 60),
+
+    // C on its own is the coulomb, so Celsius and Fahrenheit need the degree sign or a spelled-out name.
+    'K': unit('temperature', 1, 0), '°C': unit('temperature', 1, 273.15), '°F': unit('temperature', 5 / 9, 273.15 - 32 * 5 / 9),
+};
+
+// Spellings the model is likely to use, mapped to the keys above.
+const ALIASES: Record<string, string> = {
+    'metre': 'm', 'meter': 'm', 'kilometre': 'km', 'kilometer': 'km', 'centimetre': 'cm', 'centimeter': 'cm',
+    'millimetre': 'mm', 'millimeter': 'mm', 'micrometre': 'µm', 'micron': 'µm', 'nanometre': 'nm', 'nanometer': 'nm',
+    'inch': 'in', 'foot': 'ft', 'feet': 'ft', 'mile': 'mi', 'light year': 'ly', 'lightyear': 'ly', 'parsec': 'pc',
+    'kilogram': 'kg', 'gram': 'g', 'milligram': 'mg', 'tonne': 't', 'ton': 't', 'pound': 'lb', 'ounce': 'oz',
+    'second': 's', 'sec': 's', 'minute': 'min', 'hour': 'h', 'days': 'day',
+    'l': 'L', 'litre': 'L', 'liter': 'L', 'ml': 'mL', 'millilitre': 'mL', 'milliliter': 'mL', 'gallon': 'gal',
+    'm^2': 'm2', 'm²': 'm2', 'km^2': 'km2', 'km²': 'km2', 'cm^2': 'cm2', 'cm²': 'cm2', 'mm^2': 'mm2', 'mm²': 'mm2', 'ft^2': 'ft2',
+    'm^3': 'm3', 'm³': 'm3', 'cm^3': 'cm3', 'cm³': 'cm3', 'mm^3': 'mm3', 'mm³': 'mm3', 'dm^3': 'dm3', 'dm³': 'dm3',
+    'm s^-1': 'm/s', 'ms^-1': 'm/s', 'km/hr': 'km/h', 'kph': 'km/h', 'knots': 'knot',
+    'm/s^2': 'm/s2', 'm/s²': 'm/s2', 'cm/s^2': 'cm/s2', 'cm/s²': 'cm/s2', 'g-force': 'g0',
+    'newton': 'N', 'dyne': 'dyn', 'joule': 'J', 'calorie': 'cal', 'kilocalorie': 'kcal', 'electronvolt': 'eV', 'ev': 'eV',
+    'kwh': 'kWh', 'watt': 'W', 'horsepower': 'hp', 'pascal': 'Pa', 'pa': 'Pa', 'kpa': 'kPa', 'mmhg': 'mmHg', 'Torr': 'torr',
+    'coulomb': 'C', 'mah': 'mAh', 'radian': 'rad', 'degree': 'deg', 'degrees': 'deg', 'revolution': 'rev',
+    'mole': 'mol', 'hz': 'Hz', 'hertz': 'Hz', 'khz': 'kHz', 'mhz': 'MHz', 'ghz': 'GHz',
+    'kelvin': 'K', 'celsius': '°C', 'degC': '°C', 'ºC': '°C', 'fahrenheit': '°F', 'degF': '°F', 'ºF': '°F',
+};
+
+const findUnit = (name: string): Unit => {
+    const trimmed = name.trim();
+    const key = [trimmed, ALIASES[trimmed], ALIASES[trimmed.toLowerCase()], ALIASES[trimmed.toLowerCase().replace(/s$/, '')]]
+        .find(candidate => candidate !== undefined && Object.prototype.hasOwnProperty.call(UNITS, candidate));
+    if (!key) throw new Error(`Unknown unit "${name}".`);
+    return UNITS[key];
+};
+
+export const convertUnits = (value: number, from: string, to: string): number => {
+    if (!Number.isFinite(value)) throw new Error('The value must be a finite number.');
+    const source = findUnit(from);
+    const target = findUnit(to);
+    if (source.quantity !== target.quantity) {
+        throw new Error(`Cannot convert ${from} (${source.quantity}) to ${to} (${target.quantity}).`);
+    }
+    const si = value * source.factor + (source.offset ?? 0);
+    return (si - (target.offset ?? 0)) / target.factor;
+};
@@ -0,0 +1,63 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { GradeResult } from '../types';
+import handler from './grade';
+
+// The reply the model gives, set by each test.
+let reply: unknown;
+
+vi.mock('./_lib/provider', () => ({
+    getProvider: () => ({ generateJson: async () => reply }),
+}));
+
+const grade = (body: Record<string, unknown>) => new Promise<{ status: number; grade?: GradeResult }>(resolve => {
+    let status = 200;
+    const res = {
+        status(code: number) {
+            status = code;
+            return res;
+        },
+        json(data: { grade?: GradeResult }) {
+            resolve({ status, grade: data.grade });
+            return res;
+        },
+    };
+    handler({
+        method: 'POST',
+        body: { classId: '11', problem: 'Find v after falling 20 m from rest.', image: { name: 'work.png', mimeType: 'image/png', data: 'iVBORw0KGgo=' }, ...body },
+    } as VercelRequest, res as unknown as VercelResponse);
+});
+
+const step = (marks: unknown, verdict = 'correct') => ({ work: 'v² = 2gs', verdict, marks, comment: '' });
+
+describe('/api/grade', () => {
+    beforeEach(() => {
+        reply = undefined;
+    });
+
+    it.each([
+        { name: 'a claimed score above the step marks', steps: [step(1), step(1, 'incorrect')], claimed: 5, maxMarks: 5, score: 2 },
+        { name: 'a claimed score below the step marks', steps: [step(2), step(1.5, 'partial')], claimed: 0, maxMarks: 5, score: 3.5 },
+        { name: 'step marks that add up past the total', steps: [step(3), step(3)], claimed: 5, maxMarks: 5, score: 5 },
+        { name: 'marks not in halves', steps: [step(0.8), step(0.3)], claimed: 1, maxMarks: 2, score: 1.5 },
+        { name: 'marks that are not numbers', steps: [step('lots'), step(1)], claimed: 2, maxMarks: 2, score: 1 },
+    ])('scores the sum of the step marks for $name', async ({ steps, claimed, maxMarks, score }) => {
+        reply = { steps, maxMarks, score: claimed, hints: [], feedback: '' };
+        const result = await grade({ maxMarks });
+        expect(result.status).toBe(200);
+        expect(result.grade?.score).toBe(score);
+    });
+
+    it('ignores malformed steps and finds the first error from the verdicts', async () => {
+        reply = { steps: [null, 'v = 20', step(1), { verdict: 'correct', marks: 2 }, step(0, 'made up')], hints: ['Check the units.', 3], feedback: 'Good start.' };
+        const result = await grade({ maxMarks: 4 });
+        expect(result.grade).toMatchObject({ score: 1, firstErrorStep: 1, hints: ['Check the units.'], feedback: 'Good start.' });
+        expect(result.grade?.steps.map(s => s.verdict)).toEqual(['correct', 'incorrect']);
+    });
+
+    it('keeps a reply that is not an object from failing the request', async () => {
+        reply = 'not json';
+        const result = await grade({});
+        expect(result.grade).toMatchObject({ steps: [], score: 0, maxMarks: 1 });
+    });
+});
@@ -0,0 +1,136 @@
+import { Type } from "@google/genai";
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getProvider } from './_lib/provider';
+import { buildSystemInstruction, parseTutorContext } from './_lib/prompts';
+import { checkPayload } from './_lib/attachments';
+import { isRecord } from './_lib/body';
+import { attachmentKind } from '../utils/attachments';
+import type { GradeResult, GradedStep, StepVerdict } from '../types';
+
+// Marks a photo of a student's handwritten working against the problem they were solving.
+
+const MAX_PROBLEM_LENGTH = 4000;
+// Board questions are worth at most this many marks; the student may also leave it to the marker.
+const MAX_MARKS = 20;
+const MAX_HINTS = 3;
+
+const VERDICTS: StepVerdict[] = ['correct', 'partial', 'incorrect'];
+
+const gradeSchema = {
+    type: Type.OBJECT,
+    properties: {
+        steps: {
+            type: Type.ARRAY,
+            description: "The student's solution split into steps, in the order written.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    work: { type: Type.STRING, description: 'What the student wrote for this step, transcribed. Use LaTeX for maths.' },
+                    verdict: { type: Type.STRING, enum: VERDICTS, description: 'Whether the step is correct, partly correct or incorrect.' },
+                    marks: { type: Type.NUMBER, description: 'Marks awarded for this step, in halves.' },
+                    comment: { type: Type.STRING, description: 'Why the step earns its marks, or what is wrong with it. Do not give the correct working.' },
+                },
+                required: ['work', 'verdict', 'marks', 'comment'],
+            },
+        },
+        maxMarks: { type: Type.INTEGER, description: 'Marks the question is worth.' },
+        hints: {
+            type: Type.ARRAY,
+            description: `Up to ${MAX_HINTS} hints that help the student fix their own work.`,
+            items: { type: Type.STRING },
+        },
+        feedback: { type: Type.STRING, description: 'One or two encouraging sentences on the attempt as a whole.' },
+    },
+    required: ['steps', 'maxMarks', 'hints', 'feedback'],
+};
+
+const toHalves = (value: number) => Math.round(value * 2) / 2;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const normalizeStep = (step: unknown, maxMarks: number): GradedStep | undefined => {
+    if (!isRecord(step) || typeof step.work !== 'string' || !step.work.trim()) return undefined;
+    return {
+        work: step.work.trim(),
+        verdict: VERDICTS.find(verdict => verdict === step.verdict) ?? 'incorrect',
+        marks: clamp(toHalves(Number(step.marks) || 0), 0, maxMarks),
+        comment: typeof step.comment === 'string' ? step.comment.trim() : '',
+    };
+};
+
+// The model's output is shaped by the schema but not trusted: marks are kept within the
+// question's total, the score is the sum of the step marks, and the first error is found from
+// the verdicts rather than asked for.
+const normalizeGrade = (raw: unknown, problem: string, requestedMarks: number | undefined): GradeResult => {
+    const fields = isRecord(raw) ? raw : {};
+    const maxMarks = requestedMarks ?? clamp(Math.round(Number(fields.maxMarks)) || 1, 1, MAX_MARKS);
+    const steps = (Array.isArray(fields.steps) ? fields.steps : [])
+        .map(step => normalizeStep(step, maxMarks))
+        .filter((step): step is GradedStep => step !== undefined);
+    const firstErrorStep = steps.findIndex(step => step.verdict !== 'correct');
+    const hints = (Array.isArray(fields.hints) ? fields.hints : [])
+        .filter((hint: unknown): hint is string => typeof hint === 'string' && hint.trim() !== '')
+        .slice(0, MAX_HINTS);
+
+    return {
+        problem,
+        steps,
+        firstErrorStep: firstErrorStep >= 0 ? firstErrorStep : undefined,
+        score: Math.min(steps.reduce((total, step) => total + step.marks, 0), maxMarks),
+        maxMarks,
+        hints,
+        feedback: typeof fields.feedback === 'string' ? fields.feedback.trim() : '',
+    };
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+
+    const tutorContext = parseTutorContext(req.body);
+    if ('error' in tutorContext) {
+        return res.status(400).json({ error: tutorContext.error });
+    }
+
+    const { problem, maxMarks, image } = req.body;
+    if (typeof problem !== 'string' || !problem.trim() || problem.length > MAX_PROBLEM_LENGTH) {
+        return res.status(400).json({ error: `problem must be the question being answered, in at most ${MAX_PROBLEM_LENGTH} characters.` });
+    }
+    if (maxMarks !== undefined && (!Number.isInteger(maxMarks) || maxMarks < 1 || maxMarks > MAX_MARKS)) {
+        return res.status(400).json({ error: `maxMarks must be a whole number from 1 to ${MAX_MARKS}.` });
+    }
+    const imageProblem = checkPayload(image, 'image') ?? (attachmentKind(image.mimeType) !== 'image' ? 'image must be a photo of the working.' : undefined);
+    if (imageProblem) {
+        return res.status(400).json({ error: imageProblem });
+    }
+
+    try {
+        const marks = maxMarks
+            ? `The question is worth ${maxMarks} marks.`
+            : 'Decide how many marks the question would be worth in a board exam for this student, as its length and difficulty suggest.';
+        const prompt = `The photo shows a student's handwritten solution to this problem:
+
+---
+${problem.trim()}
+---
+
+Mark it the way a board examiner would, following the marking scheme for this student's syllabus. ${marks}
+- Transcribe the solution step by step and mark each step: method marks for a correct approach, accuracy marks for correct results. Carry an earlier mistake forward instead of penalising every later step for it.
+- Say what is wrong with a step, but never write out the correct working or the final answer. The student should fix the mistake themselves, so give hints instead.
+- If the photo does not show a solution to this problem, or cannot be read, return no steps and a score of 0, and say so in the feedback.`;
+
+        const raw = await getProvider().generateJson({
+            task: 'grade',
+            contents: [{ role: 'user', parts: [{ inlineData: { mimeType: image.mimeType, data: image.data } }, { text: prompt }] }],
+            systemInstruction: buildSystemInstruction(tutorContext),
+            schema: gradeSchema,
+        });
+
+        res.status(200).json({ grade: normalizeGrade(raw, problem.trim(), maxMarks) });
+
+    } catch (error) {
+        console.error('Error in grade route:', error);
+        res.status(500).json({ error: 'Failed to mark the work.' });
+    }
+}
@@ -0,0 +1,92 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { HintLevel, SolutionPlan } from '../types';
+
+process.env.MODEL_PROVIDER = 'mock';
+
+let handler: (req: VercelRequest, res: VercelResponse) => Promise<unknown>;
+
+beforeAll(async () => {
+    handler = (await import('./hint')).default;
+});
+
+type HintResponse = { plan?: SolutionPlan; hint?: { level: HintLevel; text: string }; token?: string; error?: string };
+
+const post = (body: Record<string, unknown>) => new Promise<{ status: number; body: HintResponse }>(resolve => {
+    let status = 200;
+    const res = {
+        status(code: number) {
+            status = code;
+            return res;
+        },
+        json(data: HintResponse) {
+            resolve({ status, body: data });
+            return res;
+        },
+    };
+    handler({ method: 'POST', body: { classId: '11', ...body } } as VercelRequest, res as unknown as VercelResponse);
+});
+
+const problem = 'A ball is thrown up at 20 m/s. How high does it go?';
+
+describe('/api/hint', () => {
+    it('reveals one level per request, following the token', async () => {
+        const start = await post({ problem });
+        expect(start.status).toBe(200);
+        const { plan } = start.body;
+
+        const first = await post({ problem, plan, revealed: [], token: start.body.token });
+        expect(first.status).toBe(200);
+        expect(first.body.hint?.level).toBe('nudge');
+
+        const second = await post({ problem, plan, revealed: [first.body.hint], token: first.body.token });
+        expect(second.status).toBe(200);
+        expect(second.body.hint?.level).toBe('method');
+    });
+
+    it('stops after the full solution', async () => {
+        const start = await post({ problem });
+        const { plan } = start.body;
+        let { token } = start.body;
+        const revealed: { level: HintLevel; text: string }[] = [];
+        for (const level of ['nudge', 'method', 'partial', 'full']) {
+            const next = await post({ problem, plan, revealed, token });
+            expect(next.body.hint?.level).toBe(level);
+            if (next.body.hint) revealed.push(next.body.hint);
+            token = next.body.token;
+        }
+
+        const after = await post({ problem, plan, revealed, token });
+        expect(after.status).toBe(400);
+        expect(after.body.error).toBe('Every hint has already been shown.');
+    });
+
+    it('refuses hints the server never gave', async () => {
+        const start = await post({ problem });
+        const { plan, token } = start.body;
+        const madeUp = [{ level: 'nudge', text: 'x' }, { level: 'method', text: 'y' }, { level: 'partial', text: 'z' }];
+
+        const skipped = await post({ problem, plan, revealed: madeUp, token });
+        expect(skipped.status).toBe(400);
+        expect(skipped.body.hint).toBeUndefined();
+    });
+
+    it('refuses a request without the token, or with one for another problem', async () => {
+        const start = await post({ problem });
+        const other = await post({ problem: 'Find the range of the same ball thrown at 45°.' });
+
+        expect((await post({ problem, plan: start.body.plan, revealed: [] })).status).toBe(400);
+        expect((await post({ problem, plan: start.body.plan, revealed: [], token: other.body.token })).status).toBe(400);
+    });
+
+    it('keeps the token valid after an attempt that earns no hint', async () => {
+        const start = await post({ problem });
+        const { plan } = start.body;
+        const checked = await post({ problem, plan, revealed: [], token: start.body.token, attempt: 'h = v²/2g = 20.4 m' });
+        expect(checked.status).toBe(200);
+
+        const revealed = checked.body.hint ? [checked.body.hint] : [];
+        const next = await post({ problem, plan, revealed, token: checked.body.token });
+        expect(next.status).toBe(200);
+    });
+});
@@ -0,0 +1,165 @@
+import { Type } from "@google/genai";
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getProvider } from './_lib/provider';
+import { buildSystemInstruction, parseTutorContext, type TutorContext } from './_lib/prompts';
+import { isProgressToken, signProgress } from './_lib/hintToken';
+import { isRecord } from './_lib/body';
+import { HINT_LEVELS, nextHintLevel } from '../utils/hints';
+import type { AttemptVerdict, HintLevel, SolutionPlan } from '../types';
+
+// "Solve with me". The first request returns a plan of sub-goals and no hint. After that, each
+// request reveals the next hint level only, worked out from the hints already shown. Those come
+// back from the client with the progress token issued alongside them (see hintToken.ts), so the
+// client cannot skip ahead to the solution. A request with an attempt has it checked first, and
+// the next hint comes only if the attempt is not correct.
+
+const MAX_PROBLEM_LENGTH = 4000;
+const MAX_ATTEMPT_LENGTH = 4000;
+
+const VERDICTS: AttemptVerdict[] = ['correct', 'on-track', 'incorrect'];
+
+const LEVEL_INSTRUCTIONS: Record<HintLevel, string> = {
+    nudge: 'a nudge: one short question or observation that points the student at what to think about first. No formulas and no working.',
+    method: 'the method: the principle or formula to use and the order of the steps, without substituting any values.',
+    partial: 'partial working: carry out the first part of the solution and stop before the final answer, leaving at least the last step to the student.',
+    full: 'the full solution, step by step, with the final answer.',
+};
+
+const planSchema = {
+    type: Type.OBJECT,
+    properties: {
+        goal: { type: Type.STRING, description: 'What the problem asks for, in one sentence.' },
+        steps: {
+            type: Type.ARRAY,
+            description: 'Sub-goals in order, phrased as what to find or show, e.g. "Find the acceleration". Never include values, working or results.',
+            items: { type: Type.STRING },
+        },
+    },
+    required: ['goal', 'steps'],
+};
+
+const hintSchema = {
+    type: Type.OBJECT,
+    properties: {
+        hint: { type: Type.STRING, description: 'The hint, at exactly the requested level. Use LaTeX for maths.' },
+    },
+    required: ['hint'],
+};
+
+const attemptSchema = {
+    type: Type.OBJECT,
+    properties: {
+        verdict: { type: Type.STRING, enum: VERDICTS, description: 'correct if the attempt solves the problem, on-track if it is right so far but unfinished, incorrect otherwise.' },
+        feedback: { type: Type.STRING, description: 'What is right and what is wrong in the attempt, without correcting it for the student.' },
+        hint: { type: Type.STRING, description: 'The next hint, at exactly the requested level. Leave empty when the attempt is correct or no hint was requested.' },
+    },
+    required: ['verdict', 'feedback'],
+};
+
+type Revealed = { level: HintLevel; text: string };
+
+const isPlan = (value: unknown): value is SolutionPlan => isRecord(value) && typeof value.goal === 'string'
+    && Array.isArray(value.steps) && value.steps.every((step: unknown) => typeof step === 'string');
+
+// The hints must be the levels in order from the first, with none skipped.
+const isRevealed = (value: unknown): value is Revealed[] => Array.isArray(value)
+    && value.length <= HINT_LEVELS.length
+    && value.every((hint: unknown, i) => isRecord(hint) && hint.level === HINT_LEVELS[i] && typeof hint.text === 'string');
+
+const describeSoFar = (problem: string, plan: SolutionPlan, revealed: Revealed[]) => `Problem:
+---
+${problem}
+---
+
+Solution plan shown to the student: ${plan.goal}
+${plan.steps.map((step, i) => `${i + 1}. ${step}`).join('\n')}
+
+Hints already shown: ${revealed.length === 0 ? 'none' : `\n${revealed.map(hint => `- ${hint.level}: ${hint.text}`).join('\n')}`}`;
+
+const generate = <T>(context: TutorContext, prompt: string, schema: object) => getProvider().generateJson<T>({
+    task: 'hint',
+    contents: prompt,
+    systemInstruction: buildSystemInstruction(context),
+    schema,
+});
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+
+    const tutorContext = parseTutorContext(req.body);
+    if ('error' in tutorContext) {
+        return res.status(400).json({ error: tutorContext.error });
+    }
+
+    const { problem, plan, revealed = [], attempt, token } = req.body;
+    if (typeof problem !== 'string' || !problem.trim() || problem.length > MAX_PROBLEM_LENGTH) {
+        return res.status(400).json({ error: `problem must be the question being solved, in at most ${MAX_PROBLEM_LENGTH} characters.` });
+    }
+    if (plan !== undefined && !isPlan(plan)) {
+        return res.status(400).json({ error: 'plan must be the plan returned by the first request.' });
+    }
+    if (!isRevealed(revealed)) {
+        return res.status(400).json({ error: `revealed must list the hints shown so far, in the order ${HINT_LEVELS.join(', ')}.` });
+    }
+    if (attempt !== undefined && (typeof attempt !== 'string' || !attempt.trim() || attempt.length > MAX_ATTEMPT_LENGTH)) {
+        return res.status(400).json({ error: `attempt must be the student's working, in at most ${MAX_ATTEMPT_LENGTH} characters.` });
+    }
+    if (plan && !isProgressToken(token, { problem, plan, revealed })) {
+        return res.status(400).json({ error: 'token must be the one returned with the plan or the last hint. Start the problem again if it was lost.' });
+    }
+    const level = nextHintLevel(revealed.length);
+
+    try {
+        if (!plan) {
+            const prompt = `A student wants to solve this problem themselves, with your help only when they ask:
+---
+${problem.trim()}
+---
+
+Break the solution into a short plan of sub-goals the student can work through. Do not solve any of them.`;
+            const result = await generate<SolutionPlan>(tutorContext, prompt, planSchema);
+            const newPlan: SolutionPlan = { goal: String(result.goal ?? ''), steps: (result.steps ?? []).map(String) };
+            return res.status(200).json({ plan: newPlan, token: signProgress({ problem, plan: newPlan, revealed: [] }) });
+        }
+
+        const soFar = describeSoFar(problem.trim(), plan, revealed);
+        if (attempt === undefined) {
+            if (!level) {
+                return res.status(400).json({ error: 'Every hint has already been shown.' });
+            }
+            const prompt = `${soFar}
+
+The student asked for another hint. Write ${LEVEL_INSTRUCTIONS[level]} Build on the hints already shown rather than repeating them.`;
+            const result = await generate<{ hint?: string }>(tutorContext, prompt, hintSchema);
+            const hint = { level, text: String(result.hint ?? '').trim() };
+            return res.status(200).json({ hint, token: signProgress({ problem, plan, revealed: [...revealed, hint] }) });
+        }
+
+        const nextHint = level
+            ? `If the attempt is not correct, also write the next hint: ${LEVEL_INSTRUCTIONS[level]}`
+            : 'Every hint has already been shown, so do not write another.';
+        const prompt = `${soFar}
+
+The student submitted this attempt:
+---
+${attempt.trim()}
+---
+
+Check the attempt against the problem. ${nextHint}`;
+        const result = await generate<{ verdict?: string; feedback?: string; hint?: string }>(tutorContext, prompt, attemptSchema);
+        const verdict = VERDICTS.includes(result.verdict as AttemptVerdict) ? result.verdict as AttemptVerdict : 'incorrect';
+        const hintText = String(result.hint ?? '').trim();
+        const hint = verdict !== 'correct' && level && hintText ? { level, text: hintText } : undefined;
+        res.status(200).json({
+            attempt: { verdict, feedback: String(result.feedback ?? '').trim() },
+            hint,
+            token: signProgress({ problem, plan, revealed: hint ? [...revealed, hint] : revealed }),
+        });
+
+    } catch (error) {
+        console.error('Error in hint route:', error);
+        res.status(500).json({ error: 'Failed to get a hint.' });
+    }
+}
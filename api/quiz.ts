@@ -1,68 +1,174 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getProvider } from './_lib/provider';
+import { buildSystemInstruction, parseTutorContext, type TutorContext } from './_lib/prompts';
+import { buildQuizSchema, TYPE_INSTRUCTIONS } from './_lib/quizSchema';
+import { shuffleQuiz, validateQuiz } from './_lib/quizValidation';
+import { QUIZ_QUESTION_TYPES, QUIZ_TYPE_LABELS } from '../utils/quiz';
+import { ADAPTIVE_BATCH_SIZE } from '../utils/adaptiveQuiz';
+import type { QuizErrorResponse, QuizQuestion, QuizQuestionType, RejectedQuizQuestion } from '../types';
 
+// Generates a quiz, checks every question, and asks again for replacements of the ones that
+// fail, up to MAX_REPAIR_ROUNDS times. The client only ever gets a complete, valid quiz.
 
-import { GoogleGenAI, Type } from "@google/genai";
-import type { VercelRequest, VercelResponse } from '@vercel/node';
+const MAX_REPAIR_ROUNDS = 2;
+
+// Adaptive quizzes ask for their questions a batch at a time.
+const QUIZ_SIZES = [ADAPTIVE_BATCH_SIZE, 5, 10, 15, 20];
+
+// Bounds on the text the client sends, which goes into the prompt: the topic and difficulty,
+// and the lists an adaptive quiz sends back.
+const MAX_LIST_ITEMS = 30;
+const MAX_TEXT_LENGTH = 300;
+
+type TypeCount = { type: QuizQuestionType; count: number };
+
+// Spreads the questions over the requested types as evenly as possible, in the order given.
+const countPerType = (total: number, types: QuizQuestionType[]): TypeCount[] =>
+    types.map((type, i) => ({ type, count: Math.floor(total / types.length) + (i < total % types.length ? 1 : 0) }))
+        .filter(({ count }) => count > 0);
+
+const describeMix = (mix: TypeCount[]) =>
+    mix.map(({ type, count }) => `- ${count} of type "${type}" (${QUIZ_TYPE_LABELS[type]}): ${TYPE_INSTRUCTIONS[type]}`).join('\n');
+
+// Takes questions in the order given until each type has as many as the mix asks for; extras are dropped.
+const takeForMix = (questions: QuizQuestion[], mix: TypeCount[]) => {
+    const wanted = new Map(mix.map(({ type, count }) => [type, count]));
+    return questions.filter(question => {
+        const left = wanted.get(question.type) ?? 0;
+        wanted.set(question.type, left - 1);
+        return left > 0;
+    });
+};
+
+const stillMissing = (mix: TypeCount[], accepted: QuizQuestion[]): TypeCount[] => mix
+    .map(({ type, count }) => ({ type, count: count - accepted.filter(question => question.type === type).length }))
+    .filter(({ count }) => count > 0);
+
+const trimText = (text: string) => text.trim().slice(0, MAX_TEXT_LENGTH);
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
+// A required string from the request body; undefined when it is not one or is blank.
+const parseText = (value: unknown): string | undefined => (typeof value === 'string' ? trimText(value) : '') || undefined;
+
+// An optional list of strings from the request body; undefined when it is not one.
+const parseTextList = (value: unknown): string[] | undefined => {
+    if (value === undefined) return [];
+    if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) return undefined;
+    return value.map(trimText).filter(Boolean).slice(-MAX_LIST_ITEMS);
+};
+
+const bulletList = (items: string[]) => items.map(item => `- ${item}`).join('\n');
+
+const sendError = (res: VercelResponse, status: number, body: QuizErrorResponse) => res.status(status).json(body);
+
+const generateRound = async (context: TutorContext, prompt: string, mix: TypeCount[]): Promise<unknown[]> => {
+    const count = mix.reduce((sum, { count }) => sum + count, 0);
+    const data = await getProvider().generateJson<{ quiz?: unknown }>({
+        task: 'quiz',
+        contents: prompt,
+        systemInstruction: buildSystemInstruction(context),
+        schema: buildQuizSchema(count, mix.map(({ type }) => type)),
+    });
+    return Array.isArray(data?.quiz) ? data.quiz : [];
+};
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
     if (req.method !== 'POST') {
         return res.status(405).json({ error: 'Method Not Allowed' });
     }
 
+    const tutorContext = parseTutorContext(req.body);
+    if ('error' in tutorContext) {
+        return sendError(res, 400, { error: tutorContext.error, code: 'invalid-request', field: tutorContext.field });
+    }
+
+    const { numQuestions, types = ['single'] } = req.body;
+    const topic = parseText(req.body.topic);
+    const difficulty = parseText(req.body.difficulty);
+    for (const [field, value] of Object.entries({ topic, numQuestions, difficulty })) {
+        if (!value) {
+            return sendError(res, 400, { error: 'Topic, numQuestions, and difficulty are required.', code: 'invalid-request', field });
+        }
+    }
+    if (!Array.isArray(types) || types.length === 0 || !types.every(type => QUIZ_QUESTION_TYPES.includes(type))) {
+        return sendError(res, 400, { error: `types must be a non-empty list of: ${QUIZ_QUESTION_TYPES.join(', ')}.`, code: 'invalid-request', field: 'types' });
+    }
+
+    // Adaptive quizzes send the subtopics named so far, the ones to concentrate on, and the
+    // questions already asked.
+    const lists = { subtopics: req.body.subtopics, focusSubtopics: req.body.focusSubtopics, exclude: req.body.exclude };
+    const parsed: Partial<Record<keyof typeof lists, string[]>> = {};
+    for (const [field, value] of Object.entries(lists) as [keyof typeof lists, unknown][]) {
+        const list = parseTextList(value);
+        if (!list) {
+            return sendError(res, 400, { error: `${field} must be a list of strings.`, code: 'invalid-request', field });
+        }
+        parsed[field] = list;
+    }
+    const { subtopics = [], focusSubtopics = [], exclude = [] } = parsed;
+
+    const validNumQuestions = QUIZ_SIZES.includes(Number(numQuestions)) ? Number(numQuestions) : 5;
+    const mix = countPerType(validNumQuestions, [...new Set<QuizQuestionType>(types)]);
+
     try {
-        const { topic, systemInstruction, numQuestions, difficulty } = req.body;
-        if (!topic || !systemInstruction || !numQuestions || !difficulty) {
-            return res.status(400).json({ error: 'Topic, systemInstruction, numQuestions, and difficulty are required.' });
+        let accepted: QuizQuestion[] = [];
+        const rejected: RejectedQuizQuestion[] = [];
+
+        for (let round = 0; round <= MAX_REPAIR_ROUNDS; round++) {
+            const missing = stillMissing(mix, accepted);
+            if (missing.length === 0) break;
+
+            const roundRejected = rejected.filter(item => item.round === round - 1);
+            const prompt = round === 0
+                ? `Generate a ${validNumQuestions}-question quiz about "${topic}" with a difficulty level of "${difficulty}". The questions should be strictly academic and appropriate for the student described in the system instruction.
+
+Include exactly:
+${describeMix(missing)}
+
+Give every question the subtopic of "${topic}" it tests.${subtopics.length > 0 ? ` Reuse these names where they fit: ${subtopics.join('; ')}.` : ''}${focusSubtopics.length > 0 ? `
+The student has just made mistakes on these subtopics, so concentrate on them: ${focusSubtopics.join('; ')}.` : ''}${exclude.length > 0 ? `
+
+The student has already answered these questions, so do not repeat them:
+${bulletList(exclude)}` : ''}
+
+Fill in only the fields that belong to each question's type.`
+                : `Some questions generated for a quiz about "${topic}" (difficulty "${difficulty}") were unusable. Generate replacements, exactly:
+${describeMix(missing)}
+
+The rejected questions had these problems, which the replacements must avoid:
+${roundRejected.flatMap(item => item.issues.map(found => `- ${found.message}`)).join('\n') || '- The response could not be read.'}
+
+Do not repeat any of the questions the quiz already has:
+${bulletList([...exclude, ...accepted.map(question => question.question)]) || '- (none yet)'}
+
+Give every question the subtopic of "${topic}" it tests. Fill in only the fields that belong to each question's type.`;
+
+            let raw: unknown[];
+            try {
+                raw = await generateRound(tutorContext, prompt, missing);
+            } catch (error) {
+                // A reply that is not valid JSON gets the same second chance as a bad question.
+                if (!(error instanceof SyntaxError)) throw error;
+                rejected.push({ round, index: -1, issues: [{ code: 'malformed', message: 'The response was not valid JSON.' }] });
+                continue;
+            }
+
+            const checked = validateQuiz(raw, missing.map(({ type }) => type), accepted, round);
+            rejected.push(...checked.rejected);
+            accepted = [...accepted, ...takeForMix(checked.questions, missing)];
+        }
+
+        if (stillMissing(mix, accepted).length > 0) {
+            return sendError(res, 502, {
+                error: `Only ${accepted.length} of ${validNumQuestions} generated questions passed the checks. Please try again.`,
+                code: 'generation-failed',
+                rejected,
+            });
         }
 
-        const validNumQuestions = [5, 10, 15, 20].includes(Number(numQuestions)) ? Number(numQuestions) : 5;
-
-        // Define the expected JSON structure for a quiz dynamically
-        const quizSchema = {
-            type: Type.OBJECT,
-            properties: {
-                quiz: {
-                    type: Type.ARRAY,
-                    description: `An array of ${validNumQuestions} multiple-choice quiz questions.`,
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                            question: { type: Type.STRING, description: "The quiz question." },
-                            options: {
-                                type: Type.ARRAY,
-                                description: "An array of 4 possible answers.",
-                                items: { type: Type.STRING }
-                            },
-                            correctAnswerIndex: { type: Type.INTEGER, description: "The 0-based index of the correct answer in the 'options' array." },
-                            explanation: { type: Type.STRING, description: "A brief explanation for why the correct answer is right." }
-                        },
-                        required: ["question", "options", "correctAnswerIndex", "explanation"]
-                    }
-                }
-            },
-            required: ["quiz"]
-        };
-
-        const prompt = `Generate a ${validNumQuestions}-question multiple-choice quiz about "${topic}" with a difficulty level of "${difficulty}". The questions should be strictly academic and appropriate for the student described in the system instruction. Ensure there are exactly 4 options for each question.`;
-
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                systemInstruction,
-                responseMimeType: "application/json",
-                responseSchema: quizSchema,
-            },
-        });
-
-        // The response.text should be a JSON string that conforms to the schema
-        const quizData = JSON.parse(response.text);
-        
-        res.status(200).json(quizData);
+        res.status(200).json({ quiz: shuffleQuiz(accepted) });
 
     } catch (error) {
         console.error('Error in quiz generation route:', error);
         res.status(500).json({ error: 'Failed to generate quiz.' });
     }
-}
\ No newline at end of file
+}
@@ -1,7 +1,5 @@
-import { GoogleGenAI } from "@google/genai";
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
+import { getProvider } from './_lib/provider';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
     if (req.method !== 'POST') {
@@ -9,12 +7,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     try {
-        const { conversation } = req.body;
-        const prompt = `Please provide a concise summary of the key points and topics from the following conversation:\n\n---\n${conversation}\n---`;
+        const { conversation, previousSummary } = req.body;
+        // With a previous summary this extends it, which is how the chat keeps a rolling summary of older turns.
+        const prompt = previousSummary
+            ? `Here is a summary of the earlier part of a conversation:\n\n---\n${previousSummary}\n---\n\nRewrite it as one concise summary of the key points and topics that also covers the following continuation:\n\n---\n${conversation}\n---`
+            : `Please provide a concise summary of the key points and topics from the following conversation:\n\n---\n${conversation}\n---`;
         
-        const response = await ai.models.generateContent({ model: 'gemini-2.5-flash', contents: prompt });
+        const { text } = await getProvider().generate({ task: 'summary', contents: prompt });
         
-        res.status(200).json({ summary: response.text });
+        res.status(200).json({ summary: text });
 
     } catch (error) {
         console.error('Error in summarize route:', error);
@@ -1,8 +1,6 @@
 
-import { GoogleGenAI } from "@google/genai";
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
+import { getProvider } from './_lib/provider';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
     if (req.method !== 'POST') {
@@ -30,15 +28,15 @@ ${conversation}
 
 **Title:**`;
         
-        const response = await ai.models.generateContent({ 
-            model: 'gemini-2.5-flash', 
+        const { text } = await getProvider().generate({ 
+            task: 'title',
             contents: prompt,
             // Disable thinking for this simple, fast task.
-            config: { thinkingConfig: { thinkingBudget: 0 } }
+            disableThinking: true,
         });
         
         // Clean up the title - remove quotes and extra whitespace
-        const title = response.text.replace(/["']/g, '').trim();
+        const title = text.replace(/["']/g, '').trim();
 
         res.status(200).json({ title });
 
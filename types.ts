@@ -4,30 +4,293 @@
 
 export interface GroundingChunk { web: { uri: string; title: string; } }
 
+// Links a span of the answer to the sources that support it (indices into ChatMessage.sources).
+export interface Citation { text: string; sourceIndices: number[]; }
+
+export type TokenUsage = {
+    promptTokens?: number;
+    responseTokens?: number;
+    totalTokens?: number;
+};
+
+export type ToolName = 'calculate' | 'convert_units' | 'lookup_element' | 'lookup_constant' | 'get_formula_sheet';
+
+// A tool the server ran while writing an answer, described for the student rather than the model.
+export type ToolCall = {
+    name: ToolName;
+    input: string;
+    output: string;
+    // The tool rejected its input; output holds the reason.
+    failed?: boolean;
+};
+
+export type StepVerdict = 'correct' | 'partial' | 'incorrect';
+
+// One step of a student's written solution, as read from their photo and marked.
+export type GradedStep = {
+    work: string;
+    verdict: StepVerdict;
+    marks: number;
+    comment: string;
+};
+
+// Marking of a photographed solution, returned by /api/grade.
+export type GradeResult = {
+    problem: string;
+    steps: GradedStep[];
+    // Index into steps of the first step that is not fully correct; absent when none is.
+    firstErrorStep?: number;
+    score: number;
+    maxMarks: number;
+    // Nudges towards fixing the work. They never give the full answer.
+    hints: string[];
+    feedback: string;
+};
+
+// Hint levels of "Solve with me", from least to most revealing.
+export type HintLevel = 'nudge' | 'method' | 'partial' | 'full';
+
+// The route to a solution as sub-goals, without any of the working or results.
+export type SolutionPlan = {
+    goal: string;
+    steps: string[];
+};
+
+export type RevealedHint = {
+    level: HintLevel;
+    text: string;
+    revealedAt: number;
+};
+
+export type AttemptVerdict = 'correct' | 'on-track' | 'incorrect';
+
+export type HintAttempt = {
+    text: string;
+    verdict: AttemptVerdict;
+    feedback: string;
+    submittedAt: number;
+};
+
+// One problem worked through with "Solve with me", as kept in the 'hintSessions' store. The
+// hints list is the record of how much help the student needed.
+export type HintSession = {
+    id: string;
+    chatId: string;
+    problem: string;
+    plan: SolutionPlan;
+    hints: RevealedHint[];
+    attempts: HintAttempt[];
+    solved: boolean;
+    // Issued by /api/hint with the plan and each hint, and sent back to continue the problem.
+    progressToken?: string;
+    createdAt: number;
+    updatedAt: number;
+};
+
+// Set on model messages that did not finish normally. Absent means the answer is complete.
+export type MessageStatus = 'truncated' | 'blocked' | 'error' | 'stopped';
+
 export type ChatMessage = {
     role: 'user' | 'model';
     text: string;
-    image?: string;
+    // Files the student attached. Their contents are in the IndexedDB 'attachments' store.
+    attachments?: MessageAttachment[];
     sources?: GroundingChunk[];
+    citations?: Citation[];
+    toolCalls?: ToolCall[];
+    // Set on the reply to "Check my work"; text then holds the same marking as markdown.
+    grade?: GradeResult;
+    // Set on the reply that starts "Solve with me"; text then mirrors the session as markdown.
+    hintSessionId?: string;
+    // Set on the report of a submitted mock test; text then holds its summary as markdown.
+    mockTestId?: string;
+    // Set on the reply that starts a quiz; the attempt is saved as the student answers.
+    quizAttemptId?: string;
+    status?: MessageStatus;
+    usage?: TokenUsage;
 };
 
+// Events streamed by /api/chat as newline-delimited JSON, one object per line.
+export type ChatStreamEvent =
+    | { type: 'text'; text: string }
+    | { type: 'sources'; sources: GroundingChunk[]; citations?: Citation[] }
+    | { type: 'tool'; call: ToolCall }
+    | { type: 'usage'; usage: TokenUsage }
+    | { type: 'finish'; finishReason?: string }
+    | { type: 'error'; error: string };
+
 export type Chat = {
     title: string;
     messages: ChatMessage[];
 };
 
-export type StoredChat = Chat & {
+// Chat metadata, as kept in the 'chats' store. Messages live in their own store and are loaded
+// only when a chat is opened.
+export type StoredChat = {
     id: string;
     classNum: number;
+    title: string;
     createdAt: number;
     isPinned?: boolean;
+    // Number of messages ever appended; also the seq given to the next one.
+    messageCount: number;
+    // Start of the first message, shown in the sidebar until a title exists.
+    preview?: string;
+    // Last message of the branch currently shown. New messages are appended after it.
+    activeLeafId?: string;
+    // Rolling summary of older messages, sent in their place to keep requests small.
+    contextSummary?: ContextSummary;
+};
+
+export type ContextSummary = {
+    text: string;
+    // Last message the summary covers. It only applies while that message is on the shown branch.
+    throughMessageId: string;
+};
+
+export type StoredMessage = ChatMessage & {
+    id: string;
+    chatId: string;
+    // Order in which messages were added to the chat.
+    seq: number;
+    // The message this one follows; null for the first message. Messages sharing a parent are
+    // alternative versions of the same turn (an edited question or a regenerated answer).
+    parentId: string | null;
+};
+
+export type SearchResult = {
+    chat: StoredChat;
+    // Set when a message matched; absent when the chat title matched.
+    messageId?: string;
+    text: string;
+    score: number;
+};
+
+// Describes an attached file on the message that carries it, so it can be shown without loading it.
+export type MessageAttachment = {
+    id: string;
+    name: string;
+    mimeType: string;
+    size: number;
 };
 
-export type QuizQuestion = {
+export type StoredAttachment = MessageAttachment & {
+    chatId: string;
+    blob: Blob;
+    createdAt: number;
+};
+
+// A file as /api/chat receives it.
+export type AttachmentPayload = {
+    name: string;
+    mimeType: string;
+    // Base64, without a data: prefix.
+    data: string;
+};
+
+export type QuizQuestionType = 'single' | 'multiple' | 'numerical' | 'assertion-reason' | 'match' | 'true-false';
+
+type QuizQuestionBase = {
     question: string;
-    options: string[];
-    correctAnswerIndex: number;
     explanation: string;
+    // The part of the quiz topic the question tests, as named by the model. Adaptive quizzes
+    // estimate a level for each one.
+    subtopic?: string;
+};
+
+export type QuizQuestion = QuizQuestionBase & (
+    | { type: 'single'; options: string[]; correctAnswerIndex: number }
+    // One or more options are correct; only the exact set scores.
+    | { type: 'multiple'; options: string[]; correctAnswerIndices: number[] }
+    // Any answer within tolerance of the value is right. Integer-type questions have a tolerance of 0.
+    | { type: 'numerical'; answer: number; tolerance: number; unit?: string }
+    // The options are always ASSERTION_REASON_OPTIONS (utils/quiz.ts).
+    | { type: 'assertion-reason'; assertion: string; reason: string; correctAnswerIndex: number }
+    // correctMatches[i] is the index in right that left[i] pairs with.
+    | { type: 'match'; left: string[]; right: string[]; correctMatches: number[] }
+    | { type: 'true-false'; correctAnswer: boolean }
+);
+
+// The student's answer, shaped by the question type: an option index for single and
+// assertion-reason, indices for multiple, a value for numerical, the chosen right-hand index
+// for each left-hand item for match, and a boolean for true-false.
+export type QuizAnswer = number | number[] | boolean;
+
+// One sitting of a quiz, kept in the IndexedDB 'quizAttempts' store. answers[i] and
+// timeSpentMs[i] belong to questions[i]; questions not reached have a null answer and no time.
+export type QuizAttempt = {
+    id: string;
+    chatId: string;
+    topic: string;
+    difficulty: string;
+    questions: QuizQuestion[];
+    answers: (QuizAnswer | null)[];
+    // Time from showing each question to answering it.
+    timeSpentMs: number[];
+    startedAt: number;
+    // Absent while the quiz is under way, and for good when it was closed before the end.
+    finishedAt?: number;
+    // Set on a retake: the attempt it repeats, and whether only the questions answered wrongly there were asked again.
+    retakeOf?: { attemptId: string; wrongOnly: boolean };
+    // Set on adaptive quizzes: the level each question was asked at, as an index into ADAPTIVE_LEVELS (utils/adaptiveQuiz.ts).
+    levels?: number[];
+};
+
+// Problems /api/quiz can find in a generated question. Questions with any of them are replaced.
+export type QuizIssueCode =
+    | 'malformed'
+    | 'unexpected-type'
+    | 'option-count'
+    | 'duplicate-options'
+    | 'answer-out-of-range'
+    | 'duplicate-question';
+
+export type QuizIssue = { code: QuizIssueCode; message: string };
+
+// A generated question that failed validation. round 0 is the first generation, and later rounds
+// are the attempts to replace what failed. index is the question's place in that round's output.
+export type RejectedQuizQuestion = { round: number; index: number; type?: string; issues: QuizIssue[] };
+
+// Error body of /api/quiz. 'invalid-request' names the field at fault; 'generation-failed' lists
+// what was wrong with the questions that could not be replaced.
+export type QuizErrorResponse =
+    | { error: string; code: 'invalid-request'; field: string }
+    | { error: string; code: 'generation-failed'; rejected: RejectedQuizQuestion[] };
+
+export type ExamPatternId = 'jee-main' | 'jee-advanced' | 'neet' | 'board';
+
+// Marks for one question type in a mock test. partialPerOption is JEE Advanced's partial credit
+// on multiple-correct questions: marks for each correct option chosen, when no wrong one is.
+export type MarkingScheme = { correct: number; incorrect: number; partialPerOption?: number };
+
+export type MockTestSection = { name: string; questions: QuizQuestion[] };
+
+// One question's state during a mock test. timeSpentMs adds up every visit to the question.
+export type MockTestResponse = {
+    answer: QuizAnswer | null;
+    visited: boolean;
+    markedForReview: boolean;
+    timeSpentMs: number;
+};
+
+// A submitted mock test, kept in the IndexedDB 'mockTests' store for review.
+export type MockTest = {
+    id: string;
+    chatId: string;
+    pattern: ExamPatternId;
+    title: string;
+    // What the student asked the test to cover, if anything.
+    topic?: string;
+    difficulty: string;
+    sections: MockTestSection[];
+    marking: Partial<Record<QuizQuestionType, MarkingScheme>>;
+    durationSeconds: number;
+    // responses[s][q] belongs to sections[s].questions[q].
+    responses: MockTestResponse[][];
+    startedAt: number;
+    submittedAt: number;
+    // True when the countdown ran out before the student submitted.
+    timedOut: boolean;
 };
 
 export type SelectOption = {
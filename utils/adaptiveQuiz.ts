@@ -0,0 +1,127 @@
+import { isAnswerCorrect } from './quiz';
+import type { QuizAttempt } from '../types';
+
+// Adaptive quizzes are generated a few questions at a time. After each batch the difficulty
+// moves up or down a level with how the student did on it, and the next batch leans on the
+// subtopics they just missed. The student's level is estimated with a Rasch model: the chance
+// of answering a question at level d correctly is 1 / (1 + e^(d - level)). The quiz stops
+// once that estimate is precise enough. Students see the hardest level they would get right
+// about MASTERY_CHANCE of the time, which is a little below the model's level.
+
+export const ADAPTIVE_LEVELS = ['Very easy', 'Easy', 'Medium', 'Hard', 'Very hard'];
+
+// Where an adaptive quiz starts for each difficulty of the quiz setup.
+export const ADAPTIVE_START_LEVELS: Record<string, number> = { Easy: 1, Medium: 2, Hard: 3 };
+
+export const ADAPTIVE_BATCH_SIZE = 3;
+
+export const ADAPTIVE_MIN_QUESTIONS = 6;
+
+export const ADAPTIVE_MAX_QUESTIONS = 18;
+
+// Standard error, in levels, at which the estimate counts as settled.
+const TARGET_STANDARD_ERROR = 0.6;
+
+// Before any answers the student is assumed to be at Medium, give or take a level and a half.
+const OVERALL_PRIOR = { mean: 2, sd: 1.5 };
+
+// A subtopic with few answers is pulled towards the overall level rather than trusted alone.
+const SUBTOPIC_PRIOR_SD = 1;
+
+const MAX_FOCUS_SUBTOPICS = 3;
+
+const MASTERY_CHANCE = 0.7;
+
+export type AdaptiveResponse = { subtopic: string; level: number; correct: boolean };
+
+export type LevelEstimate = { level: number; standardError: number };
+
+export type SubtopicEstimate = LevelEstimate & { subtopic: string; asked: number; correct: number };
+
+export type Confidence = 'high' | 'medium' | 'low';
+
+const clampLevel = (level: number) => Math.min(ADAPTIVE_LEVELS.length - 1, Math.max(0, level));
+
+const chanceCorrect = (ability: number, level: number) => 1 / (1 + Math.exp(level - ability));
+
+// The answered questions of an adaptive attempt. Questions without a subtopic count towards
+// the quiz topic itself.
+export const adaptiveResponses = (attempt: Pick<QuizAttempt, 'topic' | 'questions' | 'answers' | 'levels'>): AdaptiveResponse[] =>
+    attempt.questions.flatMap((question, i) => attempt.answers[i] === null || attempt.answers[i] === undefined ? [] : [{
+        subtopic: question.subtopic?.trim() || attempt.topic,
+        level: attempt.levels?.[i] ?? OVERALL_PRIOR.mean,
+        correct: isAnswerCorrect(question, attempt.answers[i]),
+    }]);
+
+// Maximum a posteriori estimate of the level, found with Newton's method.
+export const estimateLevel = (responses: AdaptiveResponse[], prior = OVERALL_PRIOR): LevelEstimate => {
+    const precision = 1 / (prior.sd * prior.sd);
+    let level = prior.mean;
+    let information = precision;
+    for (let step = 0; step < 25; step++) {
+        let gradient = -(level - prior.mean) * precision;
+        information = precision;
+        for (const response of responses) {
+            const p = chanceCorrect(level, response.level);
+            gradient += (response.correct ? 1 : 0) - p;
+            information += p * (1 - p);
+        }
+        const change = gradient / information;
+        level += Math.max(-1, Math.min(1, change));
+        if (Math.abs(change) < 1e-4) break;
+    }
+    return { level, standardError: 1 / Math.sqrt(information) };
+};
+
+export const estimateBySubtopic = (responses: AdaptiveResponse[], overall = estimateLevel(responses)): SubtopicEstimate[] => {
+    const bySubtopic = new Map<string, AdaptiveResponse[]>();
+    // Subtopics are matched without regard to case, since batches are tagged separately.
+    for (const response of responses) {
+        const key = [...bySubtopic.keys()].find(name => name.toLowerCase() === response.subtopic.toLowerCase()) ?? response.subtopic;
+        bySubtopic.set(key, [...(bySubtopic.get(key) ?? []), response]);
+    }
+    return [...bySubtopic].map(([subtopic, answers]) => ({
+        subtopic,
+        asked: answers.length,
+        correct: answers.filter(answer => answer.correct).length,
+        ...estimateLevel(answers, { mean: overall.level, sd: SUBTOPIC_PRIOR_SD }),
+    })).sort((a, b) => a.level - b.level);
+};
+
+export const levelLabel = (estimate: LevelEstimate) =>
+    ADAPTIVE_LEVELS[clampLevel(Math.round(estimate.level - Math.log(MASTERY_CHANCE / (1 - MASTERY_CHANCE))))];
+
+export const confidenceOf = (estimate: LevelEstimate): Confidence =>
+    estimate.standardError <= TARGET_STANDARD_ERROR ? 'high' : estimate.standardError <= 0.9 ? 'medium' : 'low';
+
+export const isLevelSettled = (responses: AdaptiveResponse[]) =>
+    responses.length >= ADAPTIVE_MAX_QUESTIONS
+    || (responses.length >= ADAPTIVE_MIN_QUESTIONS && estimateLevel(responses).standardError <= TARGET_STANDARD_ERROR);
+
+// Two of three right moves the next batch up a level; one or none moves it down.
+export const nextBatchLevel = (currentLevel: number, lastBatch: AdaptiveResponse[]) => {
+    const share = lastBatch.filter(response => response.correct).length / Math.max(1, lastBatch.length);
+    return clampLevel(currentLevel + (share >= 2 / 3 ? 1 : share <= 1 / 3 ? -1 : 0));
+};
+
+// Subtopics missed in the last two batches, most recent first.
+export const subtopicsToTarget = (responses: AdaptiveResponse[]) => [...new Set(responses
+    .slice(-2 * ADAPTIVE_BATCH_SIZE)
+    .filter(response => !response.correct)
+    .reverse()
+    .map(response => response.subtopic))]
+    .slice(0, MAX_FOCUS_SUBTOPICS);
+
+// Estimated levels as markdown, added to the chat message that reports an adaptive quiz.
+export const levelReportToMarkdown = (responses: AdaptiveResponse[]): string => {
+    const overall = estimateLevel(responses);
+    const rows = estimateBySubtopic(responses, overall).map(estimate =>
+        `| ${estimate.subtopic} | ${estimate.correct} / ${estimate.asked} | ${levelLabel(estimate)} (${confidenceOf(estimate)} confidence) |`);
+    return [
+        `**Estimated level: ${levelLabel(overall)}** (${confidenceOf(overall)} confidence)`,
+        '',
+        '| Subtopic | Correct | Estimated level |',
+        '| --- | --- | --- |',
+        ...rows,
+    ].join('\n');
+};
@@ -0,0 +1,59 @@
+// Limits and checks for files attached to chat messages. The client applies them when files are
+// picked and /api/chat applies them again to what it receives, so both sides share this module.
+
+export type AttachmentKind = 'image' | 'pdf' | 'text';
+
+// Types Gemini reads from inline data.
+const ATTACHMENT_KINDS: Record<string, AttachmentKind> = {
+    'image/png': 'image',
+    'image/jpeg': 'image',
+    'image/webp': 'image',
+    'image/heic': 'image',
+    'image/heif': 'image',
+    'application/pdf': 'pdf',
+    'text/plain': 'text',
+    'text/markdown': 'text',
+    'text/csv': 'text',
+};
+
+// Some browsers give text files an empty or generic type, so these are trusted by extension.
+const TEXT_EXTENSIONS: Record<string, string> = { txt: 'text/plain', md: 'text/markdown', csv: 'text/csv' };
+
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+// Files from earlier questions sent again with a new one. Past this the newest are kept, as the
+// tutor is unlikely to be asked about a file from much further back.
+export const MAX_CONTEXT_ATTACHMENTS = 5;
+export const MAX_ATTACHMENT_BYTES = 2 * 1024 * 1024;
+// All files sent with one question, new and earlier ones together. Base64 makes them a third
+// larger, and Vercel rejects request bodies over 4.5 MB.
+export const MAX_REQUEST_ATTACHMENT_BYTES = 3 * 1024 * 1024;
+
+// The file input's accept attribute.
+export const ATTACHMENT_ACCEPT = [...Object.keys(ATTACHMENT_KINDS), ...Object.keys(TEXT_EXTENSIONS).map(extension => `.${extension}`)].join(',');
+
+export const attachmentKind = (mimeType: string): AttachmentKind | undefined => ATTACHMENT_KINDS[mimeType];
+
+// The type to store and send for a picked file, or undefined when it is not supported.
+export const attachmentMimeType = (file: { name: string; type: string }): string | undefined => {
+    if (attachmentKind(file.type)) return file.type;
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    if (!file.type || file.type === 'application/octet-stream' || file.type.startsWith('text/')) return TEXT_EXTENSIONS[extension];
+    return undefined;
+};
+
+export const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Returns a message for the student when the file cannot be attached.
+export const checkAttachment = (file: { name: string; mimeType?: string; size: number }): string | undefined => {
+    if (!file.mimeType || !attachmentKind(file.mimeType)) return `${file.name} is not a supported file. Attach images, PDFs or text files.`;
+    if (file.size === 0) return `${file.name} is empty.`;
+    if (file.size > MAX_ATTACHMENT_BYTES) return `${file.name} is ${formatBytes(file.size)}. Files can be at most ${formatBytes(MAX_ATTACHMENT_BYTES)}.`;
+    return undefined;
+};
+
+// Size of the data a base64 string encodes, without decoding it.
+export const base64Bytes = (data: string) => Math.floor((data.length * 3) / 4) - (data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0);
@@ -0,0 +1,55 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { parseBackup } from './backup';
+
+const backupWith = (chat: Record<string, unknown>) => JSON.stringify({
+    format: 'chalkbyte-backup',
+    version: 6,
+    chats: [{
+        id: 'chat-1', classNum: 11, title: 'Optics', createdAt: 1000,
+        messages: [{ id: 'm1', parentId: null, role: 'user', text: 'See the attached notes.', attachments: [{ id: 'file-1' }] }],
+        ...chat,
+    }],
+});
+
+const file = (mimeType: string) => ({ id: 'file-1', name: 'notes', mimeType, createdAt: 1001, data: btoa('<script>alert(1)</script>') });
+
+describe('parseBackup', () => {
+    it('imports a chat with its messages and attachments', () => {
+        const [imported] = parseBackup(backupWith({ attachments: [file('text/plain')] }));
+        expect(imported.chat).toMatchObject({ id: 'chat-1', classNum: 11, title: 'Optics' });
+        expect(imported.attachments).toMatchObject([{ id: 'file-1', mimeType: 'text/plain' }]);
+        expect(imported.messages[0].attachments).toEqual([{ id: 'file-1', name: 'notes', mimeType: 'text/plain', size: 25 }]);
+    });
+
+    it('keeps the fields a message can have and drops the rest', () => {
+        const message = { id: 'm1', parentId: null, role: 'model', text: 'Snell\'s law.', status: 'truncated', sources: [{ web: { uri: 'https://example.com', title: 'Optics' } }], onclick: 'alert(1)' };
+        const [imported] = parseBackup(backupWith({ messages: [message] }));
+        expect(imported.messages[0]).toEqual({ id: 'm1', parentId: null, role: 'model', text: 'Snell\'s law.', status: 'truncated', sources: message.sources });
+    });
+
+    it.each([
+        ['sources', [{ web: { uri: 42 } }]],
+        ['sources', 'https://example.com'],
+        ['status', 'done'],
+        ['attachments', [{ name: 'notes' }]],
+        ['toolCalls', [{ name: 'run_shell', input: 'ls', output: '' }]],
+        ['grade', { problem: 'x', steps: [], score: '10', maxMarks: 10, hints: [], feedback: '' }],
+        ['hintSessionId', 7],
+    ])('rejects a message whose %s is %j', (field, value) => {
+        const message = { id: 'm1', parentId: null, role: 'user', text: 'Hi', [field]: value };
+        expect(() => parseBackup(backupWith({ messages: [message] }))).toThrow(`Chat 1, message 1 has invalid ${field}.`);
+    });
+
+    it('rejects a hint session with a hint at an unknown level', () => {
+        const session = {
+            id: 's1', problem: 'p', plan: { goal: 'g', steps: [] }, hints: [{ level: 'everything', text: 't', revealedAt: 1 }],
+            attempts: [], solved: false, createdAt: 1, updatedAt: 1,
+        };
+        expect(() => parseBackup(backupWith({ hintSessions: [session] }))).toThrow('Chat 1, hint session 1 is malformed.');
+    });
+
+    it.each(['text/html', 'image/svg+xml', 'application/xhtml+xml', 'application/javascript'])('rejects an attachment of type %s', mimeType => {
+        expect(() => parseBackup(backupWith({ attachments: [file(mimeType)] }))).toThrow('attachment 1 is not a supported file type');
+    });
+});
@@ -0,0 +1,383 @@
+import { Marked } from 'marked';
+import { getAllChats, getAttachmentsForChat, getChatsForClass, getHintSessionsForChat, getMessages, getMockTestsForChat, getQuizAttemptsForChat, type ImportedChat, type ImportedMessage } from './db';
+import { classLabel } from './classes';
+import { getActivePath } from './messageTree';
+import { createMathExtension } from './markdownMath';
+import { escapeHtml, isSafeUrl, rawHtmlExtension, sanitizeHtml } from './sanitize';
+import { fenceLanguage } from './highlight';
+import { renderVisualBlock } from './visualBlocks';
+import { attachmentKind } from './attachments';
+import { ATTEMPT_VERDICT_LABELS, HINT_LEVELS } from './hints';
+import { EXAM_PATTERNS } from './mockTest';
+import type { ChatMessage, HintSession, MessageAttachment, MessageStatus, MockTest, QuizAttempt, StepVerdict, StoredChat, ToolName } from '../types';
+
+// Export and import of saved chats. The JSON backup is the only format that can be imported
+// again; Markdown and HTML are for reading and printing.
+
+const BACKUP_FORMAT = 'chalkbyte-backup';
+// Version 2 added message ids and parent links, so branches survive a round trip.
+// Version 3 replaced images with attachments, which can be any uploaded file.
+// Version 4 added the hint sessions of "Solve with me".
+// Version 5 added submitted mock tests.
+// Version 6 added quiz attempts.
+const BACKUP_VERSION = 6;
+
+export type ExportScope = { kind: 'chat'; chatId: string } | { kind: 'class'; classNum: number } | { kind: 'all' };
+
+export type ExportFormat = 'json' | 'markdown' | 'html';
+
+type BackupAttachment = { id: string; name: string; mimeType: string; createdAt: number; data: string };
+
+type BackupMessage = ChatMessage & { id: string; parentId: string | null };
+
+type BackupChat = {
+    id: string;
+    classNum: number;
+    title: string;
+    createdAt: number;
+    isPinned?: boolean;
+    activeLeafId?: string;
+    // Every branch, in the order messages were added. Quiz results are kept as the model
+    // messages the quiz posted to the chat.
+    messages: BackupMessage[];
+    attachments: BackupAttachment[];
+    hintSessions: Omit<HintSession, 'chatId'>[];
+    mockTests: Omit<MockTest, 'chatId'>[];
+    quizAttempts: Omit<QuizAttempt, 'chatId'>[];
+};
+
+export type ChatBackup = {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    exportedAt: string;
+    chats: BackupChat[];
+};
+
+const blobToBase64 = (blob: Blob) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+const base64ToBlob = (data: string, mimeType: string) => {
+    const bytes = Uint8Array.from(atob(data), c => c.charCodeAt(0));
+    return new Blob([bytes], { type: mimeType });
+};
+
+const chatsInScope = async (scope: ExportScope): Promise<StoredChat[]> => {
+    if (scope.kind === 'class') return getChatsForClass(scope.classNum);
+    const chats = await getAllChats();
+    return scope.kind === 'chat' ? chats.filter(c => c.id === scope.chatId) : chats;
+};
+
+export const buildBackup = async (scope: ExportScope): Promise<ChatBackup> => {
+    const chats = await chatsInScope(scope);
+    const backupChats = await Promise.all(chats.map(async (chat): Promise<BackupChat> => {
+        const [messages, attachments, hintSessions, mockTests, quizAttempts] = await Promise.all([
+            getMessages(chat.id), getAttachmentsForChat(chat.id), getHintSessionsForChat(chat.id), getMockTestsForChat(chat.id), getQuizAttemptsForChat(chat.id),
+        ]);
+        return {
+            id: chat.id,
+            classNum: chat.classNum,
+            title: chat.title,
+            createdAt: chat.createdAt,
+            isPinned: chat.isPinned,
+            activeLeafId: chat.activeLeafId,
+            messages: messages.map(({ chatId: _chatId, seq: _seq, ...message }) => message),
+            attachments: await Promise.all(attachments.map(async attachment => ({
+                id: attachment.id,
+                name: attachment.name,
+                mimeType: attachment.mimeType,
+                createdAt: attachment.createdAt,
+                data: await blobToBase64(attachment.blob),
+            }))),
+            hintSessions: hintSessions.map(({ chatId: _chatId, ...session }) => session),
+            mockTests: mockTests.map(({ chatId: _chatId, ...test }) => test),
+            quizAttempts: quizAttempts.map(({ chatId: _chatId, ...attempt }) => attempt),
+        };
+    }));
+    return { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: new Date().toISOString(), chats: backupChats };
+};
+
+const chatHeading = (chat: BackupChat) => chat.title || chat.messages[0]?.text.substring(0, 60) || 'Untitled chat';
+
+// The readable formats show only the branch that was on screen.
+const visibleMessages = (chat: BackupChat) => getActivePath(chat.messages, chat.activeLeafId);
+
+export const backupToMarkdown = (backup: ChatBackup): string => backup.chats.map(chat => {
+    const lines = [`# ${chatHeading(chat)}`, '', `_${classLabel(chat.classNum)} · ${new Date(chat.createdAt).toLocaleString()}_`, ''];
+    visibleMessages(chat).forEach(message => {
+        lines.push(`### ${message.role === 'user' ? 'Student' : 'Chalkbyte'}`, '');
+        if (message.attachments?.length) lines.push(`_[Attached: ${message.attachments.map(a => a.name).join(', ')}]_`, '');
+        lines.push(message.text, '');
+        if (message.sources?.length) {
+            lines.push('Sources:', ...message.sources.map((s, i) => `${i + 1}. [${s.web.title || s.web.uri}](${s.web.uri})`), '');
+        }
+    });
+    return lines.join('\n');
+}).join('\n---\n\n');
+
+// A separate instance: the app's global renderer adds copy buttons that make no sense on paper.
+// Maths is output as MathML so the page needs no KaTeX stylesheet. Plots and diagrams are drawn
+// as they are in the app.
+const printMarked = new Marked(rawHtmlExtension, createMathExtension({ output: 'mathml' }), {
+    renderer: {
+        code({ text, lang }) {
+            const visual = renderVisualBlock(fenceLanguage(lang), text);
+            return visual && 'html' in visual ? visual.html : false;
+        },
+    },
+});
+
+const PRINT_STYLES = `
+    body { font-family: 'Google Sans', 'Segoe UI', sans-serif; color: #121212; max-width: 800px; margin: 0 auto; padding: 32px; line-height: 1.6; }
+    h1 { font-size: 1.6rem; margin-bottom: 4px; }
+    .chat-meta { color: #555; margin-bottom: 24px; }
+    .message { margin-bottom: 20px; page-break-inside: avoid; }
+    .message-role { font-weight: 700; margin-bottom: 4px; }
+    .message-user .message-role { color: #2D79C7; }
+    .message-model .message-role { color: #F97721; }
+    pre { background: #f0f4f9; padding: 12px; border-radius: 8px; white-space: pre-wrap; }
+    code { font-family: 'Courier New', monospace; }
+    img { max-width: 320px; border-radius: 8px; }
+    .sources, .attachments { font-size: 0.9rem; color: #555; }
+    .visual-block svg { max-width: 100%; height: auto; }
+    .chat { page-break-after: always; }
+    .chat:last-child { page-break-after: auto; }
+`;
+
+export const backupToHtml = (backup: ChatBackup): string => {
+    const chatsHtml = backup.chats.map(chat => {
+        const files = new Map(chat.attachments.map(attachment => [attachment.id, attachment]));
+        const messagesHtml = visibleMessages(chat).map(message => {
+            // Images are shown; other files are listed by name, since a page cannot show a PDF inline.
+            const attached = (message.attachments ?? []).map(attachment => files.get(attachment.id)).filter((file): file is BackupAttachment => Boolean(file));
+            const imageHtml = attached
+                .filter(file => attachmentKind(file.mimeType) === 'image')
+                .map(file => `<img src="data:${escapeHtml(file.mimeType)};base64,${file.data}" alt="${escapeHtml(file.name)}">`)
+                .join('');
+            const otherFiles = attached.filter(file => attachmentKind(file.mimeType) !== 'image');
+            const filesHtml = otherFiles.length ? `<div class="attachments">Attached: ${otherFiles.map(file => escapeHtml(file.name)).join(', ')}</div>` : '';
+            const sourcesHtml = message.sources?.length
+                ? `<div class="sources"><strong>Sources:</strong><ol>${message.sources.map(s => {
+                    const label = escapeHtml(s.web.title || s.web.uri);
+                    return `<li>${isSafeUrl(s.web.uri) ? `<a href="${escapeHtml(s.web.uri)}">${label}</a>` : label}</li>`;
+                }).join('')}</ol></div>`
+                : '';
+            return `<div class="message message-${message.role}"><div class="message-role">${message.role === 'user' ? 'Student' : 'Chalkbyte'}</div>${imageHtml}${filesHtml}${sanitizeHtml(printMarked.parse(message.text) as string)}${sourcesHtml}</div>`;
+        }).join('\n');
+        return `<section class="chat"><h1>${escapeHtml(chatHeading(chat))}</h1><div class="chat-meta">${classLabel(chat.classNum)} · ${escapeHtml(new Date(chat.createdAt).toLocaleString())}</div>${messagesHtml}</section>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>Chalkbyte export</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+${chatsHtml}
+</body>
+</html>`;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number';
+const isOptional = (check: (value: unknown) => boolean) => (value: unknown) => value === undefined || check(value);
+const isListOf = (check: (item: unknown) => boolean) => (value: unknown): value is unknown[] => Array.isArray(value) && value.every(check);
+
+const MESSAGE_STATUSES: MessageStatus[] = ['truncated', 'blocked', 'error', 'stopped'];
+const TOOL_NAMES: ToolName[] = ['calculate', 'convert_units', 'lookup_element', 'lookup_constant', 'get_formula_sheet'];
+const STEP_VERDICTS: StepVerdict[] = ['correct', 'partial', 'incorrect'];
+
+const isGradedStep = (step: unknown) => isObject(step) && isString(step.work) && STEP_VERDICTS.some(verdict => verdict === step.verdict)
+    && isNumber(step.marks) && isString(step.comment);
+
+// What each optional field of a backed-up message must hold. Keyed by ChatMessage so a new field
+// cannot be added without saying how to check it; fields not listed here are dropped on import.
+const MESSAGE_FIELDS: Record<Exclude<keyof ChatMessage, 'role' | 'text'> | 'imageId', (value: unknown) => boolean> = {
+    // Only the ids are read; descriptions are rebuilt from the files.
+    attachments: isListOf(attachment => isObject(attachment) && isString(attachment.id)),
+    imageId: isString,
+    sources: isListOf(source => isObject(source) && isObject(source.web) && isString(source.web.uri) && isString(source.web.title)),
+    citations: isListOf(citation => isObject(citation) && isString(citation.text) && isListOf(isNumber)(citation.sourceIndices)),
+    toolCalls: isListOf(call => isObject(call) && TOOL_NAMES.some(name => name === call.name) && isString(call.input) && isString(call.output)
+        && isOptional(failed => typeof failed === 'boolean')(call.failed)),
+    grade: grade => isObject(grade) && isString(grade.problem) && isListOf(isGradedStep)(grade.steps) && isOptional(isNumber)(grade.firstErrorStep)
+        && isNumber(grade.score) && isNumber(grade.maxMarks) && isListOf(isString)(grade.hints) && isString(grade.feedback),
+    hintSessionId: isString,
+    mockTestId: isString,
+    quizAttemptId: isString,
+    status: status => MESSAGE_STATUSES.some(known => known === status),
+    usage: usage => isObject(usage) && [usage.promptTokens, usage.responseTokens, usage.totalTokens].every(isOptional(isNumber)),
+};
+
+const isQuizQuestion = (question: unknown) => {
+    if (!isObject(question) || !isString(question.question) || !isString(question.explanation) || !isOptional(isString)(question.subtopic)) return false;
+    switch (question.type) {
+        case 'single': return isListOf(isString)(question.options) && isNumber(question.correctAnswerIndex);
+        case 'multiple': return isListOf(isString)(question.options) && isListOf(isNumber)(question.correctAnswerIndices);
+        case 'numerical': return isNumber(question.answer) && isNumber(question.tolerance) && isOptional(isString)(question.unit);
+        case 'assertion-reason': return isString(question.assertion) && isString(question.reason) && isNumber(question.correctAnswerIndex);
+        case 'match': return isListOf(isString)(question.left) && isListOf(isString)(question.right) && isListOf(isNumber)(question.correctMatches);
+        case 'true-false': return typeof question.correctAnswer === 'boolean';
+        default: return false;
+    }
+};
+
+const isAnswer = (answer: unknown) => answer === null || isNumber(answer) || typeof answer === 'boolean' || isListOf(isNumber)(answer);
+
+const isRevealedHint = (hint: unknown) => isObject(hint) && HINT_LEVELS.some(level => level === hint.level) && isString(hint.text) && isNumber(hint.revealedAt);
+
+const isHintAttempt = (attempt: unknown) => isObject(attempt) && isString(attempt.text) && isString(attempt.verdict) && attempt.verdict in ATTEMPT_VERDICT_LABELS
+    && isString(attempt.feedback) && isNumber(attempt.submittedAt);
+
+const isHintSession = (session: unknown) => isObject(session) && isString(session.id) && isString(session.problem)
+    && isObject(session.plan) && isString(session.plan.goal) && isListOf(isString)(session.plan.steps)
+    && isListOf(isRevealedHint)(session.hints) && isListOf(isHintAttempt)(session.attempts)
+    && typeof session.solved === 'boolean' && isOptional(isString)(session.progressToken) && isNumber(session.createdAt) && isNumber(session.updatedAt);
+
+const isMockTest = (test: unknown) => isObject(test) && isString(test.id) && isString(test.pattern) && test.pattern in EXAM_PATTERNS && isString(test.title) && isString(test.difficulty)
+    && isListOf(section => isObject(section) && isString(section.name) && isListOf(isQuizQuestion)(section.questions))(test.sections)
+    && isObject(test.marking) && isNumber(test.durationSeconds) && isNumber(test.startedAt) && isNumber(test.submittedAt)
+    && typeof test.timedOut === 'boolean' && isListOf(isListOf(response => isObject(response) && isAnswer(response.answer)
+        && typeof response.visited === 'boolean' && typeof response.markedForReview === 'boolean' && isNumber(response.timeSpentMs)))(test.responses);
+
+const isQuizAttempt = (attempt: unknown) => isObject(attempt) && isString(attempt.id) && isString(attempt.topic) && isString(attempt.difficulty)
+    && isListOf(isQuizQuestion)(attempt.questions) && isListOf(isAnswer)(attempt.answers) && attempt.answers.length === attempt.questions.length
+    && isListOf(isNumber)(attempt.timeSpentMs) && isNumber(attempt.startedAt) && isOptional(isNumber)(attempt.finishedAt)
+    && isOptional(isListOf(isNumber))(attempt.levels)
+    && isOptional(retake => isObject(retake) && isString(retake.attemptId) && typeof retake.wrongOnly === 'boolean')(attempt.retakeOf);
+
+// Checks an uploaded backup file and converts it to records ready for importChats.
+// Throws an Error describing the first problem found.
+export const parseBackup = (json: string): ImportedChat[] => {
+    let backup: unknown;
+    try {
+        backup = JSON.parse(json);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    if (!isObject(backup) || backup.format !== BACKUP_FORMAT) {
+        throw new Error('This file is not a Chalkbyte backup.');
+    }
+    const { version, chats } = backup;
+    if (typeof version !== 'number' || version > BACKUP_VERSION) {
+        throw new Error('This backup was made by a newer version of Chalkbyte and cannot be imported.');
+    }
+    if (!Array.isArray(chats)) {
+        throw new Error('The backup has no chats list.');
+    }
+
+    return chats.map((chat: unknown, i: number): ImportedChat => {
+        const where = `Chat ${i + 1}`;
+        if (!isObject(chat) || typeof chat.id !== 'string' || !chat.id) throw new Error(`${where} has no id.`);
+        if (typeof chat.classNum !== 'number' || chat.classNum < 6 || chat.classNum > 14) throw new Error(`${where} has an invalid class.`);
+        if (typeof chat.title !== 'string') throw new Error(`${where} has an invalid title.`);
+        if (typeof chat.createdAt !== 'number') throw new Error(`${where} has an invalid creation date.`);
+        if (!Array.isArray(chat.messages)) throw new Error(`${where} has no messages list.`);
+        const messages = chat.messages.map((message: unknown, j: number) => {
+            if (!isObject(message) || (message.role !== 'user' && message.role !== 'model') || typeof message.text !== 'string') {
+                throw new Error(`${where}, message ${j + 1} is malformed.`);
+            }
+            const hasIds = message.id !== undefined || message.parentId !== undefined || version >= 2;
+            if (hasIds && (typeof message.id !== 'string' || (message.parentId !== null && typeof message.parentId !== 'string'))) {
+                throw new Error(`${where}, message ${j + 1} has an invalid id or parent.`);
+            }
+            const fields = Object.entries(MESSAGE_FIELDS).filter(([field]) => message[field] !== undefined);
+            const invalid = fields.find(([field, isValid]) => !isValid(message[field]));
+            if (invalid) {
+                throw new Error(`${where}, message ${j + 1} has invalid ${invalid[0]}.`);
+            }
+            const kept = ['role', 'text', 'id', 'parentId', ...fields.map(([field]) => field)].filter(field => message[field] !== undefined);
+            return Object.fromEntries(kept.map(field => [field, message[field]])) as ImportedMessage & { imageId?: string };
+        });
+        // Backups before version 3 have images, referenced by message.imageId.
+        const files = Array.isArray(chat.attachments) ? chat.attachments : Array.isArray(chat.images) ? chat.images : [];
+        files.forEach((file: unknown, j: number) => {
+            if (!isObject(file) || typeof file.id !== 'string' || typeof file.mimeType !== 'string' || typeof file.data !== 'string') {
+                throw new Error(`${where}, attachment ${j + 1} is malformed.`);
+            }
+            // Files are opened from our own origin, so a type the app never accepts (HTML, SVG) must not get in.
+            if (!attachmentKind(file.mimeType)) {
+                throw new Error(`${where}, attachment ${j + 1} is not a supported file type.`);
+            }
+        });
+        const attachments = files.map((file: BackupAttachment) => {
+            try {
+                const blob = base64ToBlob(file.data, file.mimeType);
+                const name = typeof file.name === 'string' && file.name ? file.name : `image.${file.mimeType.split('/')[1] || 'png'}`;
+                return { id: file.id, name, mimeType: file.mimeType, size: blob.size, createdAt: file.createdAt || Date.now(), blob };
+            } catch {
+                throw new Error(`${where} contains an attachment that could not be decoded.`);
+            }
+        });
+        const hintSessions = Array.isArray(chat.hintSessions) ? chat.hintSessions : [];
+        hintSessions.forEach((session: unknown, j: number) => {
+            if (!isHintSession(session)) {
+                throw new Error(`${where}, hint session ${j + 1} is malformed.`);
+            }
+        });
+        const mockTests = Array.isArray(chat.mockTests) ? chat.mockTests : [];
+        mockTests.forEach((test: unknown, j: number) => {
+            if (!isMockTest(test)) {
+                throw new Error(`${where}, mock test ${j + 1} is malformed.`);
+            }
+        });
+        const quizAttempts = Array.isArray(chat.quizAttempts) ? chat.quizAttempts : [];
+        quizAttempts.forEach((attempt: unknown, j: number) => {
+            if (!isQuizAttempt(attempt)) {
+                throw new Error(`${where}, quiz attempt ${j + 1} is malformed.`);
+            }
+        });
+        const described = new Map(attachments.map(({ id, name, mimeType, size }): [string, MessageAttachment] => [id, { id, name, mimeType, size }]));
+
+        return {
+            chat: {
+                id: chat.id,
+                classNum: chat.classNum,
+                title: chat.title,
+                createdAt: chat.createdAt,
+                isPinned: Boolean(chat.isPinned),
+                activeLeafId: typeof chat.activeLeafId === 'string' ? chat.activeLeafId : undefined,
+            },
+            messages: messages.map(({ imageId, ...message }) => {
+                // Descriptions are rebuilt from the files themselves, so they always match what was imported.
+                const ids = imageId ? [imageId] : (message.attachments ?? []).map(a => a.id);
+                const attached = ids.map(id => described.get(id)).filter((a): a is MessageAttachment => Boolean(a));
+                const { attachments: _listed, ...rest } = message;
+                return attached.length ? { ...rest, attachments: attached } : rest;
+            }),
+            attachments,
+            hintSessions,
+            mockTests,
+            quizAttempts,
+        };
+    });
+};
+
+export const exportChats = async (scope: ExportScope, format: ExportFormat): Promise<{ blob: Blob; filename: string }> => {
+    const backup = await buildBackup(scope);
+    const date = new Date().toISOString().slice(0, 10);
+    switch (format) {
+        case 'json':
+            return { blob: new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }), filename: `chalkbyte-backup-${date}.json` };
+        case 'markdown':
+            return { blob: new Blob([backupToMarkdown(backup)], { type: 'text/markdown' }), filename: `chalkbyte-chats-${date}.md` };
+        case 'html':
+            return { blob: new Blob([backupToHtml(backup)], { type: 'text/html' }), filename: `chalkbyte-chats-${date}.html` };
+    }
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
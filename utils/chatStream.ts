@@ -0,0 +1,49 @@
+import type { ChatStreamEvent, MessageStatus } from '../types';
+
+// Parses the newline-delimited JSON event stream sent by /api/chat.
+export async function* readChatEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+        for (;;) {
+            const { value, done } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+
+            let newlineIndex: number;
+            while ((newlineIndex = buffer.indexOf('\n')) >= 0) {
+                const line = buffer.slice(0, newlineIndex).trim();
+                buffer = buffer.slice(newlineIndex + 1);
+                if (line) yield JSON.parse(line) as ChatStreamEvent;
+            }
+        }
+        // A final line without a trailing newline is still a complete event.
+        const rest = (buffer + decoder.decode()).trim();
+        if (rest) yield JSON.parse(rest) as ChatStreamEvent;
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+// Maps a model finish reason to how the answer should be marked. undefined means complete.
+export const statusForFinishReason = (finishReason: string | undefined): MessageStatus | undefined => {
+    switch (finishReason) {
+        case 'STOP':
+            return undefined;
+        case 'MAX_TOKENS':
+        case undefined: // The model never gave a reason, or the stream ended without a finish event.
+            return 'truncated';
+        case 'SAFETY':
+        case 'RECITATION':
+        case 'BLOCKLIST':
+        case 'PROHIBITED_CONTENT':
+        case 'SPII':
+        case 'IMAGE_SAFETY':
+        case 'PROMPT_BLOCKED':
+            return 'blocked';
+        default:
+            return 'error';
+    }
+};
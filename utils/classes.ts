@@ -0,0 +1,11 @@
+// Class numbers 6–12 are school classes; 13 and 14 are the JEE and NEET exam streams.
+
+export const classLabel = (classNum: number) => (classNum === 13 ? 'JEE' : classNum === 14 ? 'NEET' : `Class ${classNum}`);
+
+// Maps the stored class number to the identifier the API expects.
+// The tutor persona itself is assembled on the server from this identifier.
+export const toClassId = (classNum: number): string => {
+    if (classNum === 13) return 'JEE';
+    if (classNum === 14) return 'NEET';
+    return String(classNum);
+};
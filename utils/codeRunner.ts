@@ -0,0 +1,81 @@
+// Runs JavaScript and Python snippets from code blocks in a Web Worker, away from the page:
+// a snippet cannot touch the DOM or the app's state, and one that never ends is stopped.
+// Python is Pyodide, served from our own origin (see vite.config.ts), so nothing is fetched
+// from the internet. The worker itself is codeRunner.worker.ts.
+
+export type RunnableLanguage = 'javascript' | 'python';
+
+const LANGUAGE_ALIASES: Record<string, RunnableLanguage> = {
+    javascript: 'javascript',
+    js: 'javascript',
+    python: 'python',
+    python3: 'python',
+    py: 'python',
+};
+
+export const runnableLanguage = (language?: string): RunnableLanguage | undefined =>
+    language ? LANGUAGE_ALIASES[language.toLowerCase()] : undefined;
+
+// Counted from when the snippet starts, so loading Python the first time does not use it up.
+export const RUN_TIMEOUT_MS = 5000;
+
+// A print loop can produce thousands of lines before the timeout; the page stops listening here.
+const MAX_OUTPUT_LINES = 1000;
+
+export type RunRequest = { language: RunnableLanguage; code: string };
+
+// Posted by the worker. Each output event is one line, without its newline.
+export type RunEvent =
+    | { type: 'loading' }
+    | { type: 'started' }
+    | { type: 'output'; stream: 'stdout' | 'stderr'; text: string }
+    | { type: 'done'; ok: boolean };
+
+export type RunOutcome = 'ok' | 'error' | 'timeout' | 'output-limit';
+
+const createWorker = () => new Worker(new URL('./codeRunner.worker.ts', import.meta.url), { type: 'module' });
+
+// Loading Python takes seconds, so its worker is kept between runs and runs take turns on it.
+// JavaScript gets a fresh worker each time, so nothing one snippet defines leaks into the next.
+let pythonWorker: Worker | undefined;
+let pythonQueue: Promise<unknown> = Promise.resolve();
+
+const execute = (language: RunnableLanguage, code: string, onEvent: (event: RunEvent) => void) => new Promise<RunOutcome>(resolve => {
+    const worker = language === 'python' ? (pythonWorker ??= createWorker()) : createWorker();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let lines = 0;
+
+    const finish = (outcome: RunOutcome) => {
+        clearTimeout(timer);
+        worker.onmessage = null;
+        worker.onerror = null;
+        // A stopped worker may still be running the snippet, so it cannot be reused.
+        if (language === 'javascript' || outcome === 'timeout' || outcome === 'output-limit') {
+            worker.terminate();
+            if (worker === pythonWorker) pythonWorker = undefined;
+        }
+        resolve(outcome);
+    };
+
+    worker.onmessage = ({ data }: MessageEvent<RunEvent>) => {
+        if (data.type === 'done') return finish(data.ok ? 'ok' : 'error');
+        if (data.type === 'started') timer = setTimeout(() => finish('timeout'), RUN_TIMEOUT_MS);
+        if (data.type === 'output' && ++lines > MAX_OUTPUT_LINES) return finish('output-limit');
+        onEvent(data);
+    };
+    worker.onerror = (event) => {
+        event.preventDefault();
+        onEvent({ type: 'output', stream: 'stderr', text: 'The code runner could not be started.' });
+        worker.terminate();
+        if (worker === pythonWorker) pythonWorker = undefined;
+        finish('error');
+    };
+    worker.postMessage({ language, code } satisfies RunRequest);
+});
+
+export const runCode = (language: RunnableLanguage, code: string, onEvent: (event: RunEvent) => void): Promise<RunOutcome> => {
+    if (language === 'javascript') return execute(language, code, onEvent);
+    const run = pythonQueue.then(() => execute(language, code, onEvent));
+    pythonQueue = run;
+    return run;
+};
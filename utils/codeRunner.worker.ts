@@ -0,0 +1,136 @@
+import type { PyodideInterface } from 'pyodide';
+import type { RunEvent, RunRequest } from './codeRunner';
+
+// The worker side of codeRunner.ts. It receives one RunRequest at a time and answers with
+// RunEvents, ending with 'done'.
+
+const post = (event: RunEvent) => self.postMessage(event);
+
+// Removed before any snippet runs, so a snippet can neither reach the network nor open this
+// origin's IndexedDB, where the student's chats are saved. They stay available until then
+// because Pyodide fetches its own files while loading.
+const BLOCKED_GLOBALS = ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'indexedDB', 'caches', 'BroadcastChannel', 'Worker'];
+
+let lockedDown = false;
+
+const lockDown = () => {
+    if (lockedDown) return;
+    // Web APIs live on the global scope's prototypes too, so shadowing them on self is not enough.
+    for (let scope: object | null = self; scope && scope !== Object.prototype; scope = Object.getPrototypeOf(scope)) {
+        for (const name of BLOCKED_GLOBALS) {
+            if (scope === self || Object.prototype.hasOwnProperty.call(scope, name)) {
+                Object.defineProperty(scope, name, { value: undefined, writable: false, configurable: false });
+            }
+        }
+    }
+    lockedDown = true;
+};
+
+const formatValue = (value: unknown): string => {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return `${value.name}: ${value.message}`;
+    if (value === undefined || typeof value === 'function' || typeof value === 'symbol' || typeof value === 'bigint') return String(value);
+    try {
+        return JSON.stringify(value) ?? String(value);
+    } catch {
+        return String(value);
+    }
+};
+
+const AsyncFunction = Object.getPrototypeOf(async () => {}).constructor as new (body: string) => () => Promise<unknown>;
+
+// Each runner resolves to whether the snippet finished without an uncaught error.
+const runJavaScript = async (code: string): Promise<boolean> => {
+    const print = (stream: 'stdout' | 'stderr') => (...values: unknown[]) => post({ type: 'output', stream, text: values.map(formatValue).join(' ') });
+    console.log = console.info = console.debug = print('stdout');
+    console.warn = console.error = print('stderr');
+    lockDown();
+    post({ type: 'started' });
+    // An async body, so snippets can use top-level await.
+    await new AsyncFunction(code)();
+    return true;
+};
+
+// Turns Python's raw writes into one event per line. Text after the last newline waits for
+// flush, which runs when the snippet ends.
+const lineWriter = (stream: 'stdout' | 'stderr') => {
+    const decoder = new TextDecoder();
+    let pending = '';
+    return {
+        write: (buffer: Uint8Array) => {
+            pending += decoder.decode(buffer, { stream: true });
+            const lines = pending.split('\n');
+            pending = lines.pop() ?? '';
+            lines.forEach(text => post({ type: 'output', stream, text }));
+            return buffer.length;
+        },
+        flush: () => {
+            if (pending) post({ type: 'output', stream, text: pending });
+            pending = '';
+        },
+    };
+};
+
+const stdout = lineWriter('stdout');
+const stderr = lineWriter('stderr');
+
+// There is no keyboard to read from, so input() fails with an explanation instead of waiting forever.
+const PYTHON_SETUP = `
+import builtins
+def _input(prompt=''):
+    raise EOFError('input() cannot read from the keyboard here. Put the values in the code instead.')
+builtins.input = _input
+`;
+
+let pyodide: Promise<PyodideInterface> | undefined;
+
+const loadPython = () => pyodide ??= import('pyodide').then(async ({ loadPyodide }) => {
+    const python = await loadPyodide({ indexURL: new URL('/pyodide/', self.location.href).href });
+    // isatty makes Python flush every line, so output printed before a timeout is not lost.
+    python.setStdout({ write: stdout.write, isatty: true });
+    python.setStderr({ write: stderr.write, isatty: true });
+    python.setStdin({ error: true });
+    python.runPython(PYTHON_SETUP);
+    return python;
+}).catch(error => {
+    // Let the next run try again rather than fail on the same rejected promise.
+    pyodide = undefined;
+    throw error;
+});
+
+// Tracebacks start with frames from Pyodide's own code; only the snippet's frames are useful.
+const trimTraceback = (message: string) => message.replace(/^ {2}File "\/lib\/[^\n]*\n(?: {4}[^\n]*\n)*/gm, '');
+
+const printError = (text: string) => text.split('\n').forEach(line => post({ type: 'output', stream: 'stderr', text: line }));
+
+const runPython = async (code: string): Promise<boolean> => {
+    if (!pyodide) post({ type: 'loading' });
+    const python = await loadPython();
+    lockDown();
+    post({ type: 'started' });
+    // Fresh globals for each run, so variables from an earlier snippet do not linger.
+    const globals = python.globals.get('dict')();
+    try {
+        await python.runPythonAsync(code, { globals });
+        return true;
+    } catch (error) {
+        if (!(error instanceof python.ffi.PythonError)) throw error;
+        printError(trimTraceback(error.message).trimEnd());
+        return false;
+    } finally {
+        globals.destroy();
+        python.runPython('import sys\nsys.stdout.flush()\nsys.stderr.flush()');
+        stdout.flush();
+        stderr.flush();
+    }
+};
+
+self.onmessage = async ({ data }: MessageEvent<RunRequest>) => {
+    try {
+        const ok = await (data.language === 'python' ? runPython(data.code) : runJavaScript(data.code));
+        post({ type: 'done', ok });
+    } catch (error) {
+        printError(formatValue(error));
+        post({ type: 'done', ok: false });
+    }
+};
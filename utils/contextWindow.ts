@@ -0,0 +1,47 @@
+import type { ChatMessage, ContextSummary } from '../types';
+
+// Keeps the history sent with each question within a token budget. Recent messages go verbatim;
+// older ones are folded into a rolling summary that is stored on the chat.
+
+// Budget for earlier messages. The system prompt and the new question come on top of it.
+export const HISTORY_TOKEN_BUDGET = 6000;
+// After condensing, only this much is kept verbatim, so the summary isn't refreshed every turn.
+const RECENT_TOKENS_AFTER_CONDENSING = HISTORY_TOKEN_BUDGET / 2;
+
+// About four characters per token for English text, which is close enough for a budget.
+// Attached files are not counted: they go with the new question, not in the history.
+export const estimateTokens = (message: ChatMessage) => Math.ceil(message.text.length / 4);
+
+const sumTokens = (messages: ChatMessage[]) => messages.reduce((total, message) => total + estimateTokens(message), 0);
+
+export type HistoryPlan<T> = {
+    // Messages to send verbatim, after the summary.
+    recent: T[];
+    // The stored summary, if it still applies to this branch.
+    summary?: ContextSummary;
+    // Messages that follow the summary but no longer fit. They must be folded into it first.
+    toCondense?: T[];
+};
+
+// messages is the branch before the new question, oldest first.
+export const planHistory = <T extends ChatMessage & { id: string }>(messages: T[], summary?: ContextSummary): HistoryPlan<T> => {
+    const summaryEnd = summary ? messages.findIndex(m => m.id === summary.throughMessageId) : -1;
+    const validSummary = summaryEnd >= 0 ? summary : undefined;
+    const uncondensed = messages.slice(summaryEnd + 1);
+    if (sumTokens(uncondensed) <= HISTORY_TOKEN_BUDGET) return { recent: uncondensed, summary: validSummary };
+
+    let start = uncondensed.length;
+    let tokens = 0;
+    while (start > 0 && tokens + estimateTokens(uncondensed[start - 1]) <= RECENT_TOKENS_AFTER_CONDENSING) {
+        start--;
+        tokens += estimateTokens(uncondensed[start]);
+    }
+    // Start the verbatim part on a question so the history still alternates from the student.
+    while (start < uncondensed.length && uncondensed[start].role !== 'user') start++;
+
+    return { recent: uncondensed.slice(start), summary: validSummary, toCondense: uncondensed.slice(0, start) };
+};
+
+export const formatTranscript = (messages: ChatMessage[]) => {
+    return messages.map(m => `${m.role === 'user' ? 'Student' : 'Assistant'}: ${m.text}`).join('\n');
+};
@@ -1,12 +1,51 @@
 
 
-import type { StoredChat } from '../types';
+import type { ChatMessage, HintAttempt, HintSession, MessageAttachment, MockTest, QuizAnswer, QuizAttempt, QuizQuestion, RevealedHint, SearchResult, SolutionPlan, StoredAttachment, StoredChat, StoredMessage } from '../types';
+import { LATEST_DB_VERSION, runMigrations } from './dbMigrations';
+import { tokenize } from './search';
 
 let db: IDBDatabase;
 
 const DB_NAME = 'QuestionnaireDB';
-const DB_VERSION = 1; // Reverted to original version
 const CHAT_STORE_NAME = 'chats';
+const ATTACHMENT_STORE_NAME = 'attachments';
+const MESSAGE_STORE_NAME = 'messages';
+const SEARCH_STORE_NAME = 'searchIndex';
+const HINT_SESSION_STORE_NAME = 'hintSessions';
+const MOCK_TEST_STORE_NAME = 'mockTests';
+const QUIZ_ATTEMPT_STORE_NAME = 'quizAttempts';
+const MESSAGE_PREVIEW_LENGTH = 60;
+
+const messageRangeForChat = (chatId: string) => IDBKeyRange.bound([chatId, 0], [chatId, Infinity]);
+
+// Search index entries: one per message (keyed by message id) and one per chat title.
+// The 'terms' index is multiEntry, so IndexedDB itself maintains the inverted index on write.
+type SearchEntry = { id: string; chatId: string; kind: 'message' | 'title'; terms: string[] };
+
+const titleEntryId = (chatId: string) => `title:${chatId}`;
+
+const indexMessage = (transaction: IDBTransaction, message: StoredMessage) => {
+    const entry: SearchEntry = { id: message.id, chatId: message.chatId, kind: 'message', terms: tokenize(message.text) };
+    transaction.objectStore(SEARCH_STORE_NAME).put(entry);
+};
+
+const indexTitle = (transaction: IDBTransaction, chat: StoredChat) => {
+    const entry: SearchEntry = { id: titleEntryId(chat.id), chatId: chat.id, kind: 'title', terms: tokenize(chat.title) };
+    transaction.objectStore(SEARCH_STORE_NAME).put(entry);
+};
+
+// Unique enough for ids created in the same millisecond, unlike a bare Date.now().
+export const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// onDeleted runs once the deletes are queued; requests placed after that run after them.
+const deleteByChatId = (transaction: IDBTransaction, storeName: string, indexName: string, range: IDBKeyRange, onDeleted?: () => void) => {
+    const store = transaction.objectStore(storeName);
+    const keysRequest = store.index(indexName).getAllKeys(range);
+    keysRequest.onsuccess = () => {
+        keysRequest.result.forEach(key => store.delete(key));
+        onDeleted?.();
+    };
+};
 
 export const initDB = (): Promise<boolean> => {
     return new Promise((resolve, reject) => {
@@ -14,19 +53,30 @@ export const initDB = (): Promise<boolean> => {
             return resolve(true);
         }
 
-        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        const request = indexedDB.open(DB_NAME, LATEST_DB_VERSION);
 
         request.onupgradeneeded = (event) => {
-            const dbInstance = (event.target as IDBOpenDBRequest).result;
-            // This will only run for first-time users or if the DB doesn't exist.
-            if (!dbInstance.objectStoreNames.contains(CHAT_STORE_NAME)) {
-                const store = dbInstance.createObjectStore(CHAT_STORE_NAME, { keyPath: 'id' });
-                store.createIndex('classNum', 'classNum', { unique: false });
-            }
+            const dbInstance = request.result;
+            const transaction = request.transaction as IDBTransaction;
+            // Replays every schema step this browser hasn't seen yet. A failed step aborts the
+            // whole upgrade, leaving the database on its old version with its data intact.
+            runMigrations(dbInstance, transaction, event.oldVersion).catch(err => {
+                console.error('IndexedDB migration failed:', err);
+                transaction.abort();
+            });
+        };
+
+        request.onblocked = () => {
+            console.warn('IndexedDB upgrade is waiting for other open tabs of the app to close.');
         };
 
         request.onsuccess = (event) => {
             db = (event.target as IDBOpenDBRequest).result;
+            // Let a newer version of the app in another tab upgrade the schema instead of blocking it.
+            db.onversionchange = () => {
+                db.close();
+                alert('Chalkbyte was updated in another tab. Please reload this page.');
+            };
             resolve(true);
         };
 
@@ -37,11 +87,11 @@ export const initDB = (): Promise<boolean> => {
     });
 };
 
-export const addChat = (chat: Omit<StoredChat, 'createdAt'>): Promise<StoredChat> => {
+export const addChat = (chat: Omit<StoredChat, 'createdAt' | 'messageCount'>): Promise<StoredChat> => {
     return new Promise((resolve, reject) => {
         const transaction = db.transaction(CHAT_STORE_NAME, 'readwrite');
         const store = transaction.objectStore(CHAT_STORE_NAME);
-        const newChat = { ...chat, createdAt: Date.now(), isPinned: false };
+        const newChat = { ...chat, createdAt: Date.now(), isPinned: false, messageCount: 0 };
         
         const request = store.add(newChat);
 
@@ -50,28 +100,360 @@ export const addChat = (chat: Omit<StoredChat, 'createdAt'>): Promise<StoredChat
     });
 };
 
-export const updateChat = (chat: StoredChat): Promise<StoredChat> => {
+// Changes only the given metadata fields. The record is re-read inside the transaction so a
+// concurrent appendMessage can't have its messageCount overwritten by a stale copy.
+export const updateChat = (chatId: string, changes: Partial<Pick<StoredChat, 'title' | 'isPinned' | 'activeLeafId' | 'contextSummary'>>): Promise<StoredChat> => {
      return new Promise((resolve, reject) => {
-        const transaction = db.transaction(CHAT_STORE_NAME, 'readwrite');
+        const transaction = db.transaction([CHAT_STORE_NAME, SEARCH_STORE_NAME], 'readwrite');
         const store = transaction.objectStore(CHAT_STORE_NAME);
-        const request = store.put(chat);
+        let updatedChat: StoredChat;
 
-        request.onsuccess = () => resolve(chat);
-        request.onerror = () => reject(request.error);
+        const getRequest = store.get(chatId);
+        getRequest.onsuccess = () => {
+            if (!getRequest.result) {
+                transaction.abort();
+                return reject(new Error(`Chat ${chatId} not found.`));
+            }
+            updatedChat = { ...getRequest.result, ...changes };
+            store.put(updatedChat);
+            if (changes.title !== undefined) indexTitle(transaction, updatedChat);
+        };
+
+        transaction.oncomplete = () => resolve(updatedChat);
+        transaction.onerror = () => reject(transaction.error);
     });
 };
 
 export const deleteChat = (id: string): Promise<void> => {
      return new Promise((resolve, reject) => {
-        const transaction = db.transaction(CHAT_STORE_NAME, 'readwrite');
-        const store = transaction.objectStore(CHAT_STORE_NAME);
-        const request = store.delete(id);
+        const transaction = db.transaction([CHAT_STORE_NAME, MESSAGE_STORE_NAME, ATTACHMENT_STORE_NAME, HINT_SESSION_STORE_NAME, MOCK_TEST_STORE_NAME, QUIZ_ATTEMPT_STORE_NAME, SEARCH_STORE_NAME], 'readwrite');
+        transaction.objectStore(CHAT_STORE_NAME).delete(id);
+        // Remove the chat's messages, attachments, hint sessions, mock tests, quizzes and search entries along with it.
+        deleteByChatId(transaction, MESSAGE_STORE_NAME, 'chatId_seq', messageRangeForChat(id));
+        deleteByChatId(transaction, ATTACHMENT_STORE_NAME, 'chatId', IDBKeyRange.only(id));
+        deleteByChatId(transaction, HINT_SESSION_STORE_NAME, 'chatId', IDBKeyRange.only(id));
+        deleteByChatId(transaction, MOCK_TEST_STORE_NAME, 'chatId', IDBKeyRange.only(id));
+        deleteByChatId(transaction, QUIZ_ATTEMPT_STORE_NAME, 'chatId', IDBKeyRange.only(id));
+        deleteByChatId(transaction, SEARCH_STORE_NAME, 'chatId', IDBKeyRange.only(id));
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
+
+// Appends a message to a chat and updates the chat's count and preview in the same transaction,
+// so concurrent appends can never be given the same seq. The message follows parentId, or the
+// end of the active branch when parentId is omitted, and becomes the new end of that branch.
+export const appendMessage = (chatId: string, message: ChatMessage, parentId?: string | null): Promise<{ message: StoredMessage; chat: StoredChat }> => {
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([CHAT_STORE_NAME, MESSAGE_STORE_NAME, SEARCH_STORE_NAME], 'readwrite');
+        const chatStore = transaction.objectStore(CHAT_STORE_NAME);
+        let result: { message: StoredMessage; chat: StoredChat };
+
+        const chatRequest = chatStore.get(chatId);
+        chatRequest.onsuccess = () => {
+            const chat = chatRequest.result as StoredChat | undefined;
+            if (!chat) {
+                transaction.abort();
+                return reject(new Error(`Chat ${chatId} not found.`));
+            }
+            const seq = chat.messageCount;
+            const storedMessage: StoredMessage = {
+                ...message,
+                id: `${chatId}:${seq}`,
+                chatId,
+                seq,
+                parentId: parentId === undefined ? chat.activeLeafId ?? null : parentId,
+            };
+            const updatedChat: StoredChat = {
+                ...chat,
+                messageCount: seq + 1,
+                preview: chat.preview || message.text.substring(0, MESSAGE_PREVIEW_LENGTH) || undefined,
+                activeLeafId: storedMessage.id,
+            };
+            transaction.objectStore(MESSAGE_STORE_NAME).add(storedMessage);
+            indexMessage(transaction, storedMessage);
+            chatStore.put(updatedChat);
+            result = { message: storedMessage, chat: updatedChat };
+        };
+
+        transaction.oncomplete = () => resolve(result);
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
+
+// Overwrites a single message in place; nothing else in the chat is rewritten.
+export const updateMessage = (message: StoredMessage): Promise<StoredMessage> => {
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([MESSAGE_STORE_NAME, SEARCH_STORE_NAME], 'readwrite');
+        transaction.objectStore(MESSAGE_STORE_NAME).put(message);
+        indexMessage(transaction, message);
+
+        transaction.oncomplete = () => resolve(message);
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
+
+export const getMessages = (chatId: string): Promise<StoredMessage[]> => {
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(MESSAGE_STORE_NAME, 'readonly');
+        const index = transaction.objectStore(MESSAGE_STORE_NAME).index('chatId_seq');
+        // The compound index returns the chat's messages already ordered by seq.
+        const request = index.getAll(messageRangeForChat(chatId));
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+// Points a copied attempt's retakeOf at the copy of the attempt it repeats, or drops it when
+// that attempt was not copied along.
+const withRetakeOf = (attempt: QuizAttempt, copiedIds: Map<string, string>): QuizAttempt => {
+    if (!attempt.retakeOf) return attempt;
+    const { retakeOf, ...rest } = attempt;
+    const attemptId = copiedIds.get(retakeOf.attemptId);
+    return attemptId ? { ...rest, retakeOf: { ...retakeOf, attemptId } } : rest;
+};
+
+// Copies one branch of a chat into a new chat of its own, including the files attached on it,
+// its hint sessions, mock tests and quiz attempts.
+// path is the branch from its first message down, as returned by getActivePath.
+export const forkChat = (chat: Omit<StoredChat, 'createdAt' | 'messageCount'>, path: StoredMessage[]): Promise<{ chat: StoredChat; messages: StoredMessage[] }> => {
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([CHAT_STORE_NAME, MESSAGE_STORE_NAME, ATTACHMENT_STORE_NAME, HINT_SESSION_STORE_NAME, MOCK_TEST_STORE_NAME, QUIZ_ATTEMPT_STORE_NAME, SEARCH_STORE_NAME], 'readwrite');
+        const attachmentStore = transaction.objectStore(ATTACHMENT_STORE_NAME);
+        const sessionStore = transaction.objectStore(HINT_SESSION_STORE_NAME);
+        const testStore = transaction.objectStore(MOCK_TEST_STORE_NAME);
+        const quizStore = transaction.objectStore(QUIZ_ATTEMPT_STORE_NAME);
+        // Retakes point at the attempt they repeat, which is an earlier message on the same branch.
+        const attemptIds = new Map<string, string>();
+
+        const messages = path.map((message, seq): StoredMessage => ({
+            ...message,
+            id: `${chat.id}:${seq}`,
+            chatId: chat.id,
+            seq,
+            parentId: seq > 0 ? `${chat.id}:${seq - 1}` : null,
+        }));
+        const newChat: StoredChat = {
+            ...chat,
+            createdAt: Date.now(),
+            messageCount: messages.length,
+            preview: messages[0]?.text.substring(0, MESSAGE_PREVIEW_LENGTH) || undefined,
+            activeLeafId: messages[messages.length - 1]?.id,
+        };
+
+        transaction.objectStore(CHAT_STORE_NAME).add(newChat);
+        indexTitle(transaction, newChat);
+        messages.forEach(message => {
+            if (message.attachments) {
+                // Attachments belong to one chat, so the fork gets its own copies that survive deleting the original.
+                message.attachments = message.attachments.map(attachment => {
+                    const id = createId();
+                    const request = attachmentStore.get(attachment.id);
+                    request.onsuccess = () => {
+                        if (request.result) attachmentStore.add({ ...request.result, id, chatId: chat.id });
+                    };
+                    return { ...attachment, id };
+                });
+            }
+            if (message.hintSessionId) {
+                // The fork carries on from the hints used so far, without changing the original's record.
+                const id = createId();
+                const request = sessionStore.get(message.hintSessionId);
+                request.onsuccess = () => {
+                    if (request.result) sessionStore.add({ ...request.result, id, chatId: chat.id });
+                };
+                message.hintSessionId = id;
+            }
+            if (message.mockTestId) {
+                const id = createId();
+                const request = testStore.get(message.mockTestId);
+                request.onsuccess = () => {
+                    if (request.result) testStore.add({ ...request.result, id, chatId: chat.id });
+                };
+                message.mockTestId = id;
+            }
+            if (message.quizAttemptId) {
+                const id = createId();
+                attemptIds.set(message.quizAttemptId, id);
+                const request = quizStore.get(message.quizAttemptId);
+                request.onsuccess = () => {
+                    if (request.result) quizStore.add(withRetakeOf({ ...request.result, id, chatId: chat.id }, attemptIds));
+                };
+                message.quizAttemptId = id;
+            }
+            transaction.objectStore(MESSAGE_STORE_NAME).add(message);
+            indexMessage(transaction, message);
+        });
+
+        transaction.oncomplete = () => resolve({ chat: newChat, messages });
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
+
+// Stores the files for one message together and returns how the message should describe them.
+export const addAttachments = (chatId: string, files: { blob: Blob; name: string; mimeType: string }[]): Promise<MessageAttachment[]> => {
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(ATTACHMENT_STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(ATTACHMENT_STORE_NAME);
+        const attachments = files.map(({ blob, name, mimeType }): MessageAttachment => {
+            const attachment: StoredAttachment = { id: createId(), chatId, blob, name, mimeType, size: blob.size, createdAt: Date.now() };
+            store.add(attachment);
+            return { id: attachment.id, name, mimeType, size: attachment.size };
+        });
+
+        transaction.oncomplete = () => resolve(attachments);
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
+
+export const getAttachment = (id: string): Promise<StoredAttachment | undefined> => {
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(ATTACHMENT_STORE_NAME, 'readonly');
+        const store = transaction.objectStore(ATTACHMENT_STORE_NAME);
+        const request = store.get(id);
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const addHintSession = (chatId: string, problem: string, plan: SolutionPlan, progressToken: string): Promise<HintSession> => {
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(HINT_SESSION_STORE_NAME, 'readwrite');
+        const now = Date.now();
+        const session: HintSession = { id: createId(), chatId, problem, plan, hints: [], attempts: [], solved: false, progressToken, createdAt: now, updatedAt: now };
+        transaction.objectStore(HINT_SESSION_STORE_NAME).add(session);
+
+        transaction.oncomplete = () => resolve(session);
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
+
+export const getHintSession = (id: string): Promise<HintSession | undefined> => {
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(HINT_SESSION_STORE_NAME, 'readonly');
+        const request = transaction.objectStore(HINT_SESSION_STORE_NAME).get(id);
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+// Adds a revealed hint and/or a checked attempt to a session. Like updateChat, the record is
+// re-read inside the transaction, so two quick clicks cannot drop one another's hint.
+export const recordHintProgress = (id: string, progress: { hint?: RevealedHint; attempt?: HintAttempt; progressToken?: string }): Promise<HintSession> => {
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(HINT_SESSION_STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(HINT_SESSION_STORE_NAME);
+        let updatedSession: HintSession;
+
+        const getRequest = store.get(id);
+        getRequest.onsuccess = () => {
+            const session = getRequest.result as HintSession | undefined;
+            if (!session) {
+                transaction.abort();
+                return reject(new Error(`Hint session ${id} not found.`));
+            }
+            updatedSession = {
+                ...session,
+                hints: progress.hint ? [...session.hints, progress.hint] : session.hints,
+                attempts: progress.attempt ? [...session.attempts, progress.attempt] : session.attempts,
+                solved: session.solved || progress.attempt?.verdict === 'correct',
+                progressToken: progress.progressToken ?? session.progressToken,
+                updatedAt: Date.now(),
+            };
+            store.put(updatedSession);
+        };
+
+        transaction.oncomplete = () => resolve(updatedSession);
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
+
+export const addMockTest = (test: Omit<MockTest, 'id'>): Promise<MockTest> => {
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(MOCK_TEST_STORE_NAME, 'readwrite');
+        const stored: MockTest = { ...test, id: createId() };
+        transaction.objectStore(MOCK_TEST_STORE_NAME).add(stored);
+
+        transaction.oncomplete = () => resolve(stored);
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
 
-        request.onsuccess = () => resolve();
+export const getMockTest = (id: string): Promise<MockTest | undefined> => {
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(MOCK_TEST_STORE_NAME, 'readonly');
+        const request = transaction.objectStore(MOCK_TEST_STORE_NAME).get(id);
+
+        request.onsuccess = () => resolve(request.result);
         request.onerror = () => reject(request.error);
     });
 };
 
+export const addQuizAttempt = (attempt: Omit<QuizAttempt, 'id'>): Promise<QuizAttempt> => {
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(QUIZ_ATTEMPT_STORE_NAME, 'readwrite');
+        const stored: QuizAttempt = { ...attempt, id: createId() };
+        transaction.objectStore(QUIZ_ATTEMPT_STORE_NAME).add(stored);
+
+        transaction.oncomplete = () => resolve(stored);
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
+
+export const getQuizAttempt = (id: string): Promise<QuizAttempt | undefined> => {
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(QUIZ_ATTEMPT_STORE_NAME, 'readonly');
+        const request = transaction.objectStore(QUIZ_ATTEMPT_STORE_NAME).get(id);
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+// Saves the answer to one question of an attempt, adds the next batch of an adaptive quiz, or
+// marks the attempt finished.
+export const recordQuizProgress = (id: string, progress: {
+    answer?: { index: number; answer: QuizAnswer; timeSpentMs: number };
+    batch?: { questions: QuizQuestion[]; level: number };
+    finishedAt?: number;
+}): Promise<QuizAttempt> => {
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(QUIZ_ATTEMPT_STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(QUIZ_ATTEMPT_STORE_NAME);
+        let updatedAttempt: QuizAttempt;
+
+        const getRequest = store.get(id);
+        getRequest.onsuccess = () => {
+            const attempt = getRequest.result as QuizAttempt | undefined;
+            if (!attempt) {
+                transaction.abort();
+                return reject(new Error(`Quiz attempt ${id} not found.`));
+            }
+            updatedAttempt = { ...attempt, answers: [...attempt.answers], timeSpentMs: [...attempt.timeSpentMs] };
+            if (progress.answer) {
+                updatedAttempt.answers[progress.answer.index] = progress.answer.answer;
+                updatedAttempt.timeSpentMs[progress.answer.index] = progress.answer.timeSpentMs;
+            }
+            if (progress.batch) {
+                const { questions, level } = progress.batch;
+                updatedAttempt.questions = [...attempt.questions, ...questions];
+                updatedAttempt.answers.push(...questions.map(() => null));
+                updatedAttempt.timeSpentMs.push(...questions.map(() => 0));
+                updatedAttempt.levels = [...(attempt.levels ?? []), ...questions.map(() => level)];
+            }
+            if (progress.finishedAt) updatedAttempt.finishedAt = progress.finishedAt;
+            store.put(updatedAttempt);
+        };
+
+        transaction.oncomplete = () => resolve(updatedAttempt);
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
+
 export const getChatsForClass = (classNum: number): Promise<StoredChat[]> => {
     return new Promise((resolve, reject) => {
         const transaction = db.transaction(CHAT_STORE_NAME, 'readonly');
@@ -95,4 +477,250 @@ export const getChatsForClass = (classNum: number): Promise<StoredChat[]> => {
         };
         request.onerror = () => reject(request.error);
     });
-};
\ No newline at end of file
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+// Finds messages and chat titles, across all classes, that contain every query term (as a word
+// prefix). Only the matching index entries and the top results are read, never whole chats.
+export const searchChats = async (query: string, limit = 30): Promise<SearchResult[]> => {
+    const queryTerms = tokenize(query);
+    if (queryTerms.length === 0) return [];
+
+    const transaction = db.transaction([SEARCH_STORE_NAME, MESSAGE_STORE_NAME, CHAT_STORE_NAME], 'readonly');
+    const termIndex = transaction.objectStore(SEARCH_STORE_NAME).index('terms');
+
+    // Exact word matches score higher than prefix-only matches.
+    const scores = new Map<string, number>();
+    for (const [i, term] of queryTerms.entries()) {
+        const [prefixKeys, exactKeys] = await Promise.all([
+            requestToPromise(termIndex.getAllKeys(IDBKeyRange.bound(term, `${term}\uffff`))),
+            requestToPromise(termIndex.getAllKeys(IDBKeyRange.only(term))),
+        ]);
+        const exact = new Set(exactKeys.map(String));
+        const matched = new Set(prefixKeys.map(String));
+        for (const id of matched) {
+            // Every term must match: drop entries that missed an earlier term.
+            if (i > 0 && !scores.has(id)) continue;
+            scores.set(id, (scores.get(id) ?? 0) + (exact.has(id) ? 3 : 1));
+        }
+        if (i > 0) {
+            for (const id of [...scores.keys()]) {
+                if (!matched.has(id)) scores.delete(id);
+            }
+        }
+        if (scores.size === 0) return [];
+    }
+
+    const entryStore = transaction.objectStore(SEARCH_STORE_NAME);
+    const messageStore = transaction.objectStore(MESSAGE_STORE_NAME);
+    const chatStore = transaction.objectStore(CHAT_STORE_NAME);
+    const chatCache = new Map<string, StoredChat | undefined>();
+
+    const ranked = [...scores.entries()]
+        // A title match says more about the whole chat than a word somewhere in a message.
+        .map(([id, score]) => ({ id, score: id.startsWith('title:') ? score * 2 : score }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+
+    const results: SearchResult[] = [];
+    for (const { id, score } of ranked) {
+        const entry = await requestToPromise(entryStore.get(id)) as SearchEntry | undefined;
+        if (!entry) continue;
+        if (!chatCache.has(entry.chatId)) {
+            chatCache.set(entry.chatId, await requestToPromise(chatStore.get(entry.chatId)));
+        }
+        const chat = chatCache.get(entry.chatId);
+        if (!chat) continue;
+
+        if (entry.kind === 'title') {
+            results.push({ chat, text: chat.title, score });
+        } else {
+            const message = await requestToPromise(messageStore.get(id)) as StoredMessage | undefined;
+            if (message) results.push({ chat, messageId: message.id, text: message.text, score });
+        }
+    }
+
+    // Equal scores: newer chats first.
+    return results.sort((a, b) => b.score - a.score || b.chat.createdAt - a.chat.createdAt);
+};
+
+export const getAllChats = (): Promise<StoredChat[]> => {
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(CHAT_STORE_NAME, 'readonly');
+        const request = transaction.objectStore(CHAT_STORE_NAME).getAll();
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const getAttachmentsForChat = (chatId: string): Promise<StoredAttachment[]> => {
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(ATTACHMENT_STORE_NAME, 'readonly');
+        const request = transaction.objectStore(ATTACHMENT_STORE_NAME).index('chatId').getAll(IDBKeyRange.only(chatId));
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const getHintSessionsForChat = (chatId: string): Promise<HintSession[]> => {
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(HINT_SESSION_STORE_NAME, 'readonly');
+        const request = transaction.objectStore(HINT_SESSION_STORE_NAME).index('chatId').getAll(IDBKeyRange.only(chatId));
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const getMockTestsForChat = (chatId: string): Promise<MockTest[]> => {
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(MOCK_TEST_STORE_NAME, 'readonly');
+        const request = transaction.objectStore(MOCK_TEST_STORE_NAME).index('chatId').getAll(IDBKeyRange.only(chatId));
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const getQuizAttemptsForChat = (chatId: string): Promise<QuizAttempt[]> => {
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(QUIZ_ATTEMPT_STORE_NAME, 'readonly');
+        const request = transaction.objectStore(QUIZ_ATTEMPT_STORE_NAME).index('chatId').getAll(IDBKeyRange.only(chatId));
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+// Backups before branching have no message ids; their messages form a single line.
+export type ImportedMessage = ChatMessage & { id?: string; parentId?: string | null };
+
+export type ImportedChat = {
+    chat: Omit<StoredChat, 'messageCount' | 'preview'>;
+    messages: ImportedMessage[];
+    attachments: Omit<StoredAttachment, 'chatId'>[];
+    hintSessions: Omit<HintSession, 'chatId'>[];
+    mockTests: Omit<MockTest, 'chatId'>[];
+    quizAttempts: Omit<QuizAttempt, 'chatId'>[];
+};
+
+export type ImportMode = 'merge' | 'replace';
+
+export type ImportSummary = { added: number; replaced: number; copied: number };
+
+// Writes imported chats in one transaction, so a failure leaves the database untouched.
+// 'replace' overwrites an existing chat with the same id; 'merge' keeps it and stores the
+// imported one as a copy under a new id. Attachment, hint session, mock test and quiz attempt
+// ids are always regenerated.
+export const importChats = (imported: ImportedChat[], mode: ImportMode): Promise<ImportSummary> => {
+    return new Promise((resolve, reject) => {
+        const storeNames = [CHAT_STORE_NAME, MESSAGE_STORE_NAME, ATTACHMENT_STORE_NAME, HINT_SESSION_STORE_NAME, MOCK_TEST_STORE_NAME, QUIZ_ATTEMPT_STORE_NAME, SEARCH_STORE_NAME];
+        const transaction = db.transaction(storeNames, 'readwrite');
+        const chatStore = transaction.objectStore(CHAT_STORE_NAME);
+        const summary: ImportSummary = { added: 0, replaced: 0, copied: 0 };
+
+        const writeChat = (item: ImportedChat, chatId: string) => {
+            const attachmentIds = new Map<string, string>();
+            item.attachments.forEach(attachment => {
+                const id = createId();
+                attachmentIds.set(attachment.id, id);
+                transaction.objectStore(ATTACHMENT_STORE_NAME).put({ ...attachment, id, chatId });
+            });
+            const sessionIds = new Map<string, string>();
+            item.hintSessions.forEach(session => {
+                const id = createId();
+                sessionIds.set(session.id, id);
+                transaction.objectStore(HINT_SESSION_STORE_NAME).put({ ...session, id, chatId });
+            });
+            const testIds = new Map<string, string>();
+            item.mockTests.forEach(test => {
+                const id = createId();
+                testIds.set(test.id, id);
+                transaction.objectStore(MOCK_TEST_STORE_NAME).put({ ...test, id, chatId });
+            });
+            const attemptIds = new Map(item.quizAttempts.map(attempt => [attempt.id, createId()]));
+            item.quizAttempts.forEach(attempt => {
+                transaction.objectStore(QUIZ_ATTEMPT_STORE_NAME).put(withRetakeOf({ ...attempt, id: attemptIds.get(attempt.id)!, chatId }, attemptIds));
+            });
+
+            // Message ids are rebuilt from the new chat id; parent links follow them.
+            const messageIds = new Map(item.messages.map((message, seq) => [message.id ?? String(seq), `${chatId}:${seq}`]));
+            const messages = item.messages.map((message, seq): StoredMessage => {
+                const parentId = message.id === undefined
+                    ? (seq > 0 ? `${chatId}:${seq - 1}` : null)
+                    : (message.parentId && messageIds.get(message.parentId)) || null;
+                const storedMessage: StoredMessage = { ...message, id: `${chatId}:${seq}`, chatId, seq, parentId };
+                if (message.attachments) {
+                    // A file missing from the backup is dropped from its message too.
+                    storedMessage.attachments = message.attachments
+                        .filter(attachment => attachmentIds.has(attachment.id))
+                        .map(attachment => ({ ...attachment, id: attachmentIds.get(attachment.id)! }));
+                }
+                if (message.hintSessionId) {
+                    const sessionId = sessionIds.get(message.hintSessionId);
+                    if (sessionId) storedMessage.hintSessionId = sessionId;
+                    else delete storedMessage.hintSessionId;
+                }
+                if (message.mockTestId) {
+                    const testId = testIds.get(message.mockTestId);
+                    if (testId) storedMessage.mockTestId = testId;
+                    else delete storedMessage.mockTestId;
+                }
+                if (message.quizAttemptId) {
+                    const attemptId = attemptIds.get(message.quizAttemptId);
+                    if (attemptId) storedMessage.quizAttemptId = attemptId;
+                    else delete storedMessage.quizAttemptId;
+                }
+                return storedMessage;
+            });
+
+            const chat: StoredChat = {
+                ...item.chat,
+                id: chatId,
+                messageCount: messages.length,
+                preview: messages[0]?.text.substring(0, MESSAGE_PREVIEW_LENGTH) || undefined,
+                activeLeafId: (item.chat.activeLeafId && messageIds.get(item.chat.activeLeafId)) || messages[messages.length - 1]?.id,
+            };
+            chatStore.put(chat);
+            indexTitle(transaction, chat);
+
+            messages.forEach(message => {
+                transaction.objectStore(MESSAGE_STORE_NAME).put(message);
+                indexMessage(transaction, message);
+            });
+        };
+
+        imported.forEach(item => {
+            const existsRequest = chatStore.getKey(item.chat.id);
+            existsRequest.onsuccess = () => {
+                if (existsRequest.result === undefined) {
+                    summary.added++;
+                    writeChat(item, item.chat.id);
+                } else if (mode === 'replace') {
+                    summary.replaced++;
+                    const range = IDBKeyRange.only(item.chat.id);
+                    deleteByChatId(transaction, ATTACHMENT_STORE_NAME, 'chatId', range);
+                    deleteByChatId(transaction, HINT_SESSION_STORE_NAME, 'chatId', range);
+                    deleteByChatId(transaction, MOCK_TEST_STORE_NAME, 'chatId', range);
+                    deleteByChatId(transaction, QUIZ_ATTEMPT_STORE_NAME, 'chatId', range);
+                    // Message and search entry ids are reused, so write only after the old ones are gone.
+                    deleteByChatId(transaction, MESSAGE_STORE_NAME, 'chatId_seq', messageRangeForChat(item.chat.id), () => {
+                        deleteByChatId(transaction, SEARCH_STORE_NAME, 'chatId', range, () => writeChat(item, item.chat.id));
+                    });
+                } else {
+                    summary.copied++;
+                    writeChat(item, createId());
+                }
+            };
+        });
+
+        transaction.oncomplete = () => resolve(summary);
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
@@ -0,0 +1,148 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { LATEST_DB_VERSION } from './dbMigrations';
+
+const DB_NAME = 'QuestionnaireDB';
+
+// Records as the app wrote them before versioned migrations, when messages lived on the chat.
+type LegacyMessage = { role: 'user' | 'model'; text: string; image?: string; imageId?: string };
+type LegacyChat = { id: string; classNum: number; title: string; createdAt: number; messages: LegacyMessage[] };
+type LegacyImage = { id: string; chatId: string; blob: Blob; mimeType: string; createdAt: number };
+
+// Writes a database the way the app did at version 1 or 2, before any of the later steps existed.
+const seedDatabase = (version: 1 | 2, chats: LegacyChat[], images: LegacyImage[] = []) => new Promise<void>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, version);
+    request.onupgradeneeded = () => {
+        const chatStore = request.result.createObjectStore('chats', { keyPath: 'id' });
+        chatStore.createIndex('classNum', 'classNum', { unique: false });
+        chats.forEach(chat => chatStore.put(chat));
+        if (version === 2) {
+            const imageStore = request.result.createObjectStore('images', { keyPath: 'id' });
+            imageStore.createIndex('chatId', 'chatId', { unique: false });
+            images.forEach(image => imageStore.put(image));
+        }
+    };
+    request.onsuccess = () => {
+        request.result.close();
+        resolve();
+    };
+    request.onerror = () => reject(request.error);
+});
+
+// db.ts keeps its connection in a module variable, so every test gets a fresh copy of it.
+const openLatest = async () => {
+    const db = await import('./db');
+    await db.initDB();
+    return db;
+};
+
+const projectileChat: LegacyChat = {
+    id: 'chat-1', classNum: 11, title: 'Projectile motion', createdAt: 1000,
+    messages: [
+        { role: 'user', text: 'What is the range of a projectile?' },
+        { role: 'model', text: 'The range is u² sin 2θ / g.' },
+    ],
+};
+
+describe('database migrations', () => {
+    beforeEach(() => {
+        globalThis.indexedDB = new IDBFactory();
+        vi.resetModules();
+    });
+
+    it('opens an old database at the latest version', async () => {
+        await seedDatabase(1, []);
+        await openLatest();
+
+        const version = await new Promise<number>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME);
+            request.onsuccess = () => {
+                resolve(request.result.version);
+                request.result.close();
+            };
+            request.onerror = () => reject(request.error);
+        });
+        expect(version).toBe(LATEST_DB_VERSION);
+    });
+
+    it('keeps the chats and messages of a version 1 database', async () => {
+        await seedDatabase(1, [projectileChat]);
+
+        const db = await openLatest();
+        const [chat] = await db.getChatsForClass(11);
+        expect(chat).toMatchObject({ id: 'chat-1', title: 'Projectile motion', createdAt: 1000 });
+        const messages = await db.getMessages('chat-1');
+        expect(messages.map(({ role, text }) => ({ role, text }))).toEqual(projectileChat.messages);
+    });
+
+    it('drops legacy blob: image URLs from messages (v3)', async () => {
+        await seedDatabase(1, [{
+            ...projectileChat,
+            messages: [{ role: 'user', text: 'What about this one?', image: 'blob:http://localhost/1234' }, ...projectileChat.messages],
+        }]);
+
+        const db = await openLatest();
+        const messages = await db.getMessages('chat-1');
+        expect(messages.map(message => 'image' in message)).toEqual([false, false, false]);
+        expect(messages[0].text).toBe('What about this one?');
+    });
+
+    it('moves messages out of the chat records into their own store, in order (v4)', async () => {
+        await seedDatabase(1, [projectileChat, { id: 'chat-empty', classNum: 11, title: 'New chat', createdAt: 1500, messages: [] }]);
+
+        const db = await openLatest();
+        const chats = await db.getChatsForClass(11);
+        expect(chats.every(chat => !('messages' in chat))).toBe(true);
+        expect(chats.find(chat => chat.id === 'chat-1')).toMatchObject({ messageCount: 2, preview: 'What is the range of a projectile?' });
+        expect(chats.find(chat => chat.id === 'chat-empty')).toMatchObject({ messageCount: 0 });
+
+        const messages = await db.getMessages('chat-1');
+        expect(messages.map(({ id, chatId, seq }) => ({ id, chatId, seq }))).toEqual([
+            { id: 'chat-1:0', chatId: 'chat-1', seq: 0 },
+            { id: 'chat-1:1', chatId: 'chat-1', seq: 1 },
+        ]);
+        expect(await db.getMessages('chat-empty')).toEqual([]);
+    });
+
+    it('builds the search index from existing messages and titles (v5)', async () => {
+        await seedDatabase(1, [projectileChat, {
+            id: 'chat-3', classNum: 12, title: 'Résumé of kinematics', createdAt: 3000,
+            messages: [{ role: 'user', text: 'Summarise the equations of motion.' }],
+        }]);
+
+        const db = await openLatest();
+        const byMessage = await db.searchChats('range');
+        expect(byMessage.map(result => result.messageId).sort()).toEqual(['chat-1:0', 'chat-1:1']);
+
+        const byTitle = await db.searchChats('resume');
+        expect(byTitle).toHaveLength(1);
+        expect(byTitle[0].chat.id).toBe('chat-3');
+        expect(byTitle[0].messageId).toBeUndefined();
+
+        expect((await db.searchChats('equations')).map(result => result.messageId)).toEqual(['chat-3:0']);
+    });
+
+    it('turns the images of a version 2 database into attachments (v7)', async () => {
+        const blob = new Blob(['png bytes'], { type: 'image/png' });
+        await seedDatabase(2, [{
+            id: 'chat-2', classNum: 12, title: 'Circuit', createdAt: 2000,
+            messages: [
+                { role: 'user', text: 'Find the current in this circuit.', imageId: 'image-1' },
+                { role: 'model', text: 'Use Kirchhoff’s laws.' },
+                { role: 'user', text: 'And this one?', imageId: 'image-missing' },
+            ],
+        }], [{ id: 'image-1', chatId: 'chat-2', blob, mimeType: 'image/png', createdAt: 2001 }]);
+
+        const db = await openLatest();
+        const messages = await db.getMessages('chat-2');
+        expect(messages).toHaveLength(3);
+        expect(messages.every(message => !('imageId' in message))).toBe(true);
+        expect(messages[0].attachments).toEqual([{ id: 'image-1', name: 'image.png', mimeType: 'image/png', size: blob.size }]);
+        // An image that had gone missing is dropped rather than described.
+        expect(messages[2].attachments).toBeUndefined();
+
+        expect(await db.getAttachment('image-1')).toMatchObject({ id: 'image-1', chatId: 'chat-2', mimeType: 'image/png', size: blob.size, createdAt: 2001 });
+        expect(await db.getAttachmentsForChat('chat-2')).toHaveLength(1);
+    });
+});
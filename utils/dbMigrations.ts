@@ -0,0 +1,187 @@
+// Ordered IndexedDB schema migrations. Each step upgrades the database from the previous
+// version to its own, so a browser on any old version replays only the steps it is missing.
+//
+// Published steps are history: never edit one. Append a new step with the next version
+// number instead. Store and index names are spelled out here on purpose, so a later rename in
+// db.ts cannot change what an old step does.
+
+// Same preview length db.ts uses for new chats.
+const PREVIEW_LENGTH = 60;
+
+// The tokenizer search.ts had when version 5 shipped, frozen here for the same reason as the
+// store names: changing how new text is indexed must not change what the backfill wrote.
+const tokenizeV5 = (text: string): string[] => {
+    const words = text
+        .toLowerCase()
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(word => word.length >= 2);
+    return [...new Set(words)].slice(0, 500);
+};
+
+export interface Migration {
+    version: number;
+    description: string;
+    // Runs inside the versionchange transaction. Return a promise when the step transforms
+    // existing records, so the next step only starts once this one has finished.
+    upgrade: (db: IDBDatabase, transaction: IDBTransaction) => void | Promise<void>;
+}
+
+// Rewrites every record in a store. Returning undefined from the transform leaves a record as is.
+export const transformRecords = <T>(
+    transaction: IDBTransaction,
+    storeName: string,
+    transform: (record: T) => T | undefined,
+): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        const request = transaction.objectStore(storeName).openCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return resolve();
+            const updated = transform(cursor.value as T);
+            if (updated !== undefined) cursor.update(updated);
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'Create the chats store, indexed by class',
+        upgrade: (db) => {
+            const store = db.createObjectStore('chats', { keyPath: 'id' });
+            store.createIndex('classNum', 'classNum', { unique: false });
+        },
+    },
+    {
+        version: 2,
+        description: 'Create the images store for uploaded images, indexed by chat',
+        upgrade: (db) => {
+            const store = db.createObjectStore('images', { keyPath: 'id' });
+            store.createIndex('chatId', 'chatId', { unique: false });
+        },
+    },
+    {
+        version: 3,
+        description: 'Drop legacy blob: image URLs from stored messages; they never survive a reload',
+        upgrade: (_db, transaction) => transformRecords<{ messages?: { image?: string }[] }>(transaction, 'chats', chat => {
+            if (!chat.messages?.some(m => m.image !== undefined)) return undefined;
+            return {
+                ...chat,
+                messages: chat.messages.map(({ image: _legacyImage, ...message }) => message),
+            };
+        }),
+    },
+    {
+        version: 4,
+        description: 'Move messages out of chat records into their own store, keyed per message',
+        upgrade: (db, transaction) => {
+            const messageStore = db.createObjectStore('messages', { keyPath: 'id' });
+            messageStore.createIndex('chatId_seq', ['chatId', 'seq'], { unique: true });
+
+            return transformRecords<{ id: string; messages?: { text: string }[]; messageCount?: number; preview?: string }>(transaction, 'chats', chat => {
+                const { messages = [], ...meta } = chat;
+                messages.forEach((message, seq) => {
+                    messageStore.put({ ...message, id: `${chat.id}:${seq}`, chatId: chat.id, seq });
+                });
+                return { ...meta, messageCount: messages.length, preview: messages[0]?.text.substring(0, PREVIEW_LENGTH) };
+            });
+        },
+    },
+    {
+        version: 5,
+        description: 'Create the full-text search index and backfill it from existing messages and titles',
+        upgrade: async (db, transaction) => {
+            const searchStore = db.createObjectStore('searchIndex', { keyPath: 'id' });
+            searchStore.createIndex('terms', 'terms', { unique: false, multiEntry: true });
+            searchStore.createIndex('chatId', 'chatId', { unique: false });
+
+            // Reads only; the transforms return undefined so no record is rewritten.
+            await transformRecords<{ id: string; chatId: string; text: string }>(transaction, 'messages', message => {
+                searchStore.put({ id: message.id, chatId: message.chatId, kind: 'message', terms: tokenizeV5(message.text) });
+                return undefined;
+            });
+            await transformRecords<{ id: string; title: string }>(transaction, 'chats', chat => {
+                searchStore.put({ id: `title:${chat.id}`, chatId: chat.id, kind: 'title', terms: tokenizeV5(chat.title) });
+                return undefined;
+            });
+        },
+    },
+    {
+        version: 6,
+        description: 'Link each message to the one before it, so edits and regenerations can branch',
+        upgrade: async (_db, transaction) => {
+            // Every chat was a single line until now, with message ids of the form `${chatId}:${seq}`.
+            await transformRecords<{ chatId: string; seq: number; parentId?: string | null }>(transaction, 'messages', message => ({
+                ...message,
+                parentId: message.seq > 0 ? `${message.chatId}:${message.seq - 1}` : null,
+            }));
+            await transformRecords<{ id: string; messageCount: number; activeLeafId?: string }>(transaction, 'chats', chat => {
+                if (chat.messageCount === 0) return undefined;
+                return { ...chat, activeLeafId: `${chat.id}:${chat.messageCount - 1}` };
+            });
+        },
+    },
+    {
+        version: 7,
+        description: 'Replace the images store with an attachments store that holds any uploaded file, and describe attachments on their messages',
+        upgrade: async (db, transaction) => {
+            const attachmentStore = db.createObjectStore('attachments', { keyPath: 'id' });
+            attachmentStore.createIndex('chatId', 'chatId', { unique: false });
+
+            type LegacyImage = { id: string; chatId: string; blob: Blob; mimeType: string; createdAt: number };
+            const described = new Map<string, { id: string; name: string; mimeType: string; size: number }>();
+            await transformRecords<LegacyImage>(transaction, 'images', image => {
+                const attachment = { id: image.id, name: `image.${image.mimeType.split('/')[1] || 'png'}`, mimeType: image.mimeType, size: image.blob.size };
+                described.set(image.id, attachment);
+                attachmentStore.put({ ...attachment, chatId: image.chatId, blob: image.blob, createdAt: image.createdAt });
+                return undefined;
+            });
+            await transformRecords<{ imageId?: string }>(transaction, 'messages', message => {
+                if (message.imageId === undefined) return undefined;
+                const { imageId, ...rest } = message;
+                // An image that had gone missing is dropped rather than shown as a broken file.
+                const attachment = described.get(imageId);
+                return attachment ? { ...rest, attachments: [attachment] } : rest;
+            });
+            db.deleteObjectStore('images');
+        },
+    },
+    {
+        version: 8,
+        description: 'Create the hintSessions store for problems worked through with "Solve with me", indexed by chat',
+        upgrade: (db) => {
+            const store = db.createObjectStore('hintSessions', { keyPath: 'id' });
+            store.createIndex('chatId', 'chatId', { unique: false });
+        },
+    },
+    {
+        version: 9,
+        description: 'Create the mockTests store for submitted mock tests, indexed by chat',
+        upgrade: (db) => {
+            const store = db.createObjectStore('mockTests', { keyPath: 'id' });
+            store.createIndex('chatId', 'chatId', { unique: false });
+        },
+    },
+    {
+        version: 10,
+        description: 'Create the quizAttempts store for quizzes and their answers, indexed by chat',
+        upgrade: (db) => {
+            const store = db.createObjectStore('quizAttempts', { keyPath: 'id' });
+            store.createIndex('chatId', 'chatId', { unique: false });
+        },
+    },
+];
+
+export const LATEST_DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Applies every migration newer than oldVersion, one after another.
+export const runMigrations = async (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number): Promise<void> => {
+    for (const migration of MIGRATIONS) {
+        if (migration.version <= oldVersion) continue;
+        await migration.upgrade(db, transaction);
+    }
+};
@@ -0,0 +1,339 @@
+import { escapeHtml } from './sanitize';
+
+// Renders ```diagram blocks as SVG flowcharts. The syntax is a small part of Mermaid's flowchart
+// language, which models already write fluently:
+//
+//   direction: LR              (optional; TD, top to bottom, is the default)
+//   A[Start] --> B{Is x > 0?}
+//   B -->|yes| C[Positive]
+//   B -- no --> D(Negative)
+//   C --- E((End))
+//
+// Shapes: [box], (rounded box), {decision}, ((circle)). Links: --> arrow, --- line, -.-> dashed
+// arrow, ==> thick arrow, each with an optional label written -->|label| or -- label -->.
+// renderDiagram throws an Error describing the first problem, so the caller can show the source.
+
+type Shape = 'box' | 'rounded' | 'decision' | 'circle';
+
+type DiagramNode = { id: string; label: string; shape: Shape };
+
+type LinkStyle = { arrow: boolean; dashed: boolean; thick: boolean };
+
+type DiagramEdge = LinkStyle & { from: string; to: string; label?: string };
+
+type Direction = 'TD' | 'LR';
+
+type Point = { x: number; y: number };
+
+// A node with its size and position, in SVG units. x and y are the centre.
+type PlacedNode = DiagramNode & Point & { width: number; height: number; lines: string[] };
+
+const MAX_NODES = 40;
+const MAX_EDGES = 60;
+const MAX_LABEL_LENGTH = 80;
+const LINE_LENGTH = 22;
+const CHAR_WIDTH = 7.2;
+const LINE_HEIGHT = 16;
+const PADDING = 16;
+// Space between layers (rows, or columns left to right) and between nodes in a layer.
+const LAYER_GAP = 56;
+const NODE_GAP = 28;
+const BACK_LANE_GAP = 24;
+
+// Longer openers first, so (( is not read as (.
+const SHAPES: [string, string, Shape][] = [['((', '))', 'circle'], ['[', ']', 'box'], ['(', ')', 'rounded'], ['{', '}', 'decision']];
+
+const LINKS: [string, LinkStyle][] = [
+    ['-.->', { arrow: true, dashed: true, thick: false }],
+    ['-.-', { arrow: false, dashed: true, thick: false }],
+    ['-->', { arrow: true, dashed: false, thick: false }],
+    ['---', { arrow: false, dashed: false, thick: false }],
+    ['==>', { arrow: true, dashed: false, thick: true }],
+    ['===', { arrow: false, dashed: false, thick: true }],
+];
+
+// "-- label -->", "-. label .->" and "== label ==>", keyed by how they end.
+const LABELLED_LINK = /^(?:--|-\.|==)\s+([^\s>-][^>]*?)\s+(-->|\.->|==>)/;
+const LABELLED_LINK_STYLES: Record<string, LinkStyle> = {
+    '-->': { arrow: true, dashed: false, thick: false },
+    '.->': { arrow: true, dashed: true, thick: false },
+    '==>': { arrow: true, dashed: false, thick: true },
+};
+
+const parseDiagram = (source: string) => {
+    const nodes = new Map<string, DiagramNode>();
+    const edges: DiagramEdge[] = [];
+    let direction: Direction = 'TD';
+
+    for (const rawLine of source.split('\n')) {
+        const line = rawLine.trim().replace(/;$/, '');
+        if (!line || line.startsWith('%%') || line.startsWith('#')) continue;
+
+        // "direction: LR", or Mermaid's own "graph LR" / "flowchart TD" header.
+        const header = /^(?:direction\s*:|graph|flowchart)\s*(TD|TB|LR|BT|RL)?\s*$/i.exec(line);
+        if (header) {
+            direction = /^(LR|RL)$/i.test(header[1] ?? '') ? 'LR' : 'TD';
+            continue;
+        }
+
+        let position = 0;
+        const skipSpace = () => {
+            while (line[position] === ' ' || line[position] === '\t') position++;
+        };
+
+        const readNode = (): string => {
+            skipSpace();
+            const id = /^[\p{L}\p{N}_]+/u.exec(line.slice(position))?.[0];
+            if (!id) throw new Error(`Expected a node name at "${line.slice(position) || line}".`);
+            position += id.length;
+
+            for (const [open, close, shape] of SHAPES) {
+                if (!line.startsWith(open, position)) continue;
+                const end = line.indexOf(close, position + open.length);
+                if (end < 0) throw new Error(`"${open}" after ${id} is not closed.`);
+                const label = line.slice(position + open.length, end).trim().replace(/^"(.*)"$/, '$1');
+                if (label.length > MAX_LABEL_LENGTH) throw new Error(`The label of ${id} is too long.`);
+                position = end + close.length;
+                nodes.set(id, { id, label: label || id, shape });
+                return id;
+            }
+            if (!nodes.has(id)) nodes.set(id, { id, label: id, shape: 'box' });
+            return id;
+        };
+
+        const readLink = (): LinkStyle & { label?: string } => {
+            skipSpace();
+            const rest = line.slice(position);
+            const labelled = LABELLED_LINK.exec(rest);
+            if (labelled) {
+                position += labelled[0].length;
+                return { ...LABELLED_LINK_STYLES[labelled[2]], label: labelled[1] };
+            }
+            const link = LINKS.find(([token]) => rest.startsWith(token));
+            if (!link) throw new Error(`Expected a link such as --> at "${rest}".`);
+            position += link[0].length;
+            const label = /^\|([^|]*)\|/.exec(line.slice(position));
+            if (label) position += label[0].length;
+            return { ...link[1], label: label?.[1].trim() || undefined };
+        };
+
+        // A line is a node, optionally followed by links to further nodes: A --> B --> C.
+        let from = readNode();
+        for (skipSpace(); position < line.length; skipSpace()) {
+            const link = readLink();
+            const to = readNode();
+            edges.push({ ...link, from, to });
+            from = to;
+        }
+    }
+
+    if (nodes.size === 0) throw new Error('The diagram is empty.');
+    if (nodes.size > MAX_NODES) throw new Error(`A diagram can have at most ${MAX_NODES} nodes.`);
+    if (edges.length > MAX_EDGES) throw new Error(`A diagram can have at most ${MAX_EDGES} links.`);
+    return { nodes: [...nodes.values()], edges, direction };
+};
+
+// Edges that close a cycle. They are left out when layering and drawn around the chart.
+const findBackEdges = (nodes: DiagramNode[], edges: DiagramEdge[]) => {
+    const state = new Map<string, 'open' | 'done'>();
+    const back = new Set<DiagramEdge>();
+    const visit = (id: string) => {
+        state.set(id, 'open');
+        for (const edge of edges) {
+            if (edge.from !== id) continue;
+            const next = state.get(edge.to);
+            if (next === 'open') back.add(edge);
+            else if (!next) visit(edge.to);
+        }
+        state.set(id, 'done');
+    };
+    nodes.forEach(node => {
+        if (!state.has(node.id)) visit(node.id);
+    });
+    return back;
+};
+
+// Groups nodes into layers by their longest path from a start node, then orders each layer by
+// the average position of its parents, which removes most crossings in school-sized charts.
+const assignLayers = (nodes: DiagramNode[], edges: DiagramEdge[], back: Set<DiagramEdge>): DiagramNode[][] => {
+    const layerOf = new Map(nodes.map(node => [node.id, 0]));
+    const forward = edges.filter(edge => !back.has(edge));
+    for (let pass = 0; pass < nodes.length; pass++) {
+        for (const edge of forward) {
+            layerOf.set(edge.to, Math.max(layerOf.get(edge.to)!, layerOf.get(edge.from)! + 1));
+        }
+    }
+
+    const layers: DiagramNode[][] = [];
+    nodes.forEach(node => (layers[layerOf.get(node.id)!] ??= []).push(node));
+    const orderOf = new Map<string, number>();
+    layers.forEach((layer, depth) => {
+        if (depth > 0) {
+            const key = (node: DiagramNode) => {
+                const parents = forward.filter(edge => edge.to === node.id && orderOf.has(edge.from)).map(edge => orderOf.get(edge.from)!);
+                return parents.length ? parents.reduce((a, b) => a + b, 0) / parents.length : layer.indexOf(node);
+            };
+            const keys = new Map(layer.map(node => [node, key(node)]));
+            layer.sort((a, b) => keys.get(a)! - keys.get(b)!);
+        }
+        layer.forEach((node, i) => orderOf.set(node.id, i));
+    });
+    return layers.filter(Boolean);
+};
+
+const wrapLabel = (label: string): string[] => {
+    const lines: string[] = [];
+    for (const word of label.split(/\s+/)) {
+        const last = lines[lines.length - 1];
+        if (last !== undefined && (last + ' ' + word).length <= LINE_LENGTH) lines[lines.length - 1] = `${last} ${word}`;
+        else lines.push(word);
+    }
+    return lines;
+};
+
+const measure = (node: DiagramNode) => {
+    const lines = wrapLabel(node.label);
+    const textWidth = Math.max(...lines.map(line => line.length)) * CHAR_WIDTH;
+    const textHeight = lines.length * LINE_HEIGHT;
+    let width = Math.max(64, textWidth + 2 * PADDING);
+    let height = textHeight + PADDING;
+    // Diamonds and circles need more room around the same text.
+    if (node.shape === 'decision') [width, height] = [width * 1.4 + 12, height * 1.6 + 8];
+    if (node.shape === 'circle') width = height = Math.max(width, height + PADDING);
+    return { lines, width, height };
+};
+
+const layout = (layers: DiagramNode[][], direction: Direction) => {
+    const measured = layers.map(layer => layer.map(node => ({ ...node, ...measure(node) })));
+    // Along: the direction the chart flows in. Across: within a layer.
+    const along = (n: { width: number; height: number }) => (direction === 'TD' ? n.height : n.width);
+    const across = (n: { width: number; height: number }) => (direction === 'TD' ? n.width : n.height);
+    const layerSizes = measured.map(layer => Math.max(...layer.map(along)));
+    const layerSpans = measured.map(layer => layer.reduce((sum, node) => sum + across(node), 0) + NODE_GAP * (layer.length - 1));
+    const span = Math.max(...layerSpans);
+
+    const placed: PlacedNode[] = [];
+    let offset = 0;
+    measured.forEach((layer, depth) => {
+        let cursor = (span - layerSpans[depth]) / 2;
+        for (const node of layer) {
+            const a = offset + layerSizes[depth] / 2;
+            const b = cursor + across(node) / 2;
+            placed.push({ ...node, x: direction === 'TD' ? b : a, y: direction === 'TD' ? a : b });
+            cursor += across(node) + NODE_GAP;
+        }
+        offset += layerSizes[depth] + LAYER_GAP;
+    });
+    const length = offset - LAYER_GAP;
+    return { placed, width: direction === 'TD' ? span : length, height: direction === 'TD' ? length : span };
+};
+
+// Where a line from the node's centre towards `towards` leaves its shape.
+const boundaryPoint = (node: PlacedNode, towards: Point): Point => {
+    const dx = towards.x - node.x;
+    const dy = towards.y - node.y;
+    const [hw, hh] = [node.width / 2, node.height / 2];
+    let t: number;
+    if (node.shape === 'decision') t = 1 / (Math.abs(dx) / hw + Math.abs(dy) / hh);
+    else if (node.shape === 'circle') t = hw / Math.hypot(dx, dy);
+    else t = Math.min(dx ? hw / Math.abs(dx) : Infinity, dy ? hh / Math.abs(dy) : Infinity);
+    return { x: node.x + dx * t, y: node.y + dy * t };
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const renderShape = (node: PlacedNode) => {
+    const [x, y, hw, hh] = [node.x, node.y, node.width / 2, node.height / 2].map(round);
+    const attributes = `class="diagram-shape" fill="#ffffff" stroke="currentColor" stroke-width="1.5"`;
+    switch (node.shape) {
+        case 'decision':
+            return `<polygon points="${x},${round(y - hh)} ${round(x + hw)},${y} ${x},${round(y + hh)} ${round(x - hw)},${y}" ${attributes}/>`;
+        case 'circle':
+            return `<circle cx="${x}" cy="${y}" r="${hw}" ${attributes}/>`;
+        default:
+            return `<rect x="${round(x - hw)}" y="${round(y - hh)}" width="${round(2 * hw)}" height="${round(2 * hh)}" rx="${node.shape === 'rounded' ? round(Math.min(hh, 18)) : 4}" ${attributes}/>`;
+    }
+};
+
+const renderNode = (node: PlacedNode) => {
+    const firstLine = node.y - ((node.lines.length - 1) * LINE_HEIGHT) / 2 + 4;
+    const text = node.lines.map((line, i) => `<tspan x="${round(node.x)}" y="${round(firstLine + i * LINE_HEIGHT)}">${escapeHtml(line)}</tspan>`).join('');
+    return `<g class="diagram-node" data-node="${escapeHtml(node.id)}"><title>${escapeHtml(node.label)}</title>${renderShape(node)}<text text-anchor="middle" fill="currentColor">${text}</text></g>`;
+};
+
+// Draws a link through the given bend points; it starts and ends on the nodes' outlines.
+const renderEdge = (edge: DiagramEdge, from: PlacedNode, to: PlacedNode, bends: Point[]) => {
+    const start = boundaryPoint(from, bends[0] ?? to);
+    const end = boundaryPoint(to, bends[bends.length - 1] ?? from);
+    const points = [start, ...bends, end];
+
+    const stroke = `stroke="currentColor" stroke-width="${edge.thick ? 3 : 1.5}"${edge.dashed ? ' stroke-dasharray="5 4"' : ''}`;
+    const line = `<path d="M${points.map(p => `${round(p.x)},${round(p.y)}`).join(' L')}" fill="none" stroke-linejoin="round" ${stroke}/>`;
+
+    let arrow = '';
+    if (edge.arrow) {
+        const before = points[points.length - 2];
+        const [dx, dy] = [end.x - before.x, end.y - before.y];
+        const norm = Math.hypot(dx, dy) || 1;
+        const [ux, uy] = [dx / norm, dy / norm];
+        const base = { x: end.x - ux * 9, y: end.y - uy * 9 };
+        arrow = `<polygon points="${round(end.x)},${round(end.y)} ${round(base.x - uy * 4.5)},${round(base.y + ux * 4.5)} ${round(base.x + uy * 4.5)},${round(base.y - ux * 4.5)}" fill="currentColor"/>`;
+    }
+
+    let label = '';
+    if (edge.label) {
+        // The middle of the middle segment.
+        const [a, b] = [points[Math.floor((points.length - 1) / 2)], points[Math.floor(points.length / 2)]];
+        const at = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+        const width = edge.label.length * 6.5 + 10;
+        label = `<rect class="diagram-label-bg" x="${round(at.x - width / 2)}" y="${round(at.y - 9)}" width="${round(width)}" height="18" rx="4" fill="#ffffff"/>`
+            + `<text x="${round(at.x)}" y="${round(at.y + 4)}" text-anchor="middle" font-size="12" fill="currentColor">${escapeHtml(edge.label)}</text>`;
+    }
+    return `<g class="diagram-edge" data-from="${escapeHtml(edge.from)}" data-to="${escapeHtml(edge.to)}">${line}${arrow}${label}</g>`;
+};
+
+export const renderDiagram = (source: string): string => {
+    const { nodes, edges, direction } = parseDiagram(source);
+    const back = findBackEdges(nodes, edges);
+    const { placed, width, height } = layout(assignLayers(nodes, edges, back), direction);
+    const byId = new Map(placed.map(node => [node.id, node]));
+    const margin = 16;
+
+    // Back links run in their own lane outside the chart (right of it, or below it left to
+    // right), so they never cross the nodes in between.
+    let lanes = 0;
+    const edgesSvg = edges
+        .filter(edge => edge.from !== edge.to)
+        .map(edge => {
+            const [from, to] = [byId.get(edge.from)!, byId.get(edge.to)!];
+            if (!back.has(edge)) return renderEdge(edge, from, to, []);
+            const lane = BACK_LANE_GAP * ++lanes;
+            const bends = direction === 'TD'
+                ? [{ x: width + lane, y: from.y }, { x: width + lane, y: to.y }]
+                : [{ x: from.x, y: height + lane }, { x: to.x, y: height + lane }];
+            return renderEdge(edge, from, to, bends);
+        })
+        .join('');
+    const description = `Diagram: ${edges.length
+        ? edges.map(edge => `${byId.get(edge.from)!.label} to ${byId.get(edge.to)!.label}${edge.label ? ` (${edge.label})` : ''}`).join('; ')
+        : nodes.map(node => node.label).join('; ')}`;
+    const laneSpace = lanes * BACK_LANE_GAP;
+    const viewWidth = Math.ceil(width + 2 * margin + (direction === 'TD' ? laneSpace : 0));
+    const viewHeight = Math.ceil(height + 2 * margin + (direction === 'LR' ? laneSpace : 0));
+
+    return `<svg class="diagram" viewBox="${-margin} ${-margin} ${viewWidth} ${viewHeight}" width="${viewWidth}" height="${viewHeight}" xmlns="http://www.w3.org/2000/svg" font-size="13" role="img" aria-label="${escapeHtml(description)}">`
+        + `${edgesSvg}${placed.map(renderNode).join('')}</svg>`;
+};
+
+// Highlights a node, its links and its neighbours, and fades the rest. Pass null to clear.
+export const highlightDiagramNode = (svg: Element, nodeId: string | null) => {
+    const connected = new Set(nodeId === null ? [] : [nodeId]);
+    svg.querySelectorAll('.diagram-edge').forEach(edge => {
+        const [from, to] = [edge.getAttribute('data-from'), edge.getAttribute('data-to')];
+        const linked = nodeId !== null && (from === nodeId || to === nodeId);
+        if (linked && from && to) connected.add(from).add(to);
+        edge.classList.toggle('is-highlighted', linked);
+    });
+    svg.querySelectorAll('.diagram-node').forEach(node => node.classList.toggle('is-highlighted', connected.has(node.getAttribute('data-node') ?? '')));
+    svg.classList.toggle('has-highlight', nodeId !== null);
+};
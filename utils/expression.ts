@@ -0,0 +1,181 @@
+// A small arithmetic expression language for plots and the server's calculator, parsed without eval.
+// Supports + - * / ^ (also **), brackets, implied multiplication ("2x", "3(x+1)"), the constants
+// pi and e, and the usual school functions. Throws an Error that says what is wrong.
+
+export type ExpressionNode =
+    // text is the number as written, so the calculator can read 0.1 as exactly one tenth.
+    | { kind: 'number'; value: number; text: string }
+    | { kind: 'variable'; name: string }
+    | { kind: 'constant'; name: string }
+    | { kind: 'negate'; operand: ExpressionNode }
+    | { kind: 'binary'; operator: '+' | '-' | '*' | '/' | '^'; left: ExpressionNode; right: ExpressionNode }
+    | { kind: 'call'; name: string; args: ExpressionNode[] };
+
+type Compiled = (variables: Record<string, number>) => number;
+
+type Token = { kind: 'number'; value: number; text: string } | { kind: 'name'; value: string } | { kind: 'symbol'; value: string };
+
+export const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+    sin: Math.sin, cos: Math.cos, tan: Math.tan,
+    asin: Math.asin, acos: Math.acos, atan: Math.atan,
+    sinh: Math.sinh, cosh: Math.cosh, tanh: Math.tanh,
+    sqrt: Math.sqrt, cbrt: Math.cbrt, abs: Math.abs, exp: Math.exp,
+    ln: Math.log, log: Math.log10, log10: Math.log10, log2: Math.log2,
+    floor: Math.floor, ceil: Math.ceil, round: Math.round, sign: Math.sign,
+    min: Math.min, max: Math.max,
+};
+
+export const CONSTANTS: Record<string, number> = { pi: Math.PI, 'π': Math.PI, e: Math.E };
+
+const tokenize = (source: string): Token[] => {
+    const tokens: Token[] = [];
+    const text = source.replace(/[−–]/g, '-').replace(/×/g, '*').replace(/÷/g, '/');
+    let i = 0;
+    while (i < text.length) {
+        const rest = text.slice(i);
+        const space = /^\s+/.exec(rest);
+        const number = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(rest);
+        const name = /^(?:[A-Za-z_][A-Za-z0-9_]*|π)/.exec(rest);
+        if (space) {
+            i += space[0].length;
+        } else if (number) {
+            tokens.push({ kind: 'number', value: parseFloat(number[0]), text: number[0] });
+            i += number[0].length;
+        } else if (name) {
+            tokens.push({ kind: 'name', value: name[0] });
+            i += name[0].length;
+        } else if (rest.startsWith('**')) {
+            tokens.push({ kind: 'symbol', value: '^' });
+            i += 2;
+        } else if ('+-*/^(),'.includes(rest[0])) {
+            tokens.push({ kind: 'symbol', value: rest[0] });
+            i += 1;
+        } else {
+            throw new Error(`Unexpected "${rest[0]}" in "${source}".`);
+        }
+    }
+    return tokens;
+};
+
+export const parseExpression = (source: string, variableNames: string[] = ['x']): ExpressionNode => {
+    const tokens = tokenize(source);
+    let position = 0;
+
+    const peek = () => tokens[position];
+    const isSymbol = (value: string) => peek()?.kind === 'symbol' && peek().value === value;
+    const expect = (value: string) => {
+        if (!isSymbol(value)) throw new Error(`Expected "${value}" in "${source}".`);
+        position++;
+    };
+
+    // expression := term (('+' | '-') term)*
+    const parseSum = (): ExpressionNode => {
+        let left = parseTerm();
+        while (isSymbol('+') || isSymbol('-')) {
+            const operator = tokens[position++].value as '+' | '-';
+            left = { kind: 'binary', operator, left, right: parseTerm() };
+        }
+        return left;
+    };
+
+    // term := unary (('*' | '/') unary | unary)*, where the bare form is implied multiplication.
+    const parseTerm = (): ExpressionNode => {
+        let left = parseUnary();
+        for (;;) {
+            const next = peek();
+            if (isSymbol('*') || isSymbol('/')) {
+                const operator = tokens[position++].value as '*' | '/';
+                left = { kind: 'binary', operator, left, right: parseUnary() };
+            } else if (next && (next.kind !== 'symbol' || next.value === '(')) {
+                left = { kind: 'binary', operator: '*', left, right: parsePower() };
+            } else {
+                return left;
+            }
+        }
+    };
+
+    // unary := ('-' | '+') unary | power. So -x^2 is -(x^2), as in maths.
+    const parseUnary = (): ExpressionNode => {
+        if (isSymbol('-')) {
+            position++;
+            return { kind: 'negate', operand: parseUnary() };
+        }
+        if (isSymbol('+')) {
+            position++;
+            return parseUnary();
+        }
+        return parsePower();
+    };
+
+    // power := atom ('^' unary)?, right-associative.
+    const parsePower = (): ExpressionNode => {
+        const base = parseAtom();
+        if (!isSymbol('^')) return base;
+        position++;
+        return { kind: 'binary', operator: '^', left: base, right: parseUnary() };
+    };
+
+    const parseAtom = (): ExpressionNode => {
+        const token = tokens[position++];
+        if (!token) throw new Error(`"${source}" ends too early.`);
+        if (token.kind === 'number') return { kind: 'number', value: token.value, text: token.text };
+        if (token.kind === 'symbol') {
+            if (token.value !== '(') throw new Error(`Unexpected "${token.value}" in "${source}".`);
+            const inner = parseSum();
+            expect(')');
+            return inner;
+        }
+
+        const name = token.value;
+        if (isSymbol('(') && Object.prototype.hasOwnProperty.call(FUNCTIONS, name)) {
+            position++;
+            const args = [parseSum()];
+            while (isSymbol(',')) {
+                position++;
+                args.push(parseSum());
+            }
+            expect(')');
+            return { kind: 'call', name, args };
+        }
+        if (variableNames.includes(name)) return { kind: 'variable', name };
+        if (Object.prototype.hasOwnProperty.call(CONSTANTS, name)) return { kind: 'constant', name };
+        if (Object.prototype.hasOwnProperty.call(FUNCTIONS, name)) throw new Error(`${name} needs brackets, e.g. ${name}(x).`);
+        throw new Error(`Unknown name "${name}" in "${source}".`);
+    };
+
+    if (tokens.length === 0) throw new Error('The expression is empty.');
+    const tree = parseSum();
+    if (position < tokens.length) throw new Error(`Unexpected "${tokens[position].value}" in "${source}".`);
+    return tree;
+};
+
+// Turns the tree into nested closures once, since plots evaluate the same expression hundreds of times.
+const compileNode = (node: ExpressionNode): Compiled => {
+    switch (node.kind) {
+        case 'number': return () => node.value;
+        case 'variable': return v => v[node.name];
+        case 'constant': return () => CONSTANTS[node.name];
+        case 'negate': {
+            const operand = compileNode(node.operand);
+            return v => -operand(v);
+        }
+        case 'binary': {
+            const a = compileNode(node.left), b = compileNode(node.right);
+            if (node.operator === '+') return v => a(v) + b(v);
+            if (node.operator === '-') return v => a(v) - b(v);
+            if (node.operator === '*') return v => a(v) * b(v);
+            if (node.operator === '/') return v => a(v) / b(v);
+            return v => Math.pow(a(v), b(v));
+        }
+        case 'call': {
+            const fn = FUNCTIONS[node.name];
+            const args = node.args.map(compileNode);
+            return v => fn(...args.map(arg => arg(v)));
+        }
+    }
+};
+
+export const compileExpression = (source: string, variableNames: string[] = ['x']): ((variables?: Record<string, number>) => number) => {
+    const compiled = compileNode(parseExpression(source, variableNames));
+    return (variables = {}) => compiled(variables);
+};
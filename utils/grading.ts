@@ -0,0 +1,24 @@
+import type { GradeResult, StepVerdict } from '../types';
+
+// Text form of a marked solution. It is saved as the message text, so the marking still reads
+// well in the history sent with later questions, in search results and in exports.
+
+export const VERDICT_LABELS: Record<StepVerdict, string> = {
+    correct: 'Correct',
+    partial: 'Partly correct',
+    incorrect: 'Incorrect',
+};
+
+export const formatMarks = (marks: number) => `${marks} mark${marks === 1 ? '' : 's'}`;
+
+export const gradeToMarkdown = (grade: GradeResult): string => {
+    const lines = [`**Marked: ${grade.score} / ${formatMarks(grade.maxMarks)}**`, ''];
+    if (grade.feedback) lines.push(grade.feedback, '');
+    grade.steps.forEach((step, i) => {
+        const firstError = i === grade.firstErrorStep ? ' (first error)' : '';
+        lines.push(`${i + 1}. ${step.work} — **${VERDICT_LABELS[step.verdict]}${firstError}**, ${formatMarks(step.marks)}. ${step.comment}`);
+    });
+    if (grade.steps.length > 0) lines.push('');
+    if (grade.hints.length > 0) lines.push('**Hints:**', ...grade.hints.map(hint => `- ${hint}`));
+    return lines.join('\n').trim();
+};
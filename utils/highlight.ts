@@ -0,0 +1,37 @@
+import hljs from 'highlight.js/lib/core';
+import bash from 'highlight.js/lib/languages/bash';
+import c from 'highlight.js/lib/languages/c';
+import cpp from 'highlight.js/lib/languages/cpp';
+import css from 'highlight.js/lib/languages/css';
+import java from 'highlight.js/lib/languages/java';
+import javascript from 'highlight.js/lib/languages/javascript';
+import json from 'highlight.js/lib/languages/json';
+import python from 'highlight.js/lib/languages/python';
+import sql from 'highlight.js/lib/languages/sql';
+import typescript from 'highlight.js/lib/languages/typescript';
+import xml from 'highlight.js/lib/languages/xml';
+import { escapeHtml } from './sanitize';
+
+// Syntax highlighting for fenced code blocks. Only the languages taught in school are
+// registered, which keeps the bundle small; anything else is shown as plain text.
+
+hljs.registerLanguage('bash', bash);
+hljs.registerLanguage('c', c);
+hljs.registerLanguage('cpp', cpp);
+hljs.registerLanguage('css', css);
+hljs.registerLanguage('java', java);
+hljs.registerLanguage('javascript', javascript);
+hljs.registerLanguage('json', json);
+hljs.registerLanguage('python', python);
+hljs.registerLanguage('sql', sql);
+hljs.registerLanguage('typescript', typescript);
+hljs.registerLanguage('xml', xml);
+
+// The language name from a fence's info string, e.g. "python" from "python title=demo.py".
+export const fenceLanguage = (infostring?: string) => infostring?.trim().split(/\s+/)[0].toLowerCase() || undefined;
+
+// Returns HTML: spans with hljs-* classes for a known language, escaped text otherwise.
+export const highlightCode = (code: string, language?: string): string => {
+    if (!language || !hljs.getLanguage(language)) return escapeHtml(code);
+    return hljs.highlight(code, { language, ignoreIllegals: true }).value;
+};
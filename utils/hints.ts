@@ -0,0 +1,32 @@
+import type { AttemptVerdict, HintLevel, HintSession } from '../types';
+
+// Shared by the "Solve with me" card and /api/hint. Hints are revealed strictly in this order,
+// one level per request, so the full solution is always the last thing a student sees.
+
+export const HINT_LEVELS: HintLevel[] = ['nudge', 'method', 'partial', 'full'];
+
+export const HINT_LEVEL_LABELS: Record<HintLevel, string> = {
+    nudge: 'Nudge',
+    method: 'Method',
+    partial: 'Partial working',
+    full: 'Full solution',
+};
+
+export const ATTEMPT_VERDICT_LABELS: Record<AttemptVerdict, string> = {
+    correct: 'Correct',
+    'on-track': 'On the right track',
+    incorrect: 'Not quite',
+};
+
+// The level the next hint will be at, or undefined once the full solution has been shown.
+export const nextHintLevel = (revealedCount: number): HintLevel | undefined => HINT_LEVELS[revealedCount];
+
+// Text form of a session, saved as the text of the message that shows it. Later questions in
+// the chat, search and exports see what the student has been shown so far.
+export const hintSessionToMarkdown = (session: HintSession): string => {
+    const lines = [`**Solve with me:** ${session.problem}`, '', `**Plan:** ${session.plan.goal}`, ...session.plan.steps.map((step, i) => `${i + 1}. ${step}`), ''];
+    session.hints.forEach(hint => lines.push(`**${HINT_LEVEL_LABELS[hint.level]}:** ${hint.text}`, ''));
+    session.attempts.forEach(attempt => lines.push(`**Attempt** (${ATTEMPT_VERDICT_LABELS[attempt.verdict]}): ${attempt.text}`, '', attempt.feedback, ''));
+    if (session.solved) lines.push(`_Solved with ${session.hints.length} of ${HINT_LEVELS.length} hints._`);
+    return lines.join('\n').trim();
+};
@@ -0,0 +1,92 @@
+import katex from 'katex';
+import 'katex/contrib/mhchem';
+import type { MarkedExtension, Tokens } from 'marked';
+
+// A marked extension that typesets LaTeX with KaTeX. Inline maths is written $...$ or \(...\),
+// display maths $$...$$ or \[...\]. The mhchem package is loaded, so chemical equations work
+// as \ce{...}, both inside maths and on their own.
+
+type MathToken = Tokens.Generic & { text: string; displayMode: boolean };
+
+export type MathExtensionOptions = {
+    // KaTeX output. 'mathml' needs no stylesheet, which suits standalone exports.
+    output?: 'html' | 'mathml' | 'htmlAndMathml';
+    // Wraps a typeset display block, e.g. to add a copy button for its LaTeX source.
+    wrapDisplay?: (html: string, tex: string) => string;
+};
+
+const BLOCK_PATTERNS = [/^ {0,3}\$\$([\s\S]+?)\$\$[^\S\n]*(?:\n+|$)/, /^ {0,3}\\\[([\s\S]+?)\\\][^\S\n]*(?:\n+|$)/];
+
+// A single $ must hug its content and not be followed by a digit, so "$5 and $10" stays text.
+const INLINE_PATTERNS: [RegExp, boolean][] = [
+    [/^\$\$([\s\S]+?)\$\$/, true],
+    [/^\\\[([\s\S]+?)\\\]/, true],
+    [/^\$(?!\s)((?:\\.|[^\\$\n])+?)(?<!\s)\$(?!\d)/, false],
+    [/^\\\(([\s\S]+?)\\\)/, false],
+];
+
+// Matches \ce{...} with nested braces, which a regular expression cannot balance.
+const matchChemistry = (src: string): string | undefined => {
+    if (!src.startsWith('\\ce{')) return undefined;
+    let depth = 0;
+    for (let i = 3; i < src.length; i++) {
+        if (src[i] === '\\') i++;
+        else if (src[i] === '{') depth++;
+        else if (src[i] === '}' && --depth === 0) return src.slice(0, i + 1);
+        else if (src[i] === '\n') return undefined;
+    }
+    return undefined;
+};
+
+export const createMathExtension = ({ output = 'htmlAndMathml', wrapDisplay }: MathExtensionOptions = {}): MarkedExtension => {
+    const typeset = (tex: string, displayMode: boolean) => katex.renderToString(tex, {
+        displayMode,
+        output,
+        // Unfinished or invalid LaTeX (common mid-stream) is shown as source instead of failing the message.
+        throwOnError: false,
+        strict: false,
+    });
+
+    return {
+        extensions: [
+            {
+                name: 'mathBlock',
+                level: 'block',
+                start: (src: string) => src.match(/^ {0,3}(?:\$\$|\\\[)/m)?.index,
+                tokenizer(src: string): MathToken | undefined {
+                    for (const pattern of BLOCK_PATTERNS) {
+                        const match = pattern.exec(src);
+                        if (match) return { type: 'mathBlock', raw: match[0], text: match[1].trim(), displayMode: true };
+                    }
+                    return undefined;
+                },
+                renderer(token) {
+                    const { text } = token as MathToken;
+                    const html = typeset(text, true);
+                    return `${wrapDisplay ? wrapDisplay(html, text) : html}\n`;
+                },
+            },
+            {
+                name: 'mathInline',
+                level: 'inline',
+                start: (src: string) => {
+                    const index = src.search(/\$|\\\(|\\\[|\\ce\{/);
+                    return index < 0 ? undefined : index;
+                },
+                tokenizer(src: string): MathToken | undefined {
+                    for (const [pattern, displayMode] of INLINE_PATTERNS) {
+                        const match = pattern.exec(src);
+                        if (match) return { type: 'mathInline', raw: match[0], text: match[1].trim(), displayMode };
+                    }
+                    const chemistry = matchChemistry(src);
+                    if (chemistry) return { type: 'mathInline', raw: chemistry, text: chemistry, displayMode: false };
+                    return undefined;
+                },
+                renderer(token) {
+                    const { text, displayMode } = token as MathToken;
+                    return typeset(text, displayMode);
+                },
+            },
+        ],
+    };
+};
@@ -0,0 +1,34 @@
+// Helpers for a chat's message tree. Each message points at its parent; siblings are alternative
+// versions of the same turn. Arrays are expected in the order the messages were added (by seq).
+
+type TreeNode = { id: string; parentId: string | null };
+
+// The line of messages from the first one down to leafId, or down to the newest message
+// when leafId is missing or unknown.
+export const getActivePath = <T extends TreeNode>(messages: T[], leafId?: string): T[] => {
+    const byId = new Map(messages.map(message => [message.id, message]));
+    const path: T[] = [];
+    let node: T | undefined = (leafId && byId.get(leafId)) || messages[messages.length - 1];
+    while (node && path.length < messages.length) {
+        path.push(node);
+        node = node.parentId ? byId.get(node.parentId) : undefined;
+    }
+    return path.reverse();
+};
+
+// All versions of a message's turn, oldest first, including the message itself.
+export const getSiblings = <T extends TreeNode>(messages: T[], message: T): T[] => {
+    return messages.filter(m => m.parentId === message.parentId);
+};
+
+// Follows the newest reply at each step, which is the branch last worked on under a message.
+export const getLatestLeaf = <T extends TreeNode>(messages: T[], fromId: string): T | undefined => {
+    let node = messages.find(m => m.id === fromId);
+    while (node) {
+        const parentId: string = node.id;
+        const children = messages.filter(m => m.parentId === parentId);
+        if (children.length === 0) break;
+        node = children[children.length - 1];
+    }
+    return node;
+};
@@ -0,0 +1,199 @@
+import { isAnswerCorrect, isAnswered } from './quiz';
+import type { ExamPatternId, MarkingScheme, MockTest, MockTestResponse, QuizAnswer, QuizQuestion, QuizQuestionType } from '../types';
+
+// Exam patterns, scoring and reports for mock tests. A test is generated one section at a time
+// through /api/quiz, so a section can only use the question types that route supports.
+
+export type SectionPattern = {
+    name: string;
+    // What the section's questions are about. Board tests take it from the student's topic.
+    subject?: string;
+    types: QuizQuestionType[];
+};
+
+export type ExamPattern = {
+    label: string;
+    sections: SectionPattern[];
+    marking: Partial<Record<QuizQuestionType, MarkingScheme>>;
+    // The real paper's pace, which sets the countdown for a test of any length.
+    secondsPerQuestion: number;
+};
+
+const JEE_SUBJECTS = ['Physics', 'Chemistry', 'Mathematics'];
+
+export const EXAM_PATTERNS: Record<ExamPatternId, ExamPattern> = {
+    'jee-main': {
+        label: 'JEE Main',
+        sections: JEE_SUBJECTS.map(subject => ({ name: subject, subject, types: ['single', 'numerical'] })),
+        marking: { single: { correct: 4, incorrect: -1 }, numerical: { correct: 4, incorrect: -1 } },
+        // 75 questions in 3 hours.
+        secondsPerQuestion: 144,
+    },
+    'jee-advanced': {
+        label: 'JEE Advanced',
+        sections: JEE_SUBJECTS.map(subject => ({ name: subject, subject, types: ['single', 'multiple', 'numerical'] })),
+        marking: {
+            single: { correct: 3, incorrect: -1 },
+            multiple: { correct: 4, incorrect: -2, partialPerOption: 1 },
+            numerical: { correct: 4, incorrect: 0 },
+        },
+        // About 51 questions in 3 hours.
+        secondsPerQuestion: 210,
+    },
+    neet: {
+        label: 'NEET',
+        sections: ['Physics', 'Chemistry', 'Botany', 'Zoology'].map(subject => ({ name: subject, subject, types: ['single', 'assertion-reason'] })),
+        marking: { single: { correct: 4, incorrect: -1 }, 'assertion-reason': { correct: 4, incorrect: -1 } },
+        // 180 questions in 200 minutes.
+        secondsPerQuestion: 67,
+    },
+    board: {
+        label: 'Board class test',
+        sections: [
+            { name: 'Section A: Multiple choice', types: ['single'] },
+            { name: 'Section B: Assertion–reason', types: ['assertion-reason'] },
+            { name: 'Section C: Match the following', types: ['match'] },
+        ],
+        marking: { single: { correct: 1, incorrect: 0 }, 'assertion-reason': { correct: 1, incorrect: 0 }, match: { correct: 2, incorrect: 0 } },
+        secondsPerQuestion: 90,
+    },
+};
+
+export const patternsForClass = (classNum: number): ExamPatternId[] => {
+    if (classNum === 13) return ['jee-main', 'jee-advanced'];
+    if (classNum === 14) return ['neet'];
+    return ['board'];
+};
+
+// The countdown for a test, rounded up to whole minutes.
+export const testDurationSeconds = (pattern: ExamPattern, questionCount: number) => Math.ceil(questionCount * pattern.secondsPerQuestion / 60) * 60;
+
+const DEFAULT_SCHEME: MarkingScheme = { correct: 1, incorrect: 0 };
+
+export const schemeFor = (marking: MockTest['marking'], type: QuizQuestionType): MarkingScheme => marking[type] ?? DEFAULT_SCHEME;
+
+export const describeScheme = (scheme: MarkingScheme) => {
+    const parts = [`+${scheme.correct}`, scheme.incorrect < 0 ? `${scheme.incorrect}` : 'no negative marking'];
+    if (scheme.partialPerOption) parts.push(`+${scheme.partialPerOption} per correct option when no wrong option is chosen`);
+    return parts.join(', ');
+};
+
+export type QuestionOutcome = 'correct' | 'partial' | 'incorrect' | 'unanswered';
+
+export const markQuestion = (question: QuizQuestion, answer: QuizAnswer | null, scheme: MarkingScheme): { outcome: QuestionOutcome; marks: number } => {
+    if (!isAnswered(question, answer)) return { outcome: 'unanswered', marks: 0 };
+    if (isAnswerCorrect(question, answer)) return { outcome: 'correct', marks: scheme.correct };
+    if (question.type === 'multiple' && scheme.partialPerOption && Array.isArray(answer)
+        && answer.every(index => question.correctAnswerIndices.includes(index))) {
+        return { outcome: 'partial', marks: answer.length * scheme.partialPerOption };
+    }
+    return { outcome: 'incorrect', marks: scheme.incorrect };
+};
+
+// The states of the question palette, as in the NTA exam interface. An answer that is marked
+// for review still counts when the test is submitted.
+export type PaletteStatus = 'not-visited' | 'not-answered' | 'answered' | 'marked' | 'answered-marked';
+
+export const PALETTE_STATUS_LABELS: Record<PaletteStatus, string> = {
+    'not-visited': 'Not visited',
+    'not-answered': 'Not answered',
+    answered: 'Answered',
+    marked: 'Marked for review',
+    'answered-marked': 'Answered and marked',
+};
+
+export const paletteStatus = (question: QuizQuestion, response: MockTestResponse): PaletteStatus => {
+    const answered = isAnswered(question, response.answer);
+    if (response.markedForReview) return answered ? 'answered-marked' : 'marked';
+    if (answered) return 'answered';
+    return response.visited ? 'not-answered' : 'not-visited';
+};
+
+type Tally = {
+    score: number;
+    maxScore: number;
+    correct: number;
+    partial: number;
+    incorrect: number;
+    unanswered: number;
+    timeSpentMs: number;
+};
+
+export type SectionReport = Tally & { name: string };
+
+export type MockTestReport = Tally & {
+    total: number;
+    attempted: number;
+    // Share of attempted questions answered fully correctly.
+    accuracy: number;
+    // Share of all questions attempted.
+    attemptRate: number;
+    sections: SectionReport[];
+    // questions[s][q] is the marking of sections[s].questions[q].
+    questions: { outcome: QuestionOutcome; marks: number }[][];
+};
+
+const emptyTally = (): Tally => ({ score: 0, maxScore: 0, correct: 0, partial: 0, incorrect: 0, unanswered: 0, timeSpentMs: 0 });
+
+export const scoreMockTest = (test: Pick<MockTest, 'sections' | 'marking' | 'responses'>): MockTestReport => {
+    const totals = emptyTally();
+    const questions = test.sections.map(section => section.questions.map(() => ({ outcome: 'unanswered' as QuestionOutcome, marks: 0 })));
+    const sections = test.sections.map((section, s): SectionReport => {
+        const tally = emptyTally();
+        section.questions.forEach((question, q) => {
+            const response = test.responses[s]?.[q];
+            const scheme = schemeFor(test.marking, question.type);
+            const result = markQuestion(question, response?.answer ?? null, scheme);
+            questions[s][q] = result;
+            tally.score += result.marks;
+            tally.maxScore += scheme.correct;
+            tally[result.outcome]++;
+            tally.timeSpentMs += response?.timeSpentMs ?? 0;
+        });
+        (Object.keys(tally) as (keyof Tally)[]).forEach(key => { totals[key] += tally[key]; });
+        return { name: section.name, ...tally };
+    });
+    const total = totals.correct + totals.partial + totals.incorrect + totals.unanswered;
+    const attempted = total - totals.unanswered;
+    return {
+        ...totals,
+        total,
+        attempted,
+        accuracy: attempted > 0 ? totals.correct / attempted : 0,
+        attemptRate: total > 0 ? attempted / total : 0,
+        sections,
+        questions,
+    };
+};
+
+// A countdown reading: h:mm:ss, or mm:ss under an hour.
+export const formatClock = (seconds: number) => {
+    const whole = Math.max(0, Math.ceil(seconds));
+    const h = Math.floor(whole / 3600);
+    const m = Math.floor((whole % 3600) / 60);
+    const s = String(whole % 60).padStart(2, '0');
+    return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${String(m).padStart(2, '0')}:${s}`;
+};
+
+export const formatTimeSpent = (ms: number) => {
+    const seconds = Math.round(ms / 1000);
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Text form of a submitted test, saved as the text of the message that reports it, so search
+// and exports see the result without the test itself.
+export const mockTestToMarkdown = (test: MockTest, report = scoreMockTest(test)): string => {
+    const lines = [
+        `**${test.title}**${test.topic ? `: ${test.topic}` : ''}`,
+        '',
+        `**Score:** ${report.score} / ${report.maxScore} · attempted ${report.attempted} of ${report.total} (${percent(report.attemptRate)}) · accuracy ${percent(report.accuracy)}`,
+        '',
+        '| Section | Score | Correct | Incorrect | Unanswered | Time |',
+        '| --- | --- | --- | --- | --- | --- |',
+        ...report.sections.map(section => `| ${section.name} | ${section.score} / ${section.maxScore} | ${section.correct}${section.partial ? ` (+${section.partial} partial)` : ''} | ${section.incorrect} | ${section.unanswered} | ${formatTimeSpent(section.timeSpentMs)} |`),
+    ];
+    if (test.timedOut) lines.push('', '_Submitted automatically when time ran out._');
+    return lines.join('\n');
+};
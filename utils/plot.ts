@@ -0,0 +1,281 @@
+import { compileExpression } from './expression';
+import { escapeHtml } from './sanitize';
+
+// Renders ```plot blocks as SVG graphs. The block is a few "key: value" lines plus one line per
+// function:
+//
+//   title: Height of a ball thrown upwards
+//   x: 0 to 4
+//   y: 0 to 25            (optional; fitted to the curves when left out)
+//   xlabel: time t (s)
+//   ylabel: height h (m)
+//   h(t) = 20x - 4.9x^2 | height
+//
+// A function line is "name = expression" with an optional "| label". The variable is x, or the
+// one named in brackets, as t in h(t).
+// renderPlot throws an Error describing the first problem, so the caller can show the source.
+
+const WIDTH = 560;
+const HEIGHT = 360;
+const MARGIN = { top: 36, right: 20, bottom: 48, left: 60 };
+const AREA = { left: MARGIN.left, top: MARGIN.top, width: WIDTH - MARGIN.left - MARGIN.right, height: HEIGHT - MARGIN.top - MARGIN.bottom };
+const SAMPLES = 400;
+const MAX_FUNCTIONS = 6;
+// Readable on both the light and the dark theme, and in exported HTML.
+const COLORS = ['#2D79C7', '#F97721', '#2e9e4f', '#a626a4', '#c62828', '#8a6d00'];
+
+type PlotFunction = { name: string; variable: string; expression: string; label: string; evaluate: (x: number) => number };
+
+type PlotSpec = {
+    title?: string;
+    xLabel?: string;
+    yLabel?: string;
+    xRange: [number, number];
+    yRange?: [number, number];
+    functions: PlotFunction[];
+    showLegend: boolean;
+};
+
+// What showPlotValues needs to recompute values; stored on the SVG as data-plot.
+type PlotHoverData = {
+    x: [number, number];
+    y: [number, number];
+    functions: { expression: string; variable: string; name: string }[];
+};
+
+const MIN_RELATIVE_SPAN = 1e-9;
+
+const parseRange = (value: string, axis: string): [number, number] => {
+    const parts = value.split(/\s+to\s+|,/).map(part => part.trim()).filter(Boolean);
+    if (parts.length !== 2) throw new Error(`Write the ${axis} range as "${axis}: min to max".`);
+    const [min, max] = parts.map(part => compileExpression(part, [])());
+    if (!Number.isFinite(min) || !Number.isFinite(max) || min >= max) throw new Error(`The ${axis} range must go from a smaller to a larger number.`);
+    // Past this, the points across the range are too close together for floating point to tell apart.
+    if (!Number.isFinite(max - min) || max - min <= Math.max(Math.abs(min), Math.abs(max)) * MIN_RELATIVE_SPAN) {
+        throw new Error(`The ${axis} range is too narrow or too wide to draw.`);
+    }
+    return [min, max];
+};
+
+const parsePlot = (source: string): PlotSpec => {
+    const spec: Omit<PlotSpec, 'xRange'> & { xRange?: [number, number] } = { functions: [], showLegend: false };
+
+    for (const rawLine of source.split('\n')) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#')) continue;
+
+        const setting = /^(title|x|y|xlabel|ylabel)\s*:\s*(.*)$/i.exec(line);
+        if (setting) {
+            const [, key, value] = setting;
+            switch (key.toLowerCase()) {
+                case 'title': spec.title = value; break;
+                case 'xlabel': spec.xLabel = value; break;
+                case 'ylabel': spec.yLabel = value; break;
+                case 'x': spec.xRange = parseRange(value, 'x'); break;
+                case 'y': spec.yRange = parseRange(value, 'y'); break;
+            }
+            continue;
+        }
+
+        const fn = /^([A-Za-z]\w*(?:\s*\(\s*[A-Za-z]\w*\s*\))?)\s*=\s*([^|]+?)\s*(?:\|\s*(.+))?$/.exec(line);
+        if (!fn) throw new Error(`Could not read the line "${line}".`);
+        const [, name, expression, label] = fn;
+        // "f(t) = 3t" plots with t as the variable.
+        const variable = /\(\s*([A-Za-z]\w*)\s*\)/.exec(name)?.[1] ?? 'x';
+        const compiled = compileExpression(expression, [variable]);
+        spec.functions.push({ name, variable, expression, label: label ?? `${name} = ${expression}`, evaluate: x => compiled({ [variable]: x }) });
+        if (label) spec.showLegend = true;
+    }
+
+    if (spec.functions.length === 0) throw new Error('There is no function to plot. Add a line like "y = x^2".');
+    if (spec.functions.length > MAX_FUNCTIONS) throw new Error(`A plot can show at most ${MAX_FUNCTIONS} functions.`);
+    spec.showLegend ||= spec.functions.length > 1;
+    return { ...spec, xRange: spec.xRange ?? [-10, 10] };
+};
+
+// Fits the y range to the sampled values, ignoring the far tails so an asymptote
+// (tan x, 1/x) does not flatten the rest of the curve.
+const fitYRange = (values: number[]): [number, number] => {
+    if (values.length === 0) return [-1, 1];
+    const sorted = [...values].sort((a, b) => a - b);
+    const at = (q: number) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+    let [min, max] = [sorted[0], sorted[sorted.length - 1]];
+    const core = at(0.95) - at(0.05);
+    if (max - min > 10 * (core || 1)) [min, max] = [at(0.05), at(0.95)];
+    if (min === max) return [min - 1, max + 1];
+    const pad = (max - min) * 0.05;
+    return [min - pad, max + pad];
+};
+
+// Never more than this many, whatever the range, so a range at the edge of floating point
+// cannot keep the loop going.
+const MAX_TICKS = 20;
+
+// About six ticks at 1, 2 or 5 times a power of ten.
+const niceTicks = (min: number, max: number): number[] => {
+    const rough = (max - min) / 6;
+    const power = Math.pow(10, Math.floor(Math.log10(rough)));
+    const step = [1, 2, 5, 10].map(m => m * power).find(s => s >= rough) ?? 10 * power;
+    const ticks: number[] = [];
+    if (!Number.isFinite(step) || step <= 0) return ticks;
+    for (let tick = Math.ceil(min / step) * step; tick <= max + step * 1e-9 && ticks.length < MAX_TICKS; tick += step) {
+        ticks.push(Math.abs(tick) < step * 1e-9 ? 0 : tick);
+        // The step is lost in rounding at this magnitude, so adding it would not move on.
+        if (tick + step === tick) break;
+    }
+    return ticks;
+};
+
+const formatNumber = (value: number) => {
+    if (value !== 0 && (Math.abs(value) >= 1e5 || Math.abs(value) < 1e-3)) return value.toExponential(2);
+    return String(parseFloat(value.toPrecision(4)));
+};
+
+// Maps a value in range to SVG units, rounded to keep the markup short.
+const scale = (value: number, [min, max]: [number, number], start: number, length: number) =>
+    Math.round((start + ((value - min) / (max - min)) * length) * 100) / 100;
+
+// Builds the path for one function, cut where it leaves the plot area or is undefined.
+const curvePath = (fn: PlotFunction, xRange: [number, number], yRange: [number, number]) => {
+    const [yMin, yMax] = yRange;
+    const toPoint = (x: number, y: number) => `${scale(x, xRange, AREA.left, AREA.width)},${scale(y, yRange, AREA.top + AREA.height, -AREA.height)}`;
+    const segments: string[] = [];
+    let current: string[] = [];
+    let previous: { x: number; y: number } | undefined;
+    const inside = (y: number) => y >= yMin && y <= yMax;
+    const end = () => {
+        if (current.length > 1) segments.push(`M${current.join('L')}`);
+        current = [];
+    };
+
+    for (let i = 0; i <= SAMPLES; i++) {
+        const x = xRange[0] + ((xRange[1] - xRange[0]) * i) / SAMPLES;
+        const y = fn.evaluate(x);
+        if (!Number.isFinite(y)) {
+            end();
+            previous = undefined;
+            continue;
+        }
+        if (previous && inside(previous.y) !== inside(y)) {
+            // Finish or start the line exactly on the edge it crosses.
+            const edge = inside(y) ? (previous.y > yMax ? yMax : yMin) : (y > yMax ? yMax : yMin);
+            const t = (edge - previous.y) / (y - previous.y);
+            current.push(toPoint(previous.x + t * (x - previous.x), edge));
+            if (!inside(y)) end();
+        }
+        if (inside(y)) current.push(toPoint(x, y));
+        previous = { x, y };
+    }
+    end();
+    return segments.join('');
+};
+
+export const renderPlot = (source: string): string => {
+    const spec = parsePlot(source);
+    const { xRange, functions } = spec;
+    const sampled = functions.flatMap(fn => Array.from({ length: SAMPLES + 1 }, (_, i) => fn.evaluate(xRange[0] + ((xRange[1] - xRange[0]) * i) / SAMPLES)));
+    const yRange = spec.yRange ?? fitYRange(sampled.filter(Number.isFinite));
+    const toX = (x: number) => scale(x, xRange, AREA.left, AREA.width);
+    const toY = (y: number) => scale(y, yRange, AREA.top + AREA.height, -AREA.height);
+    const bottom = AREA.top + AREA.height;
+    const right = AREA.left + AREA.width;
+
+    const xTicks = niceTicks(...xRange);
+    const yTicks = niceTicks(...yRange);
+    const grid = [
+        ...xTicks.map(x => `<line x1="${toX(x)}" x2="${toX(x)}" y1="${AREA.top}" y2="${bottom}"/>`),
+        ...yTicks.map(y => `<line x1="${AREA.left}" x2="${right}" y1="${toY(y)}" y2="${toY(y)}"/>`),
+    ].join('');
+    const tickLabels = [
+        ...xTicks.map(x => `<text x="${toX(x)}" y="${bottom + 16}" text-anchor="middle">${formatNumber(x)}</text>`),
+        ...yTicks.map(y => `<text x="${AREA.left - 6}" y="${toY(y) + 4}" text-anchor="end">${formatNumber(y)}</text>`),
+    ].join('');
+    // The axes through the origin, when it is in view.
+    const axes = [
+        xRange[0] <= 0 && xRange[1] >= 0 ? `<line x1="${toX(0)}" x2="${toX(0)}" y1="${AREA.top}" y2="${bottom}"/>` : '',
+        yRange[0] <= 0 && yRange[1] >= 0 ? `<line x1="${AREA.left}" x2="${right}" y1="${toY(0)}" y2="${toY(0)}"/>` : '',
+    ].join('');
+
+    const curves = functions.map((fn, i) => `<path d="${curvePath(fn, xRange, yRange)}" fill="none" stroke="${COLORS[i]}" stroke-width="2"/>`).join('');
+    const legend = spec.showLegend
+        ? functions.map((fn, i) => {
+            const y = AREA.top + 14 + i * 18;
+            return `<text x="${right - 32}" y="${y}" text-anchor="end">${escapeHtml(fn.label)}</text><line x1="${right - 26}" x2="${right - 8}" y1="${y - 4}" y2="${y - 4}" stroke="${COLORS[i]}" stroke-width="2"/>`;
+        }).join('')
+        : '';
+    const labels = [
+        spec.title ? `<text x="${WIDTH / 2}" y="22" text-anchor="middle" font-weight="600">${escapeHtml(spec.title)}</text>` : '',
+        spec.xLabel ? `<text x="${AREA.left + AREA.width / 2}" y="${HEIGHT - 8}" text-anchor="middle">${escapeHtml(spec.xLabel)}</text>` : '',
+        spec.yLabel ? `<text x="14" y="${AREA.top + AREA.height / 2}" text-anchor="middle" transform="rotate(-90 14 ${AREA.top + AREA.height / 2})">${escapeHtml(spec.yLabel)}</text>` : '',
+    ].join('');
+
+    // Shown by showPlotValues while the pointer is over the plot.
+    const hover = `<g class="plot-hover" visibility="hidden"><line class="plot-crosshair" y1="${AREA.top}" y2="${bottom}" stroke="currentColor" stroke-opacity="0.6" stroke-dasharray="4 3"/>`
+        + `${functions.map((_, i) => `<circle r="4" fill="${COLORS[i]}"/>`).join('')}<text class="plot-readout" x="${AREA.left + 8}" y="${AREA.top + 16}" font-weight="600"></text></g>`;
+    // Curves that share a name ("y = ...") are told apart by their labels in the readout.
+    const names = functions.map(fn => fn.name);
+    const hoverData: PlotHoverData = {
+        x: xRange,
+        y: yRange,
+        functions: functions.map(fn => ({
+            expression: fn.expression,
+            variable: fn.variable,
+            name: names.indexOf(fn.name) === names.lastIndexOf(fn.name) ? fn.name : fn.label,
+        })),
+    };
+    const description = `Plot${spec.title ? ` of ${spec.title}` : ''}: ${functions.map(fn => fn.label).join('; ')}, for x from ${formatNumber(xRange[0])} to ${formatNumber(xRange[1])}`;
+
+    return `<svg class="plot" viewBox="0 0 ${WIDTH} ${HEIGHT}" width="${WIDTH}" height="${HEIGHT}" xmlns="http://www.w3.org/2000/svg" font-size="12" fill="currentColor" role="img" aria-label="${escapeHtml(description)}" data-plot="${escapeHtml(JSON.stringify(hoverData))}">`
+        + `<g stroke="currentColor" stroke-opacity="0.12">${grid}</g><g stroke="currentColor" stroke-opacity="0.6">${axes}</g><rect x="${AREA.left}" y="${AREA.top}" width="${AREA.width}" height="${AREA.height}" fill="none" stroke="currentColor" stroke-opacity="0.4"/>`
+        + `${tickLabels}${labels}${curves}${legend}${hover}</svg>`;
+};
+
+const compiledPlots = new WeakMap<Element, { data: PlotHoverData; evaluators: ((x: number) => number)[] }>();
+
+const readPlot = (svg: Element) => {
+    let plot = compiledPlots.get(svg);
+    if (!plot) {
+        const data = JSON.parse(svg.getAttribute('data-plot') ?? '') as PlotHoverData;
+        const evaluators = data.functions.map(fn => {
+            const compiled = compileExpression(fn.expression, [fn.variable]);
+            return (x: number) => compiled({ [fn.variable]: x });
+        });
+        plot = { data, evaluators };
+        compiledPlots.set(svg, plot);
+    }
+    return plot;
+};
+
+// Moves a plot's crosshair to the pointer and shows each curve's value there. The SVG arrives
+// as HTML, so this runs from a delegated pointermove listener rather than React.
+export const showPlotValues = (svg: Element, clientX: number) => {
+    const hover = svg.querySelector('.plot-hover');
+    const box = svg.getBoundingClientRect();
+    const svgX = ((clientX - box.left) / box.width) * WIDTH;
+    if (!hover || svgX < AREA.left || svgX > AREA.left + AREA.width) return hidePlotValues(svg);
+
+    const { data, evaluators } = readPlot(svg);
+    const x = data.x[0] + ((svgX - AREA.left) / AREA.width) * (data.x[1] - data.x[0]);
+    const crosshair = hover.querySelector('.plot-crosshair');
+    crosshair?.setAttribute('x1', String(svgX));
+    crosshair?.setAttribute('x2', String(svgX));
+
+    const readout = [`${data.functions[0].variable} = ${formatNumber(x)}`];
+    hover.querySelectorAll('circle').forEach((circle, i) => {
+        const y = evaluators[i](x);
+        const visible = Number.isFinite(y) && y >= data.y[0] && y <= data.y[1];
+        circle.setAttribute('visibility', visible ? 'inherit' : 'hidden');
+        if (visible) {
+            circle.setAttribute('cx', String(svgX));
+            circle.setAttribute('cy', String(scale(y, data.y, AREA.top + AREA.height, -AREA.height)));
+        }
+        readout.push(`${data.functions[i].name} = ${Number.isFinite(y) ? formatNumber(y) : 'undefined'}`);
+    });
+    const text = hover.querySelector('.plot-readout');
+    if (text) text.textContent = readout.join(',  ');
+    hover.setAttribute('visibility', 'visible');
+};
+
+export const hidePlotValues = (svg: Element) => {
+    svg.querySelector('.plot-hover')?.setAttribute('visibility', 'hidden');
+};
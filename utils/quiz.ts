@@ -0,0 +1,117 @@
+import type { QuizAnswer, QuizAttempt, QuizQuestion, QuizQuestionType } from '../types';
+
+// Question types, scoring and answer text shared by the quiz screens and /api/quiz.
+
+export const QUIZ_QUESTION_TYPES: QuizQuestionType[] = ['single', 'multiple', 'numerical', 'assertion-reason', 'match', 'true-false'];
+
+export const QUIZ_TYPE_LABELS: Record<QuizQuestionType, string> = {
+    single: 'Multiple choice',
+    multiple: 'Multiple correct',
+    numerical: 'Numerical answer',
+    'assertion-reason': 'Assertion–reason',
+    match: 'Match the following',
+    'true-false': 'True or false',
+};
+
+// The fixed choices of an assertion–reason question, as set in JEE and NEET papers.
+export const ASSERTION_REASON_OPTIONS = [
+    'Both A and R are true, and R is the correct explanation of A.',
+    'Both A and R are true, but R is not the correct explanation of A.',
+    'A is true, but R is false.',
+    'A is false, but R is true.',
+];
+
+// Whether the student has given a complete answer: a match question needs every item matched.
+export const isAnswered = (question: QuizQuestion, answer: QuizAnswer | null | undefined): answer is QuizAnswer => {
+    if (answer === null || answer === undefined) return false;
+    switch (question.type) {
+        case 'multiple':
+            return Array.isArray(answer) && answer.length > 0;
+        case 'match':
+            return Array.isArray(answer) && answer.length === question.left.length && answer.every(right => right >= 0);
+        case 'numerical':
+            return typeof answer === 'number' && Number.isFinite(answer);
+        default:
+            return true;
+    }
+};
+
+const sameSet = (a: number[], b: number[]) => a.length === b.length && a.every(value => b.includes(value));
+
+export const isAnswerCorrect = (question: QuizQuestion, answer: QuizAnswer | null | undefined): boolean => {
+    if (answer === null || answer === undefined) return false;
+    switch (question.type) {
+        case 'single':
+        case 'assertion-reason':
+            return answer === question.correctAnswerIndex;
+        case 'multiple':
+            return Array.isArray(answer) && sameSet(answer, question.correctAnswerIndices);
+        case 'numerical':
+            // A hair of slack so 0.1 + 0.2 style rounding in the answer key cannot fail an exact answer.
+            return typeof answer === 'number' && Math.abs(answer - question.answer) <= question.tolerance + 1e-9;
+        case 'match':
+            return Array.isArray(answer) && answer.length === question.correctMatches.length && answer.every((right, i) => right === question.correctMatches[i]);
+        case 'true-false':
+            return answer === question.correctAnswer;
+    }
+};
+
+const optionLetter = (index: number) => String.fromCharCode(65 + index);
+
+// An answer as inline markdown, for the review of a finished quiz.
+export const formatAnswer = (question: QuizQuestion, answer: QuizAnswer): string => {
+    switch (question.type) {
+        case 'single':
+            return question.options[answer as number] ?? '';
+        case 'assertion-reason':
+            return ASSERTION_REASON_OPTIONS[answer as number] ?? '';
+        case 'multiple':
+            return (answer as number[]).slice().sort((a, b) => a - b).map(i => question.options[i]).join('; ');
+        case 'numerical':
+            return question.unit ? `${answer} ${question.unit}` : String(answer);
+        case 'match':
+            return (answer as number[]).map((right, i) => `${optionLetter(i)} → ${right >= 0 ? right + 1 : '?'}`).join(', ');
+        case 'true-false':
+            return answer ? 'True' : 'False';
+    }
+};
+
+export const formatCorrectAnswer = (question: QuizQuestion): string => {
+    switch (question.type) {
+        case 'single':
+        case 'assertion-reason':
+            return formatAnswer(question, question.correctAnswerIndex);
+        case 'multiple':
+            return formatAnswer(question, question.correctAnswerIndices);
+        case 'numerical': {
+            const value = formatAnswer(question, question.answer);
+            return question.tolerance > 0 ? `${value} (± ${question.tolerance})` : value;
+        }
+        case 'match':
+            return formatAnswer(question, question.correctMatches);
+        case 'true-false':
+            return formatAnswer(question, question.correctAnswer);
+    }
+};
+
+// The question as shown to the student, with the parts that some types keep in separate fields.
+export const questionToMarkdown = (question: QuizQuestion): string => {
+    switch (question.type) {
+        case 'assertion-reason':
+            return `${question.question}\n\n**Assertion (A):** ${question.assertion}\n\n**Reason (R):** ${question.reason}`;
+        case 'match': {
+            const rows = Array.from({ length: Math.max(question.left.length, question.right.length) }, (_, i) =>
+                `| ${i < question.left.length ? `${optionLetter(i)}. ${question.left[i]}` : ''} | ${i < question.right.length ? `${i + 1}. ${question.right[i]}` : ''} |`);
+            return `${question.question}\n\n| Column I | Column II |\n| --- | --- |\n${rows.join('\n')}`;
+        }
+        default:
+            return question.question;
+    }
+};
+
+export const scoreQuizAttempt = (attempt: Pick<QuizAttempt, 'questions' | 'answers'>) =>
+    attempt.questions.filter((question, i) => isAnswerCorrect(question, attempt.answers[i])).length;
+
+// The questions to ask again in a retake of only the wrong answers. Unanswered questions count as wrong.
+export const wrongQuestions = (attempt: Pick<QuizAttempt, 'questions' | 'answers'>) =>
+    attempt.questions.filter((question, i) => !isAnswerCorrect(question, attempt.answers[i]));
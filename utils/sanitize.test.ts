@@ -0,0 +1,119 @@
+// @vitest-environment jsdom
+import { Marked } from 'marked';
+import { describe, expect, it } from 'vitest';
+import { rawHtmlExtension, sanitizeHtml } from './sanitize';
+
+// The same two gates the chat uses: markdown with raw HTML escaped, then the allowlist.
+const marked = new Marked(rawHtmlExtension);
+const render = (markdown: string) => sanitizeHtml(marked.parse(markdown) as string);
+
+const parse = (html: string) => {
+    const container = document.createElement('div');
+    container.innerHTML = html;
+    return container;
+};
+
+// Every attribute name in the output, so a test can assert that no event handler survived.
+const attributeNames = (html: string) => [...parse(html).querySelectorAll('*')]
+    .flatMap(element => element.getAttributeNames());
+
+describe('sanitizeHtml', () => {
+    it('removes script elements', () => {
+        const html = sanitizeHtml('<p>Hi</p><script>alert(1)</script>');
+        expect(html).toBe('<p>Hi</p>');
+    });
+
+    it('removes event handler attributes', () => {
+        const html = sanitizeHtml('<img src="https://example.com/a.png" onerror="alert(1)"><span onclick="alert(1)">x</span>');
+        expect(attributeNames(html).filter(name => name.startsWith('on'))).toEqual([]);
+        expect(parse(html).querySelector('img')?.getAttribute('src')).toBe('https://example.com/a.png');
+    });
+
+    it.each([
+        'javascript:alert(1)',
+        'JavaScript:alert(1)',
+        ' javascript:alert(1)',
+        'data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==',
+    ])('drops the href %s', href => {
+        const link = parse(sanitizeHtml(`<a href="${href}">click</a>`)).querySelector('a');
+        expect(link?.hasAttribute('href')).toBe(false);
+    });
+
+    it('keeps web links and opens them in a new tab', () => {
+        const link = parse(sanitizeHtml('<a href="https://example.com">site</a>')).querySelector('a');
+        expect(link?.getAttribute('href')).toBe('https://example.com');
+        expect(link?.getAttribute('target')).toBe('_blank');
+        expect(link?.getAttribute('rel')).toBe('noopener noreferrer nofollow');
+    });
+
+    it('drops style properties outside the allowlist and keeps the rest', () => {
+        const html = sanitizeHtml('<span style="position: fixed; z-index: 9999; color: red">x</span>');
+        expect(parse(html).querySelector('span')?.getAttribute('style')).toBe('color: red');
+    });
+
+    it.each([
+        'background-color: url(https://example.com/track.png)',
+        'color: expression(alert(1))',
+        'color: \\75 rl(https://example.com)',
+        'transform: scale(10)',
+        'position: absolute',
+    ])('removes a style attribute with only %s', style => {
+        const span = parse(sanitizeHtml(`<span style="${style}">x</span>`)).querySelector('span');
+        expect(span?.hasAttribute('style')).toBe(false);
+    });
+});
+
+describe('rawHtmlExtension', () => {
+    it('shows raw HTML from the model as text', () => {
+        const html = render('Look: <img src=x onerror=alert(1)> and <div class="fake-ui">hi</div>');
+        const container = parse(html);
+        expect(container.querySelector('img')).toBeNull();
+        expect(container.querySelector('.fake-ui')).toBeNull();
+        expect(container.textContent).toContain('<img src=x onerror=alert(1)>');
+    });
+
+    it('keeps bare formatting tags', () => {
+        const container = parse(render('H<sub>2</sub>O and <b>bold</b>'));
+        expect(container.querySelector('sub')?.textContent).toBe('2');
+        expect(container.querySelector('b')?.textContent).toBe('bold');
+    });
+
+    it('shows a formatting tag with attributes as text', () => {
+        const container = parse(render('<b onmouseover="alert(1)">hover</b>'));
+        expect(container.querySelector('b')).toBeNull();
+        expect(attributeNames(container.innerHTML)).toEqual([]);
+    });
+
+    it('drops a javascript: markdown link', () => {
+        const link = parse(render('[click](javascript:alert(1))')).querySelector('a');
+        expect(link?.hasAttribute('href') ?? false).toBe(false);
+    });
+});
+
+describe('citation links', () => {
+    // Written the way the chat writes a citation: a markdown link whose title is the source's title.
+    const citation = (title: string) => {
+        const quoted = title.replace(/\s+/g, ' ').replace(/["\\]/g, '\\$&');
+        return `Energy is conserved.<sup>[1](#source-0-0 "${quoted}")</sup>`;
+    };
+
+    it('keeps markup in a source title as plain text in the title attribute', () => {
+        const title = '"><img src=x onerror=alert(1)> Energy \\ "Work"';
+        const link = parse(render(citation(title))).querySelector('sup a');
+        expect(link?.getAttribute('href')).toBe('#source-0-0');
+        expect(link?.getAttribute('title')).toBe(title);
+        // In-page anchors stay in the same tab.
+        expect(link?.hasAttribute('target')).toBe(false);
+    });
+
+    it.each([
+        '"><img src=x onerror=alert(1)>',
+        '"><script>alert(1)</script>',
+        '\\"><a href="javascript:alert(1)">x</a>',
+    ])('never turns the source title %s into markup', title => {
+        const container = parse(render(citation(title)));
+        expect(container.querySelectorAll('img, script')).toHaveLength(0);
+        expect([...container.querySelectorAll('a')].map(link => link.getAttribute('href'))).toEqual(['#source-0-0']);
+        expect(attributeNames(container.innerHTML).filter(name => name.startsWith('on'))).toEqual([]);
+    });
+});
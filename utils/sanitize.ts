@@ -0,0 +1,119 @@
+import DOMPurify from 'dompurify';
+import type { MarkedExtension } from 'marked';
+
+// Model answers and web source titles are untrusted. Everything rendered from them passes
+// through two gates before it reaches dangerouslySetInnerHTML:
+//   1. rawHtmlExtension: raw HTML written by the model is shown as text, except a few bare
+//      formatting tags. So class and style attributes can only come from our own renderers.
+//   2. sanitizeHtml: the rendered HTML is filtered against an allowlist of tags, attributes,
+//      link protocols and inline style properties.
+
+export const escapeHtml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Only web and mail links, plus in-page anchors such as citation links.
+const SAFE_URL = /^(?:(?:https?|mailto):|#)/i;
+
+export const isSafeUrl = (url: string) => SAFE_URL.test(url.trim());
+
+// Bare opening or closing tags only; any attribute means the tag is shown as text.
+const RAW_HTML_ALLOWED = /^<\/?(?:br|sub|sup|b|i|em|strong|u|mark|kbd)\s*\/?>$/i;
+
+export const rawHtmlExtension: MarkedExtension = {
+    renderer: {
+        html({ text }) {
+            return RAW_HTML_ALLOWED.test(text.trim()) ? text : escapeHtml(text);
+        },
+    },
+};
+
+const MARKDOWN_TAGS = [
+    'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'ul', 'ol', 'li',
+    'strong', 'b', 'em', 'i', 'u', 'del', 's', 'sub', 'sup', 'mark', 'kbd', 'code', 'pre',
+    'table', 'thead', 'tbody', 'tr', 'th', 'td', 'a', 'img', 'span', 'div', 'input',
+];
+// The copy buttons added by our code and maths renderers.
+const UI_TAGS = ['button'];
+// KaTeX draws stretchy symbols (long arrows, big roots) as inline SVG, and plot and diagram
+// blocks are drawn as SVG.
+const SVG_TAGS = ['svg', 'g', 'path', 'line', 'rect', 'circle', 'polygon', 'text', 'tspan', 'title'];
+const MATHML_TAGS = [
+    'math', 'semantics', 'annotation', 'mrow', 'mi', 'mn', 'mo', 'ms', 'mtext', 'mspace', 'msup', 'msub',
+    'msubsup', 'mfrac', 'msqrt', 'mroot', 'mover', 'munder', 'munderover', 'mtable', 'mtr', 'mtd',
+    'mstyle', 'mpadded', 'mphantom', 'menclose',
+];
+
+// Links and images are the only attributes holding URLs; DOMPurify checks those against SAFE_URL.
+const URL_ATTRIBUTES = ['href', 'src'];
+
+const ATTRIBUTES = [
+    // Markdown
+    'title', 'alt', 'align', 'start', 'type', 'checked', 'disabled',
+    // Our renderers
+    'class', 'style', 'role', 'data-code', 'data-lang', 'data-plot', 'data-node', 'data-from', 'data-to',
+    'aria-label', 'aria-hidden',
+    // SVG
+    'xmlns', 'width', 'height', 'viewbox', 'preserveaspectratio', 'd', 'fill', 'stroke', 'stroke-width',
+    'stroke-linecap', 'stroke-linejoin', 'x1', 'x2', 'y1', 'y2', 'x', 'y', 'cx', 'cy', 'r', 'rx', 'points',
+    'transform', 'text-anchor', 'font-size', 'font-weight', 'stroke-dasharray', 'stroke-opacity', 'visibility',
+    'overflow',
+    // MathML
+    'encoding', 'display', 'displaystyle', 'scriptlevel', 'mathvariant', 'mathcolor', 'mathbackground',
+    'mathsize', 'stretchy', 'fence', 'separator', 'lspace', 'rspace', 'accent', 'accentunder', 'largeop',
+    'movablelimits', 'minsize', 'maxsize', 'linethickness', 'notation', 'depth', 'voffset',
+    'columnalign', 'columnspacing', 'columnlines', 'rowspacing', 'rowlines',
+];
+
+// The inline styles KaTeX uses for layout. Anything that could lift content out of the
+// message (position other than relative, z-index, transforms, backgrounds from URLs) is dropped.
+const STYLE_PROPERTIES = new Set([
+    'height', 'width', 'min-width', 'vertical-align', 'top', 'bottom', 'left',
+    'margin', 'margin-top', 'margin-right', 'margin-bottom', 'margin-left', 'padding-left',
+    'border-width', 'border-top-width', 'border-right-width', 'border-bottom-width',
+    'border-style', 'border-right-style', 'border-color', 'color', 'background-color', 'text-shadow',
+]);
+
+const filterStyle = (style: string) => style
+    .split(';')
+    .map(declaration => declaration.trim())
+    .filter(declaration => {
+        const colon = declaration.indexOf(':');
+        if (colon < 0) return false;
+        const property = declaration.slice(0, colon).trim().toLowerCase();
+        const value = declaration.slice(colon + 1).trim().toLowerCase();
+        // CSS escapes could spell out url( or expression( in a way the check below can't see.
+        if (value.includes('\\') || /url\(|expression\(|javascript:/.test(value)) return false;
+        return STYLE_PROPERTIES.has(property) || (property === 'position' && value === 'relative');
+    })
+    .join('; ');
+
+const purifier = DOMPurify();
+
+purifier.addHook('uponSanitizeAttribute', (_node, data) => {
+    if (data.attrName !== 'style') return;
+    data.attrValue = filterStyle(data.attrValue);
+    if (!data.attrValue) data.keepAttr = false;
+});
+
+// External links open in a new tab without handing the page a reference back to ours.
+purifier.addHook('afterSanitizeAttributes', node => {
+    if (node.tagName !== 'A') return;
+    const href = node.getAttribute('href');
+    if (href && !href.startsWith('#')) {
+        node.setAttribute('target', '_blank');
+        node.setAttribute('rel', 'noopener noreferrer nofollow');
+    }
+});
+
+export const sanitizeHtml = (html: string): string => purifier.sanitize(html, {
+    ALLOWED_TAGS: [...MARKDOWN_TAGS, ...UI_TAGS, ...SVG_TAGS, ...MATHML_TAGS],
+    ALLOWED_ATTR: [...URL_ATTRIBUTES, ...ATTRIBUTES],
+    // Without this, values such as KaTeX's "0.8em" widths would be tested as URLs and dropped.
+    ADD_URI_SAFE_ATTR: ATTRIBUTES,
+    ALLOWED_URI_REGEXP: SAFE_URL,
+    ALLOW_DATA_ATTR: false,
+});
@@ -0,0 +1,44 @@
+// Text helpers for chat search. The same tokenizer builds the on-write index (see db.ts) and
+// parses queries, so the two always agree on what a "term" is.
+
+const MIN_TERM_LENGTH = 2;
+// Keeps index records small for very long answers; later terms in a message are not indexed.
+const MAX_TERMS_PER_ENTRY = 500;
+
+export const tokenize = (text: string): string[] => {
+    const words = text
+        .toLowerCase()
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '') // Strip diacritics so "résumé" matches "resume".
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(word => word.length >= MIN_TERM_LENGTH);
+    return [...new Set(words)].slice(0, MAX_TERMS_PER_ENTRY);
+};
+
+export type SnippetSegment = { text: string; isMatch: boolean };
+
+// Cuts a window of text around the first match and splits it into plain and highlighted segments.
+export const buildSnippet = (text: string, queryTerms: string[], radius = 70): SnippetSegment[] => {
+    const plain = text.replace(/\s+/g, ' ').trim();
+    if (queryTerms.length === 0) return [{ text: plain.slice(0, radius * 2), isMatch: false }];
+
+    const escaped = queryTerms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    // Query terms are prefixes, so highlight the start of any word they begin.
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${escaped.join('|')})[\\p{L}\\p{N}]*`, 'giu');
+
+    const firstMatch = plain.search(pattern);
+    const start = Math.max(0, (firstMatch < 0 ? 0 : firstMatch) - radius);
+    const end = Math.min(plain.length, start + radius * 2);
+    const window = `${start > 0 ? '…' : ''}${plain.slice(start, end)}${end < plain.length ? '…' : ''}`;
+
+    const segments: SnippetSegment[] = [];
+    let lastIndex = 0;
+    for (const match of window.matchAll(pattern)) {
+        const index = match.index ?? 0;
+        if (index > lastIndex) segments.push({ text: window.slice(lastIndex, index), isMatch: false });
+        segments.push({ text: match[0], isMatch: true });
+        lastIndex = index + match[0].length;
+    }
+    if (lastIndex < window.length) segments.push({ text: window.slice(lastIndex), isMatch: false });
+    return segments;
+};
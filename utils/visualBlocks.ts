@@ -0,0 +1,21 @@
+import { renderDiagram } from './diagram';
+import { renderPlot } from './plot';
+
+// Fenced blocks that are drawn rather than shown as code: ```plot and ```diagram.
+
+const VISUAL_RENDERERS = new Map<string, (source: string) => string>([
+    ['plot', renderPlot],
+    ['diagram', renderDiagram],
+]);
+
+// The drawing for a visual block, or why it could not be drawn so the caller can show the
+// source instead. Undefined for any other language.
+export const renderVisualBlock = (language: string | undefined, source: string): { html: string } | { error: string } | undefined => {
+    const render = language ? VISUAL_RENDERERS.get(language) : undefined;
+    if (!render) return undefined;
+    try {
+        return { html: `<div class="visual-block">${render(source)}</div>` };
+    } catch (error) {
+        return { error: `Couldn't draw this ${language}: ${error instanceof Error ? error.message : String(error)}` };
+    }
+};
@@ -1,7 +1,40 @@
-import { defineConfig } from 'vite'
+import { readFileSync } from 'node:fs'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// The Python runner (utils/codeRunner.worker.ts) loads Pyodide from /pyodide/. These files are
+// served from our own origin rather than a CDN, so running Python works offline.
+const PYODIDE_DIR = new URL('./node_modules/pyodide/', import.meta.url)
+const PYODIDE_FILES = new Map([
+  ['pyodide.asm.js', 'text/javascript'],
+  ['pyodide.asm.wasm', 'application/wasm'],
+  ['python_stdlib.zip', 'application/zip'],
+  ['pyodide-lock.json', 'application/json'],
+])
+
+const pyodideAssets = (): Plugin => ({
+  name: 'pyodide-assets',
+  configureServer(server) {
+    server.middlewares.use('/pyodide', (req, res, next) => {
+      const file = req.url?.split('?')[0].slice(1) ?? ''
+      const contentType = PYODIDE_FILES.get(file)
+      if (!contentType) return next()
+      res.setHeader('Content-Type', contentType)
+      res.end(readFileSync(new URL(file, PYODIDE_DIR)))
+    })
+  },
+  generateBundle() {
+    for (const file of PYODIDE_FILES.keys()) {
+      this.emitFile({ type: 'asset', fileName: `pyodide/${file}`, source: readFileSync(new URL(file, PYODIDE_DIR)) })
+    }
+  },
+})
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), pyodideAssets()],
+  // Pyodide locates its files itself; pre-bundling it breaks that.
+  optimizeDeps: { exclude: ['pyodide'] },
+  // The worker imports Pyodide on demand, which needs an ES module worker.
+  worker: { format: 'es' },
 })